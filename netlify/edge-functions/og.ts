@@ -0,0 +1,53 @@
+/**
+ * Netlify edge function - serves shared links to link unfurlers with the
+ * post's Open Graph and Twitter card tags in the page head (see src/og.ts)
+ *
+ * Set OG_RELAYS (comma-separated relay URLs) to read from other relays than
+ * the app's defaults, e.g. ws://localhost:7777 for scripts/mock-relay.ts
+ */
+
+import { configureShareRelays, getShareId, getShareMeta, injectMetaTags, isCrawler } from '../../src/og.ts';
+
+declare const Netlify: { env: { get(name: string): string | undefined } };
+
+interface Context {
+  next: () => Promise<Response>;
+}
+
+// Crawlers get cached pages for this long; relays are only asked again after that
+const CACHE_CONTROL = 'public, max-age=300, s-maxage=600, stale-while-revalidate=86400';
+
+let isConfigured = false;
+
+export default async function handler(request: Request, context: Context): Promise<Response> {
+  const url = new URL(request.url);
+  const shareId = getShareId(url.pathname);
+  if (!shareId || !isCrawler(request.headers.get('user-agent'))) {
+    return context.next();
+  }
+
+  if (!isConfigured) {
+    configureShareRelays(Netlify.env.get('OG_RELAYS'));
+    isConfigured = true;
+  }
+
+  const [response, meta] = await Promise.all([context.next(), getShareMeta(shareId, url.origin)]);
+  if (!meta || !response.headers.get('content-type')?.includes('text/html')) {
+    return response;
+  }
+
+  const headers = new Headers(response.headers);
+  headers.delete('content-length');
+  headers.set('cache-control', CACHE_CONTROL);
+  headers.set('vary', 'User-Agent');
+
+  return new Response(injectMetaTags(await response.text(), meta), {
+    status: response.status,
+    headers
+  });
+}
+
+export const config = {
+  path: '/*',
+  excludedPath: ['/assets/*', '/logo.*', '/og/*', '/embed/*', '/embed.js', '/oembed', '/identity', '/saved']
+};
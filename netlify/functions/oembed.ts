@@ -0,0 +1,94 @@
+/**
+ * Netlify function - oEmbed endpoint (/oembed?url=<shared note link>) so blogs
+ * and CMSs can embed a note from its link. The embed HTML is the blockquote
+ * that public/embed.js turns into an auto-resizing /embed/:id iframe
+ */
+
+import { configureShareRelays, escapeHtml, getShareId, getShareMeta, resolveShareId, SITE_NAME } from '../../src/og.ts';
+
+declare const Netlify: { env: { get(name: string): string | undefined } };
+
+const EMBED_WIDTH = 550;
+
+// Rough height of a text note; embed.js resizes the iframe to fit once it loads
+const EMBED_HEIGHT = 300;
+
+configureShareRelays(Netlify.env.get('OG_RELAYS'));
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'content-type': 'application/json; charset=utf-8',
+      'access-control-allow-origin': '*',
+      'cache-control': status === 200 ? 'public, max-age=3600' : 'public, max-age=60'
+    }
+  });
+}
+
+export default async function handler(request: Request): Promise<Response> {
+  const requestUrl = new URL(request.url);
+  const params = requestUrl.searchParams;
+  const origin = requestUrl.origin;
+
+  // JSON is the only format offered (oEmbed asks for 501 otherwise)
+  if ((params.get('format') || 'json') !== 'json') {
+    return json({ error: 'Only the json format is supported' }, 501);
+  }
+
+  // Only links to this site are embedded
+  let shareId: string | null = null;
+  try {
+    const url = new URL(params.get('url') || '');
+    shareId = url.origin === origin ? getShareId(url.pathname) : null;
+  } catch {
+    shareId = null;
+  }
+  // Short links embed the note they point at
+  let noteId: string | null = null;
+  try {
+    noteId = shareId ? await resolveShareId(shareId) : null;
+  } catch (error) {
+    console.error('Error resolving short link:', error);
+    return json({ error: 'Could not reach the relays to look up the short link' }, 502);
+  }
+  if (!shareId || !noteId || /^(npub|nprofile)1/.test(noteId)) {
+    return json({ error: 'Not a Nostramp note link' }, 404);
+  }
+
+  const maxWidth = parseInt(params.get('maxwidth') || '', 10);
+  const maxHeight = parseInt(params.get('maxheight') || '', 10);
+  const width = maxWidth > 0 ? Math.min(EMBED_WIDTH, maxWidth) : EMBED_WIDTH;
+  const height = maxHeight > 0 ? Math.min(EMBED_HEIGHT, maxHeight) : EMBED_HEIGHT;
+  const theme = params.get('theme') === 'light' ? ' data-theme="light"' : '';
+
+  // Title and author are extras - the embed works without them if the relays are slow
+  const meta = await getShareMeta(shareId, origin);
+  const noteUrl = `${origin}/${noteId}`;
+  const html = [
+    `<blockquote class="nostramp-embed"${theme}>`,
+    `<a href="${escapeHtml(noteUrl)}">${escapeHtml(meta?.description || 'View this note on Nostramp')}</a>`,
+    `</blockquote>`,
+    `<script async src="${escapeHtml(`${origin}/embed.js`)}"></script>`
+  ].join('');
+
+  return json({
+    version: '1.0',
+    type: 'rich',
+    provider_name: SITE_NAME,
+    provider_url: origin,
+    html,
+    width,
+    height,
+    cache_age: 3600,
+    ...(meta && {
+      title: meta.title,
+      author_name: meta.authorName,
+      author_url: meta.authorUrl
+    })
+  });
+}
+
+export const config = {
+  path: '/oembed'
+};
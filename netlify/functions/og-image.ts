@@ -0,0 +1,95 @@
+/**
+ * Netlify function - /og/<note1...>.png, the generated social preview image
+ * for a note (see src/og.image.tsx). Runs in Node; the font and logo files it
+ * reads are listed under included_files in netlify.toml
+ */
+
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { Font } from 'satori';
+import { fetchNoteCardData, renderNoteImage } from '../../src/og.image.tsx';
+import { configureShareRelays } from '../../src/og.ts';
+
+declare const Netlify: { env: { get(name: string): string | undefined } };
+
+const FONT_DIR = join(process.cwd(), 'node_modules/@fontsource/inter/files');
+
+// Relays are given this long before the request fails
+const RESOLVE_TIMEOUT_MS = 8000;
+
+// Counts on the card go stale, so images are only cached for a while
+const CACHE_CONTROL = 'public, max-age=3600, s-maxage=3600, stale-while-revalidate=86400';
+
+let fonts: Promise<Font[]> | null = null;
+let logo: Promise<string> | null = null;
+
+/**
+ * Load Inter once per function instance - Latin, then Latin Extended as a fallback
+ */
+function loadFonts(): Promise<Font[]> {
+  if (!fonts) {
+    const load = async (subset: string, name: string, weight: 400 | 700): Promise<Font> => ({
+      name,
+      data: await readFile(join(FONT_DIR, `inter-${subset}-${weight}-normal.woff`)),
+      weight,
+      style: 'normal'
+    });
+    fonts = Promise.all([
+      load('latin', 'Inter', 400),
+      load('latin', 'Inter', 700),
+      load('latin-ext', 'Inter Extended', 400),
+      load('latin-ext', 'Inter Extended', 700)
+    ]);
+  }
+  return fonts;
+}
+
+/**
+ * Load the site logo once per function instance
+ */
+function loadLogo(): Promise<string> {
+  if (!logo) {
+    logo = readFile(join(process.cwd(), 'public/logo.svg'), 'utf8');
+  }
+  return logo;
+}
+
+configureShareRelays(Netlify.env.get('OG_RELAYS'));
+
+export default async function handler(request: Request): Promise<Response> {
+  const match = /^\/og\/((?:note|nevent|naddr)1[02-9ac-hj-np-z]+)\.png$/.exec(new URL(request.url).pathname);
+  if (!match) {
+    return new Response('Not found', { status: 404 });
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    const data = await Promise.race([
+      fetchNoteCardData(match[1]),
+      new Promise<null>(resolve => {
+        timer = setTimeout(() => resolve(null), RESOLVE_TIMEOUT_MS);
+      })
+    ]);
+    clearTimeout(timer);
+    if (!data) {
+      return new Response('Note not found', { status: 404, headers: { 'cache-control': 'public, max-age=60' } });
+    }
+
+    const [cardFonts, cardLogo] = await Promise.all([loadFonts(), loadLogo()]);
+    const png = await renderNoteImage(data, cardFonts, cardLogo);
+    return new Response(png, {
+      headers: {
+        'content-type': 'image/png',
+        'cache-control': CACHE_CONTROL
+      }
+    });
+  } catch (error) {
+    clearTimeout(timer);
+    console.error('Error rendering preview image:', error);
+    return new Response('Could not render the preview image', { status: 500 });
+  }
+}
+
+export const config = {
+  path: '/og/*'
+};
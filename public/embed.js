@@ -0,0 +1,73 @@
+/**
+ * Nostramp embed loader
+ * Turns embed blockquotes into note iframes that size themselves to the note:
+ *
+ *   <blockquote class="nostramp-embed" data-theme="light">
+ *     <a href="https://nostramp.com/note1...">View this note on Nostramp</a>
+ *   </blockquote>
+ *   <script async src="https://nostramp.com/embed.js"></script>
+ *
+ * The blockquote (and its link) stays as the fallback where scripts don't run
+ */
+(function () {
+  var script = document.currentScript;
+  var origin = script ? new URL(script.src).origin : 'https://nostramp.com';
+  var ID_PATTERN = /^\/((?:note|nevent|naddr)1[02-9ac-hj-np-z]+)\/?$/;
+  var RESIZE_MESSAGE = 'nostramp:embed-resize';
+
+  // Each copy of the script on a page shares one loader
+  if (window.__nostrampEmbed) {
+    window.__nostrampEmbed.load();
+    return;
+  }
+
+  function getNoteId(element) {
+    if (element.getAttribute('data-id')) return element.getAttribute('data-id');
+    var link = element.querySelector('a[href]');
+    if (!link) return null;
+    try {
+      var match = ID_PATTERN.exec(new URL(link.href).pathname);
+      return match ? match[1] : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  function load() {
+    var embeds = document.querySelectorAll('blockquote.nostramp-embed:not([data-loaded])');
+    Array.prototype.forEach.call(embeds, function (embed) {
+      var id = getNoteId(embed);
+      if (!id) return;
+      embed.setAttribute('data-loaded', 'true');
+
+      var theme = embed.getAttribute('data-theme') === 'light' ? 'light' : 'dark';
+      var iframe = document.createElement('iframe');
+      iframe.src = origin + '/embed/' + id + '?theme=' + theme;
+      iframe.title = 'Nostr note';
+      iframe.loading = 'lazy';
+      iframe.setAttribute('scrolling', 'no');
+      iframe.setAttribute('frameborder', '0');
+      iframe.style.cssText = 'display:block;width:100%;max-width:550px;height:180px;border:0;margin:1em auto;color-scheme:normal;';
+      embed.parentNode.replaceChild(iframe, embed);
+    });
+  }
+
+  // Embeds post their height whenever it changes
+  window.addEventListener('message', function (event) {
+    if (event.origin !== origin || !event.data || event.data.type !== RESIZE_MESSAGE) return;
+    var iframes = document.querySelectorAll('iframe');
+    Array.prototype.forEach.call(iframes, function (iframe) {
+      if (iframe.contentWindow === event.source && event.data.height > 0) {
+        iframe.style.height = event.data.height + 'px';
+      }
+    });
+  });
+
+  window.__nostrampEmbed = { load: load };
+
+  if (document.readyState === 'loading') {
+    document.addEventListener('DOMContentLoaded', load);
+  } else {
+    load();
+  }
+})();
@@ -0,0 +1,186 @@
+/**
+ * Local NIP-46 remote signer stand-in for testing "Connect a remote signer"
+ * Runs its own small relay and answers connect, get_public_key, sign_event,
+ * nip44_encrypt/nip44_decrypt and ping requests with a throwaway key
+ * (or NSEC, if set). The relay also stores what the app publishes
+ *
+ *   deno run --allow-net --allow-env scripts/mock-bunker.ts
+ *
+ * Then either paste the bunker:// URI it prints into the identity page, or
+ * pair from the app's nostrconnect:// QR code (run the app with
+ * VITE_NOSTR_CONNECT_RELAYS=ws://localhost:7778) by pasting its URI into this terminal
+ */
+
+import {
+  finalizeEvent,
+  generateSecretKey,
+  getPublicKey,
+  matchFilters,
+  nip19,
+  nip44,
+  type Event,
+  type EventTemplate,
+  type Filter
+} from 'npm:nostr-tools@^2.23.1';
+
+const PORT = Number(Deno.env.get('PORT') || 7778);
+const RELAY = `ws://localhost:${PORT}`;
+const NOSTR_CONNECT_KIND = 24133;
+
+// The key that signs the user's events, and the key the signer talks to the app with
+const nsec = Deno.env.get('NSEC');
+const userKey = nsec ? nip19.decode(nsec).data as Uint8Array : generateSecretKey();
+const bunkerKey = generateSecretKey();
+const userPubkey = getPublicKey(userKey);
+const bunkerPubkey = getPublicKey(bunkerKey);
+const secret = crypto.randomUUID().slice(0, 8);
+
+interface Subscription {
+  socket: WebSocket;
+  id: string;
+  filters: Filter[];
+}
+
+const stored: Event[] = [];
+const subscriptions: Subscription[] = [];
+
+/**
+ * Store an event (ephemeral kinds are only passed on) and send it to matching subscriptions
+ */
+function broadcast(event: Event): void {
+  if (event.kind < 20000 || event.kind >= 30000) {
+    stored.push(event);
+  }
+  subscriptions
+    .filter(subscription => matchFilters(subscription.filters, event))
+    .forEach(subscription => {
+      if (subscription.socket.readyState === WebSocket.OPEN) {
+        subscription.socket.send(JSON.stringify(['EVENT', subscription.id, event]));
+      }
+    });
+}
+
+/**
+ * Send an encrypted NIP-46 message to an app
+ */
+function reply(clientPubkey: string, message: Record<string, unknown>): void {
+  const conversationKey = nip44.getConversationKey(bunkerKey, clientPubkey);
+  broadcast(finalizeEvent({
+    kind: NOSTR_CONNECT_KIND,
+    created_at: Math.floor(Date.now() / 1000),
+    tags: [['p', clientPubkey]],
+    content: nip44.encrypt(JSON.stringify(message), conversationKey)
+  }, bunkerKey));
+}
+
+/**
+ * Answer one request from an app
+ */
+function handleRequest(method: string, params: string[]): string {
+  switch (method) {
+    case 'connect':
+      if (params[1] && params[1] !== secret) throw new Error('invalid secret');
+      return 'ack';
+    case 'get_public_key':
+      return userPubkey;
+    case 'sign_event':
+      return JSON.stringify(finalizeEvent(JSON.parse(params[0]) as EventTemplate, userKey));
+    case 'nip44_encrypt':
+      return nip44.encrypt(params[1], nip44.getConversationKey(userKey, params[0]));
+    case 'nip44_decrypt':
+      return nip44.decrypt(params[1], nip44.getConversationKey(userKey, params[0]));
+    case 'switch_relays':
+      return JSON.stringify([RELAY]);
+    case 'ping':
+      return 'pong';
+    default:
+      throw new Error(`unsupported method: ${method}`);
+  }
+}
+
+/**
+ * Handle a NIP-46 request event addressed to the signer
+ */
+function handleNostrConnect(event: Event): void {
+  let id = '';
+  try {
+    const conversationKey = nip44.getConversationKey(bunkerKey, event.pubkey);
+    const request = JSON.parse(nip44.decrypt(event.content, conversationKey));
+    id = request.id;
+    const result = handleRequest(request.method, request.params || []);
+    console.log(`${request.method} -> ok`);
+    reply(event.pubkey, { id, result });
+  } catch (error) {
+    console.error('Error handling request:', error);
+    reply(event.pubkey, { id, result: '', error: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+Deno.serve({ port: PORT }, request => {
+  if (request.headers.get('upgrade')?.toLowerCase() !== 'websocket') {
+    return new Response('Mock NIP-46 signer - connect with a websocket\n');
+  }
+
+  const { socket, response } = Deno.upgradeWebSocket(request);
+  socket.onmessage = message => {
+    try {
+      const [type, ...rest] = JSON.parse(message.data);
+      if (type === 'REQ') {
+        const [id, ...filters] = rest as [string, ...Filter[]];
+        subscriptions.push({ socket, id, filters });
+        stored
+          .filter(event => matchFilters(filters, event))
+          .forEach(event => socket.send(JSON.stringify(['EVENT', id, event])));
+        socket.send(JSON.stringify(['EOSE', id]));
+      } else if (type === 'CLOSE') {
+        const index = subscriptions.findIndex(subscription => subscription.socket === socket && subscription.id === rest[0]);
+        if (index > -1) subscriptions.splice(index, 1);
+      } else if (type === 'EVENT') {
+        const event = rest[0] as Event;
+        socket.send(JSON.stringify(['OK', event.id, true, '']));
+        if (event.kind === NOSTR_CONNECT_KIND && event.tags.some(tag => tag[0] === 'p' && tag[1] === bunkerPubkey)) {
+          handleNostrConnect(event);
+        } else {
+          broadcast(event);
+        }
+      }
+    } catch (error) {
+      console.error('Error handling message:', error);
+    }
+  };
+  socket.onclose = () => {
+    for (let i = subscriptions.length - 1; i >= 0; i--) {
+      if (subscriptions[i].socket === socket) subscriptions.splice(i, 1);
+    }
+  };
+  return response;
+});
+
+console.log(`Mock NIP-46 signer on ${RELAY}`);
+console.log(`Signing as ${nip19.npubEncode(userPubkey)}\n`);
+
+/**
+ * Answer a nostrconnect:// pairing - tell the waiting app who we are by echoing its secret
+ */
+function pair(connectUri: string): void {
+  try {
+    const uri = new URL(connectUri);
+    const clientPubkey = uri.host;
+    if (!/^[0-9a-f]{64}$/.test(clientPubkey)) throw new Error('missing client public key');
+    reply(clientPubkey, { id: crypto.randomUUID(), result: uri.searchParams.get('secret') || 'ack' });
+    console.log(`Paired with ${clientPubkey}`);
+  } catch (error) {
+    console.error('Invalid nostrconnect:// URI:', error);
+  }
+}
+
+console.log(`bunker://${bunkerPubkey}?relay=${encodeURIComponent(RELAY)}&secret=${secret}\n`);
+console.log('Or paste a nostrconnect:// URI here to pair:');
+
+let buffered = '';
+for await (const chunk of Deno.stdin.readable.pipeThrough(new TextDecoderStream())) {
+  buffered += chunk;
+  const lines = buffered.split('\n');
+  buffered = lines.pop() || '';
+  lines.map(line => line.trim()).filter(line => line.startsWith('nostrconnect://')).forEach(pair);
+}
@@ -0,0 +1,185 @@
+/**
+ * Local LNURL-pay server for testing zaps without a lightning wallet
+ * Serves a lightning address that accepts NIP-57 zap requests, hands out an
+ * invoice committing to each request, then "pays" it a few seconds later by
+ * publishing the kind-9735 zap receipt to the relays the zap request lists
+ *
+ *   deno run --allow-net --allow-env scripts/mock-lnurl.ts
+ *
+ * Then set a profile's lightning address (lud16) to the address it prints,
+ * e.g. alice@localhost:8080, and zap one of that profile's notes
+ */
+
+import { finalizeEvent, generateSecretKey, getPublicKey, SimplePool, type Event } from 'npm:nostr-tools@^2.23.1';
+import { makeZapReceipt, validateZapRequest } from 'npm:nostr-tools@^2.23.1/nip57';
+import { bytesToHex } from 'npm:nostr-tools@^2.23.1/utils';
+import { secp256k1 } from 'npm:@noble/curves@^2.0.1/secp256k1.js';
+import { sha256 } from 'npm:@noble/hashes@^2.0.1/sha2.js';
+import { bech32 } from 'npm:@scure/base@^2.0.0';
+
+const PORT = Number(Deno.env.get('PORT') || 8080);
+const NAME = Deno.env.get('NAME') || 'alice';
+const ORIGIN = `http://localhost:${PORT}`;
+
+// Millisats accepted per payment (1 to 100,000 sats)
+const MIN_SENDABLE = 1000;
+const MAX_SENDABLE = 100_000_000;
+
+// How long after handing out an invoice it counts as paid
+const PAID_AFTER_MS = 3000;
+
+// bolt11 tagged field types (BOLT #11)
+const PAYMENT_HASH_FIELD = 1;
+const DESCRIPTION_HASH_FIELD = 23;
+
+const METADATA = JSON.stringify([['text/plain', `Zap ${NAME} on the mock LNURL server`]]);
+
+// The key zap receipts are signed with (the nostrPubkey), and the "node" key invoices are signed with
+const providerKey = generateSecretKey();
+const nodeKey = generateSecretKey();
+
+const pool = new SimplePool();
+const encoder = new TextEncoder();
+
+/**
+ * Answer with JSON that the app (on another port) may read
+ */
+function json(body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    headers: { 'Access-Control-Allow-Origin': '*', 'Content-Type': 'application/json' }
+  });
+}
+
+/**
+ * Pack 5-bit words into bytes, padding the last byte with zero bits
+ */
+function wordsToBytes(words: number[]): Uint8Array {
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const word of words) {
+    buffer = (buffer << 5) | word;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+      buffer &= (1 << bits) - 1;
+    }
+  }
+  if (bits > 0) bytes.push((buffer << (8 - bits)) & 0xff);
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Encode a tagged invoice field: its type, a 10-bit length and the data, in 5-bit words
+ */
+function taggedField(type: number, data: Uint8Array): number[] {
+  const words = bech32.toWords(data);
+  return [type, words.length >> 5, words.length & 31, ...words];
+}
+
+/**
+ * Make a signed mainnet bolt11 invoice
+ * @param amountMsats - Amount in millisats
+ * @param paymentHash - SHA-256 of the payment preimage
+ * @param descriptionHash - SHA-256 of what is paid for (for a zap, the zap request JSON)
+ */
+function makeInvoice(amountMsats: number, paymentHash: Uint8Array, descriptionHash: Uint8Array): string {
+  const hrp = amountMsats % 100 === 0 ? `lnbc${amountMsats / 100}n` : `lnbc${amountMsats * 10}p`;
+  const timestamp = Math.floor(Date.now() / 1000);
+  const words = [
+    ...Array.from({ length: 7 }, (_, i) => Math.floor(timestamp / 32 ** (6 - i)) % 32),
+    ...taggedField(PAYMENT_HASH_FIELD, paymentHash),
+    ...taggedField(DESCRIPTION_HASH_FIELD, descriptionHash)
+  ];
+
+  // Signed over the hrp and data; bolt11 puts the recovery ID after r and s
+  const data = wordsToBytes(words);
+  const message = new Uint8Array([...encoder.encode(hrp), ...data]);
+  const recovered = secp256k1.sign(message, nodeKey, { format: 'recovered' });
+  const signature = new Uint8Array([...recovered.subarray(1), recovered[0]]);
+
+  return bech32.encode(hrp, [...words, ...bech32.toWords(signature)], false);
+}
+
+/**
+ * Publish the receipt for a paid zap to the relays the zap request asked for
+ */
+async function publishReceipt(description: string, bolt11: string, preimage: Uint8Array): Promise<void> {
+  const zapRequest = JSON.parse(description) as Event;
+  const relays = zapRequest.tags.find(tag => tag[0] === 'relays')?.slice(1) || [];
+  const receipt = finalizeEvent(makeZapReceipt({
+    zapRequest: description,
+    preimage: bytesToHex(preimage),
+    bolt11,
+    paidAt: new Date()
+  }), providerKey);
+
+  const results = await Promise.allSettled(pool.publish(relays, receipt));
+  const accepted = results.filter(result => result.status === 'fulfilled').length;
+  console.log(`Zap receipt ${receipt.id} published to ${accepted}/${relays.length} relays`);
+}
+
+/**
+ * Hand out an invoice (LUD-06 callback), and schedule the receipt when it's for a zap
+ */
+function handleCallback(params: URLSearchParams): Response {
+  const amountMsats = Number(params.get('amount'));
+  if (!Number.isInteger(amountMsats) || amountMsats < MIN_SENDABLE || amountMsats > MAX_SENDABLE) {
+    return json({ status: 'ERROR', reason: `Amount must be between ${MIN_SENDABLE} and ${MAX_SENDABLE} millisats` });
+  }
+
+  const description = params.get('nostr');
+  if (description) {
+    const error = validateZapRequest(description);
+    if (error) return json({ status: 'ERROR', reason: error });
+
+    const requested = (JSON.parse(description) as Event).tags.find(tag => tag[0] === 'amount')?.[1];
+    if (requested && Number(requested) !== amountMsats) {
+      return json({ status: 'ERROR', reason: 'Amount does not match the zap request' });
+    }
+  }
+
+  const preimage = crypto.getRandomValues(new Uint8Array(32));
+  const pr = makeInvoice(amountMsats, sha256(preimage), sha256(encoder.encode(description || METADATA)));
+  console.log(`Invoice for ${amountMsats / 1000} sats${description ? ' (zap)' : ''}`);
+
+  if (description) {
+    setTimeout(() => {
+      publishReceipt(description, pr, preimage).catch(error => console.error('Error publishing zap receipt:', error));
+    }, PAID_AFTER_MS);
+  }
+
+  return json({ pr, routes: [] });
+}
+
+Deno.serve({ port: PORT }, request => {
+  const url = new URL(request.url);
+
+  if (request.method === 'OPTIONS') {
+    return new Response(null, { status: 204, headers: { 'Access-Control-Allow-Origin': '*' } });
+  }
+
+  if (url.pathname === `/.well-known/lnurlp/${NAME}`) {
+    return json({
+      tag: 'payRequest',
+      callback: `${ORIGIN}/lnurlp/${NAME}/callback`,
+      minSendable: MIN_SENDABLE,
+      maxSendable: MAX_SENDABLE,
+      metadata: METADATA,
+      commentAllowed: 280,
+      allowsNostr: true,
+      nostrPubkey: getPublicKey(providerKey)
+    });
+  }
+
+  if (url.pathname === `/lnurlp/${NAME}/callback`) {
+    return handleCallback(url.searchParams);
+  }
+
+  return new Response('Not found\n', { status: 404, headers: { 'Access-Control-Allow-Origin': '*' } });
+});
+
+console.log(`Mock LNURL server on ${ORIGIN}`);
+console.log(`Lightning address: ${NAME}@localhost:${PORT}`);
+console.log(`Zap receipts are signed by ${getPublicKey(providerKey)} and published ${PAID_AFTER_MS / 1000}s after each invoice\n`);
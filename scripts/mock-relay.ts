@@ -0,0 +1,97 @@
+/**
+ * Mock Nostr relay for testing share previews locally
+ * Serves a signed profile, note, long-form article and short link from memory and prints links to them
+ *
+ *   deno run --allow-net --allow-env scripts/mock-relay.ts
+ *   OG_RELAYS=ws://localhost:7777 netlify dev
+ *   curl -A Slackbot http://localhost:8888/<link printed below>
+ */
+
+import {
+  finalizeEvent,
+  generateSecretKey,
+  matchFilters,
+  nip19,
+  type Event,
+  type Filter
+} from 'npm:nostr-tools@^2.23.1';
+
+const PORT = Number(Deno.env.get('PORT') || 7777);
+const SITE = Deno.env.get('SITE') || 'http://localhost:8888';
+
+const secretKey = generateSecretKey();
+const now = Math.floor(Date.now() / 1000);
+
+const profile = finalizeEvent({
+  kind: 0,
+  created_at: now,
+  tags: [],
+  content: JSON.stringify({
+    name: 'mock',
+    display_name: 'Mock Author',
+    about: 'A profile served by the local mock relay.',
+    picture: 'https://robohash.org/nostramp-mock.png'
+  })
+}, secretKey);
+
+const note = finalizeEvent({
+  kind: 1,
+  created_at: now,
+  tags: [['t', 'nostr']],
+  content: 'Hello from the mock relay! This is what an unfurled Nostramp link looks like. #nostr\n\nhttps://picsum.photos/seed/nostramp/1200/630.jpg'
+}, secretKey);
+
+const article = finalizeEvent({
+  kind: 30023,
+  created_at: now,
+  tags: [
+    ['d', 'mock-article'],
+    ['title', 'A Mock Article'],
+    ['summary', 'A long-form article served by the local mock relay.'],
+    ['image', 'https://picsum.photos/seed/nostramp-article/1200/630.jpg'],
+    ['published_at', String(now)]
+  ],
+  content: '# Hello\n\nThis article only exists on the mock relay.'
+}, secretKey);
+
+// Short link (kind 30078, see src/shortlinks.ts) pointing at the note
+const shortLink = finalizeEvent({
+  kind: 30078,
+  created_at: now,
+  tags: [['d', 'nostramp/s/mock-note']],
+  content: nip19.noteEncode(note.id)
+}, secretKey);
+
+const events: Event[] = [profile, note, article, shortLink];
+
+Deno.serve({ port: PORT }, request => {
+  if (request.headers.get('upgrade')?.toLowerCase() !== 'websocket') {
+    return new Response('Mock Nostr relay - connect with a websocket\n');
+  }
+
+  const { socket, response } = Deno.upgradeWebSocket(request);
+  socket.onmessage = message => {
+    try {
+      const [type, ...rest] = JSON.parse(message.data);
+      if (type === 'REQ') {
+        const [subscriptionId, ...filters] = rest as [string, ...Filter[]];
+        events
+          .filter(event => matchFilters(filters, event))
+          .forEach(event => socket.send(JSON.stringify(['EVENT', subscriptionId, event])));
+        socket.send(JSON.stringify(['EOSE', subscriptionId]));
+      } else if (type === 'EVENT') {
+        socket.send(JSON.stringify(['OK', rest[0]?.id, false, 'blocked: read-only mock relay']));
+      }
+    } catch (error) {
+      console.error('Error handling message:', error);
+    }
+  };
+  return response;
+});
+
+const relays = [`ws://localhost:${PORT}`];
+console.log(`Mock relay on ws://localhost:${PORT}\n`);
+console.log(`Note:    ${SITE}/${nip19.neventEncode({ id: note.id, relays, author: note.pubkey })}`);
+console.log(`Article: ${SITE}/${nip19.naddrEncode({ kind: 30023, pubkey: article.pubkey, identifier: 'mock-article', relays })}`);
+console.log(`Profile: ${SITE}/${nip19.nprofileEncode({ pubkey: profile.pubkey, relays })}`);
+console.log(`Short:   ${SITE}/s/mock-note`);
@@ -1,8 +1,24 @@
-import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
+import { BrowserRouter, Routes, Route, Navigate, useParams } from 'react-router-dom';
 import './style.css';
 import HomePage from './pages/HomePage';
 import PreviewPage from './pages/PreviewPage';
 import IdentityPage from './pages/IdentityPage';
+import SavedPage from './pages/SavedPage';
+import ProfilePage from './pages/ProfilePage';
+import EmbedPage from './pages/EmbedPage';
+import ShortLinkPage from './pages/ShortLinkPage';
+import { decodeProfileId } from './nostr';
+import { isShortLinkSlug } from './shortlinks';
+
+/**
+ * Shared links point at a note, an article or a profile - pick the matching preview
+ * Short link slugs are looked up first; anything else is decoded as a Nostr ID
+ */
+function LinkPreview() {
+  const { id } = useParams<{ id: string }>();
+  if (id && isShortLinkSlug(id.toLowerCase())) return <ShortLinkPage />;
+  return id && decodeProfileId(id) ? <ProfilePage /> : <PreviewPage />;
+}
 
 function App() {
   return (
@@ -10,7 +26,10 @@ function App() {
       <Routes>
         <Route path="/" element={<HomePage />} />
         <Route path="/identity" element={<IdentityPage />} />
-        <Route path="/:id" element={<PreviewPage />} />
+        <Route path="/saved" element={<SavedPage />} />
+        <Route path="/embed/:id" element={<EmbedPage />} />
+        <Route path="/s/:slug" element={<ShortLinkPage />} />
+        <Route path="/:id" element={<LinkPreview />} />
         <Route path="*" element={<Navigate to="/" replace />} />
       </Routes>
     </BrowserRouter>
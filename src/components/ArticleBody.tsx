@@ -0,0 +1,60 @@
+import { Link } from 'react-router-dom';
+import Markdown, { defaultUrlTransform, type Components } from 'react-markdown';
+
+// nostr: links to notes and articles open as previews on this site (NIP-21)
+const NOSTR_LINK_PATTERN = /^nostr:((note1|nevent1|naddr1)[a-z0-9]+)$/i;
+
+/**
+ * Keep nostr: links (rewritten to preview routes); other URLs get react-markdown's
+ * default filtering, which drops javascript: and other unsafe protocols
+ */
+function transformUrl(url: string): string {
+  const match = NOSTR_LINK_PATTERN.exec(url);
+  return match ? `/${match[1]}` : defaultUrlTransform(url);
+}
+
+// Raw HTML in the Markdown isn't rendered, only these elements
+const components: Components = {
+  // The article title is the page heading, so headings start one level down
+  h1: ({ children }) => <h2 className="text-2xl font-bold text-text-primary mt-8 mb-4">{children}</h2>,
+  h2: ({ children }) => <h3 className="text-xl font-bold text-text-primary mt-8 mb-3">{children}</h3>,
+  h3: ({ children }) => <h4 className="text-lg font-semibold text-text-primary mt-6 mb-3">{children}</h4>,
+  h4: ({ children }) => <h5 className="text-base font-semibold text-text-primary mt-6 mb-2">{children}</h5>,
+  p: ({ children }) => <p className="mb-4 leading-relaxed">{children}</p>,
+  a: ({ href, children }) =>
+    href?.startsWith('/') ? (
+      <Link to={href} className="text-nostr-purple no-underline hover:underline break-words">{children}</Link>
+    ) : (
+      <a href={href} target="_blank" rel="noopener noreferrer" className="text-nostr-purple no-underline hover:underline break-words">
+        {children}
+      </a>
+    ),
+  img: ({ src, alt }) => (
+    <img src={src} alt={alt || ''} loading="lazy" className="max-w-full h-auto rounded-xl my-4" />
+  ),
+  ul: ({ children }) => <ul className="list-disc pl-6 mb-4 space-y-1">{children}</ul>,
+  ol: ({ children }) => <ol className="list-decimal pl-6 mb-4 space-y-1">{children}</ol>,
+  blockquote: ({ children }) => (
+    <blockquote className="border-l-4 border-nostr-purple/50 pl-4 my-4 text-text-secondary italic">{children}</blockquote>
+  ),
+  pre: ({ children }) => (
+    <pre className="bg-bg-tertiary border border-border rounded-xl p-4 my-4 overflow-x-auto text-sm">{children}</pre>
+  ),
+  code: ({ children }) => <code className="font-mono text-[0.9em] bg-bg-tertiary rounded px-1">{children}</code>,
+  hr: () => <hr className="border-0 border-t border-border my-8" />
+};
+
+/**
+ * Markdown body of a long-form article (NIP-23)
+ */
+function ArticleBody({ content }: { content: string }) {
+  return (
+    <div className="text-text-primary text-base break-words">
+      <Markdown components={components} urlTransform={transformUrl}>
+        {content}
+      </Markdown>
+    </div>
+  );
+}
+
+export default ArticleBody;
@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import type { CustomEmoji } from '../nostr';
+
+// Emoji offered before the user types their own
+const QUICK_EMOJIS = ['🤙', '❤️', '🔥', '😂', '⚡', '🙏', '👀', '🫂', '🎉', '😮', '😢', '💜'];
+
+interface EmojiPickerProps {
+  customEmojis: CustomEmoji[];
+  onSelect: (content: string, emoji?: CustomEmoji) => void;
+  onClose: () => void;
+}
+
+/**
+ * Check if text is an emoji reaction (emoji only, not arbitrary text)
+ */
+function isEmoji(text: string): boolean {
+  return text.length > 0 && text.length <= 16 &&
+    /^(\p{Extended_Pictographic}|\p{Regional_Indicator}|\p{Emoji_Component}|\u200d|\ufe0f)+$/u.test(text) &&
+    /\p{Extended_Pictographic}|\p{Regional_Indicator}/u.test(text);
+}
+
+/**
+ * Pick an emoji or a NIP-30 custom emoji to react with
+ */
+function EmojiPicker({ customEmojis, onSelect, onClose }: EmojiPickerProps) {
+  const [input, setInput] = useState('');
+  const trimmed = input.trim();
+
+  return (
+    <div className="my-4 p-4 bg-bg-tertiary rounded-2xl border border-border">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-text-secondary text-sm">React with an emoji</span>
+        <button
+          className="flex items-center justify-center w-7 h-7 bg-transparent border-none rounded-lg text-text-muted cursor-pointer transition-colors duration-200 hover:text-text-primary"
+          onClick={onClose}
+          title="Close"
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-1 mb-3">
+        {QUICK_EMOJIS.map(emoji => (
+          <button
+            key={emoji}
+            className="w-9 h-9 flex items-center justify-center bg-transparent border border-transparent rounded-lg text-xl cursor-pointer transition-all duration-200 hover:border-border hover:bg-bg-card"
+            onClick={() => onSelect(emoji)}
+          >
+            {emoji}
+          </button>
+        ))}
+      </div>
+
+      {customEmojis.length > 0 && (
+        <>
+          <p className="text-text-muted text-xs mb-2">Custom emoji</p>
+          <div className="flex flex-wrap gap-1 mb-3 max-h-32 overflow-y-auto">
+            {customEmojis.map(emoji => (
+              <button
+                key={`${emoji.shortcode}:${emoji.url}`}
+                className="w-9 h-9 flex items-center justify-center bg-transparent border border-transparent rounded-lg cursor-pointer transition-all duration-200 hover:border-border hover:bg-bg-card"
+                onClick={() => onSelect(`:${emoji.shortcode}:`, emoji)}
+                title={`:${emoji.shortcode}:`}
+              >
+                <img src={emoji.url} alt={`:${emoji.shortcode}:`} loading="lazy" className="w-6 h-6 object-contain" />
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          placeholder="Or type any emoji"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && isEmoji(trimmed) && onSelect(trimmed)}
+          className="flex-1 bg-bg-card border border-border rounded-xl px-3 py-2 text-text-primary text-sm outline-none transition-colors duration-200 focus:border-nostr-purple placeholder:text-text-muted"
+        />
+        <button
+          className="px-4 py-2 bg-gradient-to-br from-nostr-purple to-nostr-orange border-none rounded-xl text-white text-sm font-semibold cursor-pointer transition-opacity duration-200 hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed"
+          disabled={!isEmoji(trimmed)}
+          onClick={() => onSelect(trimmed)}
+        >
+          React
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default EmojiPicker;
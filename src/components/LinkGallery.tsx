@@ -0,0 +1,449 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { Link } from 'react-router-dom';
+import { Search, Copy, Check, Trash2, ExternalLink, Download, Upload, MessageCircle, Repeat2, Heart, Zap, Link2 } from 'lucide-react';
+import {
+  decodeEventId,
+  decodeProfileId,
+  fetchEvent,
+  fetchEvents,
+  fetchProfiles,
+  fetchActivityForEvents,
+  subscribeToEventsActivity,
+  applyActivityToEvents,
+  removeActivityFromEvents,
+  getEmptyReactionCounts,
+  parseContent,
+  isArticle,
+  parseArticle,
+  formatRelativeTime,
+  formatReactionCount,
+  getDisplayName,
+  type Event,
+  type ReactionCounts
+} from '../nostr';
+import {
+  removeCreatedLink,
+  updateCreatedLinkMetadata,
+  exportCreatedLinks,
+  importCreatedLinks,
+  type CreatedLink,
+  type CreatedLinkMetadata
+} from '../storage';
+import { getZapProviderPubkey } from '../zaps';
+
+// Links shown before "Show more"
+const GALLERY_PAGE_SIZE = 10;
+
+// Cached author names and snippets are refreshed after a day
+const METADATA_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+const SNIPPET_LENGTH = 140;
+
+interface LinkGalleryProps {
+  links: CreatedLink[];
+  onChange: (links: CreatedLink[]) => void;
+}
+
+/**
+ * Short text for a note: the article title, or the start of the note
+ */
+function getSnippet(event: Event): string {
+  if (isArticle(event)) {
+    const article = parseArticle(event);
+    if (article.title) return article.title;
+  }
+  const text = parseContent(event.content, event.tags, event.kind).text.replace(/\s+/g, ' ').trim();
+  return text.length > SNIPPET_LENGTH ? `${text.slice(0, SNIPPET_LENGTH)}...` : text;
+}
+
+/**
+ * Look up the author and a snippet for each link
+ * Links whose note can't be found are left out so they're tried again later
+ * @returns Metadata keyed by link ID
+ */
+async function fetchLinkMetadata(links: CreatedLink[]): Promise<Record<string, CreatedLinkMetadata>> {
+  const pubkeys: Record<string, string> = {};
+  const events: Record<string, Event> = {};
+  const noteIds: Record<string, string> = {};
+  const relayHints: string[] = [];
+  const addresses: Promise<void>[] = [];
+
+  links.forEach(link => {
+    const profile = decodeProfileId(link.id);
+    if (profile) {
+      pubkeys[link.id] = profile.pubkey;
+      relayHints.push(...(profile.relays || []));
+      return;
+    }
+
+    const decoded = decodeEventId(link.id);
+    if (!decoded) return;
+    if (decoded.id.includes(':')) {
+      // Addressable events (articles) are looked up by coordinate, one at a time
+      addresses.push(fetchEvent(decoded.id, decoded.relays, decoded.author).then(event => {
+        if (event) events[link.id] = event;
+      }));
+    } else {
+      noteIds[link.id] = decoded.id;
+      relayHints.push(...(decoded.relays || []));
+    }
+  });
+
+  const [found] = await Promise.all([fetchEvents(Object.values(noteIds), relayHints), ...addresses]);
+  Object.entries(noteIds).forEach(([linkId, eventId]) => {
+    const event = found.find(candidate => candidate.id === eventId);
+    if (event) events[linkId] = event;
+  });
+  Object.entries(events).forEach(([linkId, event]) => {
+    pubkeys[linkId] = event.pubkey;
+  });
+
+  const profiles = await fetchProfiles(Object.values(pubkeys), relayHints);
+  const fetchedAt = Date.now();
+  const metadata: Record<string, CreatedLinkMetadata> = {};
+  Object.entries(pubkeys).forEach(([linkId, pubkey]) => {
+    const profile = profiles[pubkey] || null;
+    const event = events[linkId];
+    metadata[linkId] = {
+      authorPubkey: pubkey,
+      authorName: profile ? getDisplayName(profile, pubkey) : undefined,
+      authorPicture: profile?.picture,
+      snippet: event ? getSnippet(event) : profile?.about?.slice(0, SNIPPET_LENGTH),
+      eventId: event?.id,
+      fetchedAt
+    };
+  });
+  return metadata;
+}
+
+/**
+ * Look up the LNURL provider that signs zap receipts for each note's author
+ * @param authors - Author public key (hex) keyed by event ID
+ * @returns Provider nostrPubkey keyed by event ID (null if the author can't receive zaps)
+ */
+async function fetchZapProviders(authors: Record<string, string>): Promise<Record<string, string | null>> {
+  const profiles = await fetchProfiles([...new Set(Object.values(authors))]);
+  const providers: Record<string, string | null> = {};
+  await Promise.all(Object.entries(authors).map(async ([eventId, pubkey]) => {
+    providers[eventId] = await getZapProviderPubkey(profiles[pubkey] || null);
+  }));
+  return providers;
+}
+
+/**
+ * Hex ID of the note behind a link, for counting its reactions
+ */
+function getLinkEventId(link: CreatedLink): string | null {
+  const decoded = decodeEventId(link.id);
+  if (!decoded) return null;
+  return decoded.id.includes(':') ? link.metadata?.eventId || null : decoded.id;
+}
+
+/**
+ * The link to share - the short link when there is one
+ */
+function getShareableLink(link: CreatedLink): string {
+  return link.slug ? `${window.location.origin}/s/${link.slug}` : `${window.location.origin}/${link.id}`;
+}
+
+/**
+ * Gallery of the links created on this browser: search, re-copy, delete,
+ * live reaction counts, and JSON export/import
+ */
+function LinkGallery({ links, onChange }: LinkGalleryProps) {
+  const [query, setQuery] = useState('');
+  const [visibleCount, setVisibleCount] = useState(GALLERY_PAGE_SIZE);
+  const [reactions, setReactions] = useState<Record<string, ReactionCounts>>({});
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [importMessage, setImportMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const requestedMetadata = useRef(new Set<string>());
+
+  const filteredLinks = useMemo(() => {
+    const terms = query.toLowerCase().trim();
+    if (!terms) return links;
+    return links.filter(link =>
+      [link.id, link.source, link.slug, link.metadata?.authorName, link.metadata?.snippet]
+        .some(value => value?.toLowerCase().includes(terms))
+    );
+  }, [links, query]);
+  const visibleLinks = filteredLinks.slice(0, visibleCount);
+
+  // Fill in authors and snippets for new links, and refresh old ones
+  useEffect(() => {
+    const stale = links.filter(link =>
+      !requestedMetadata.current.has(link.id) &&
+      (!link.metadata || Date.now() - link.metadata.fetchedAt > METADATA_MAX_AGE_MS)
+    );
+    if (stale.length === 0) return;
+    stale.forEach(link => requestedMetadata.current.add(link.id));
+
+    fetchLinkMetadata(stale)
+      .then(metadata => {
+        if (Object.keys(metadata).length > 0) {
+          onChange(updateCreatedLinkMetadata(metadata));
+        }
+      })
+      .catch(error => console.error('Error loading link details:', error));
+  }, [links, onChange]);
+
+  // Count reactions on the visible notes, then keep the counts live
+  // Entries are "<event ID>:<author>" - zaps are checked against the author's LNURL provider
+  const watched = new Map<string, string>();
+  visibleLinks.forEach(link => {
+    const eventId = getLinkEventId(link);
+    if (eventId) watched.set(eventId, link.metadata?.authorPubkey || '');
+  });
+  const watchedKey = [...watched].map(([eventId, author]) => `${eventId}:${author}`).sort().join(',');
+  useEffect(() => {
+    if (!watchedKey) return;
+    const entries = watchedKey.split(',').map(entry => entry.split(':'));
+    const eventIds = entries.map(([eventId]) => eventId);
+    const authors = Object.fromEntries(entries.filter(([, author]) => author));
+    let isCancelled = false;
+    let close = () => {};
+
+    fetchZapProviders(authors)
+      .then(async zapProviders => {
+        // Live updates start from before the fetch, so nothing published meanwhile is missed
+        const since = Math.floor(Date.now() / 1000);
+        const activityEvents = await fetchActivityForEvents(eventIds);
+        if (isCancelled) return;
+
+        const empty: Record<string, ReactionCounts> = Object.fromEntries(eventIds.map(id => [id, getEmptyReactionCounts()]));
+        const counts = activityEvents.reduce((total, activity) => applyActivityToEvents(total, activity, zapProviders), empty);
+        setReactions(prev => ({ ...prev, ...counts }));
+
+        const seen = new Set(activityEvents.map(activity => activity.id));
+        const counted = new Map(activityEvents.map(activity => [activity.id, activity]));
+        close = subscribeToEventsActivity(eventIds, (activity) => {
+          if (seen.has(activity.id)) return;
+          seen.add(activity.id);
+          counted.set(activity.id, activity);
+          setReactions(prev => applyActivityToEvents(prev, activity, zapProviders));
+        }, (deletedId) => {
+          // Take deleted or undone activity back out of the counts
+          const deleted = counted.get(deletedId);
+          counted.delete(deletedId);
+          if (deleted) setReactions(prev => removeActivityFromEvents(prev, deleted, zapProviders));
+        }, { since, knownEvents: activityEvents });
+      })
+      .catch(error => console.error('Error loading reaction counts:', error));
+
+    return () => {
+      isCancelled = true;
+      close();
+    };
+  }, [watchedKey]);
+
+  const handleCopy = async (link: CreatedLink) => {
+    try {
+      await navigator.clipboard.writeText(getShareableLink(link));
+      setCopiedId(link.id);
+      setTimeout(() => setCopiedId(current => (current === link.id ? null : current)), 2000);
+    } catch (error) {
+      console.error('Failed to copy to clipboard:', error);
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportCreatedLinks()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `nostramp-links-${new Date().toISOString().slice(0, 10)}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const result = importCreatedLinks(await file.text());
+      if (result.error) {
+        setImportMessage({ text: result.error, isError: true });
+        return;
+      }
+      onChange(result.links);
+      setImportMessage({
+        text: result.added === 1 ? 'Imported 1 link' : `Imported ${result.added} links`,
+        isError: false
+      });
+    } catch (error) {
+      console.error('Error importing links:', error);
+      setImportMessage({ text: 'Could not read the file', isError: true });
+    }
+  };
+
+  const renderCounts = (counts: ReactionCounts) => {
+    const likes = counts.likes + counts.emojiReactions.reduce((total, group) => total + group.count, 0);
+    return (
+      <div className="flex items-center gap-3 text-text-muted text-xs">
+        <span className="flex items-center gap-1" title="Replies">
+          <MessageCircle size={13} />
+          {formatReactionCount(counts.replies) || '0'}
+        </span>
+        <span className="flex items-center gap-1" title="Reposts">
+          <Repeat2 size={13} />
+          {formatReactionCount(counts.reposts) || '0'}
+        </span>
+        <span className="flex items-center gap-1" title="Reactions">
+          <Heart size={13} />
+          {formatReactionCount(likes) || '0'}
+        </span>
+        {counts.zapSats > 0 && (
+          <span className="flex items-center gap-1" title={`${counts.zapSats.toLocaleString()} sats zapped`}>
+            <Zap size={13} className="text-nostr-orange" />
+            {formatReactionCount(counts.zapSats)}
+          </span>
+        )}
+      </div>
+    );
+  };
+
+  const renderLink = (link: CreatedLink) => {
+    const metadata = link.metadata;
+    const pubkey = metadata?.authorPubkey;
+    const displayName = metadata?.authorName || (pubkey ? getDisplayName(null, pubkey) : 'Loading...');
+    const isProfile = /^(npub|nprofile)1/i.test(link.id);
+    const eventId = getLinkEventId(link);
+    const counts = eventId ? reactions[eventId] : undefined;
+
+    return (
+      <div key={link.id} className="p-4 bg-bg-tertiary/60 rounded-xl border border-border transition-colors duration-200 hover:border-nostr-purple/40">
+        <div className="flex items-center gap-3 mb-2">
+          <div className="w-8 h-8 rounded-full overflow-hidden shrink-0 bg-bg-card">
+            {metadata?.authorPicture ? (
+              <img src={metadata.authorPicture} alt={displayName} loading="lazy" className="w-full h-full object-cover" />
+            ) : pubkey ? (
+              <svg viewBox="0 0 100 100" xmlns="http://www.w3.org/2000/svg" className="w-full h-full">
+                <rect width="100" height="100" fill={`hsl(${parseInt(pubkey.slice(0, 8), 16) % 360}, 70%, 50%)`} />
+                <text x="50" y="65" textAnchor="middle" fontSize="45" fill="white">
+                  {displayName.charAt(0).toUpperCase()}
+                </text>
+              </svg>
+            ) : null}
+          </div>
+          <div className="flex-1 min-w-0 flex items-center gap-2">
+            <span className="font-semibold text-text-primary text-sm truncate">{displayName}</span>
+            {isProfile && (
+              <span className="px-1.5 py-0.5 bg-nostr-purple/10 rounded text-nostr-purple text-[10px] font-medium">Profile</span>
+            )}
+            {link.slug && (
+              <span className="px-1.5 py-0.5 bg-nostr-orange/10 rounded text-nostr-orange text-[10px] font-mono truncate" title="Short link">/s/{link.slug}</span>
+            )}
+          </div>
+          <span className="text-text-muted text-xs shrink-0" title={new Date(link.createdAt).toLocaleString()}>
+            {formatRelativeTime(Math.floor(link.createdAt / 1000))}
+          </span>
+        </div>
+        <Link to={`/${link.id}`} className="block no-underline">
+          <p className="text-text-secondary text-sm break-words line-clamp-2 mb-2">
+            {metadata?.snippet || <span className="font-mono text-text-muted">{link.id.slice(0, 24)}...</span>}
+          </p>
+        </Link>
+        <p className="text-text-muted text-[11px] truncate mb-3" title={link.source}>From {link.source}</p>
+        <div className="flex items-center gap-3">
+          {counts && renderCounts(counts)}
+          <div className="flex items-center gap-3 ml-auto">
+            <button
+              className="flex items-center gap-1 bg-transparent border-none p-0 text-text-muted text-xs cursor-pointer transition-colors duration-200 hover:text-nostr-purple"
+              onClick={() => handleCopy(link)}
+            >
+              {copiedId === link.id ? <Check size={14} /> : <Copy size={14} />}
+              {copiedId === link.id ? 'Copied' : 'Copy'}
+            </button>
+            <Link to={`/${link.id}`} className="flex items-center gap-1 text-text-muted text-xs no-underline transition-colors duration-200 hover:text-nostr-purple">
+              <ExternalLink size={14} />
+              Open
+            </Link>
+            <button
+              className="flex items-center gap-1 bg-transparent border-none p-0 text-text-muted text-xs cursor-pointer transition-colors duration-200 hover:text-red-400"
+              onClick={() => onChange(removeCreatedLink(link.id))}
+            >
+              <Trash2 size={14} />
+              Delete
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="w-full max-w-3xl mb-8 bg-bg-secondary/50 border border-border rounded-2xl p-5 sm:p-6 backdrop-blur-sm animate-fade-in">
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <h2 className="flex items-center gap-2 text-lg font-semibold text-text-primary">
+          <Link2 size={18} className="text-nostr-purple" />
+          Your Links
+          <span className="text-text-muted text-sm font-normal">{links.length}</span>
+        </h2>
+        <div className="flex items-center gap-2 ml-auto">
+          <label className="flex items-center gap-1.5 px-3 py-1.5 border border-border rounded-lg text-text-secondary text-xs cursor-pointer transition-colors duration-200 hover:border-nostr-purple hover:text-nostr-purple">
+            <Upload size={14} />
+            Import
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                handleImport(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          <button
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-transparent border border-border rounded-lg text-text-secondary text-xs cursor-pointer transition-colors duration-200 hover:border-nostr-purple hover:text-nostr-purple disabled:opacity-50 disabled:cursor-not-allowed"
+            onClick={handleExport}
+            disabled={links.length === 0}
+          >
+            <Download size={14} />
+            Export
+          </button>
+        </div>
+      </div>
+
+      {importMessage && (
+        <p className={`text-xs mb-3 ${importMessage.isError ? 'text-red-400' : 'text-emerald-400'}`}>{importMessage.text}</p>
+      )}
+
+      {links.length === 0 ? (
+        <p className="text-text-muted text-sm text-center py-6">Links you create show up here, or import a saved list.</p>
+      ) : (
+        <>
+          <div className="relative mb-4">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-text-muted" size={16} />
+            <input
+              type="text"
+              placeholder="Search by author, text or link..."
+              value={query}
+              onChange={(e) => {
+                setQuery(e.target.value);
+                setVisibleCount(GALLERY_PAGE_SIZE);
+              }}
+              className="w-full bg-bg-card border border-border rounded-xl pl-9 pr-3 py-2 text-text-primary text-sm outline-none transition-colors duration-200 focus:border-nostr-purple placeholder:text-text-muted"
+            />
+          </div>
+
+          {filteredLinks.length === 0 ? (
+            <p className="text-text-muted text-sm text-center py-6">No links match "{query}"</p>
+          ) : (
+            <div className="space-y-3">
+              {visibleLinks.map(renderLink)}
+            </div>
+          )}
+
+          {filteredLinks.length > visibleCount && (
+            <button
+              className="w-full mt-4 px-4 py-2 bg-transparent border border-border rounded-lg text-text-secondary text-sm cursor-pointer transition-colors duration-200 hover:border-nostr-purple hover:text-nostr-purple"
+              onClick={() => setVisibleCount(count => count + GALLERY_PAGE_SIZE)}
+            >
+              Show more ({filteredLinks.length - visibleCount})
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default LinkGallery;
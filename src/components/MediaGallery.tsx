@@ -0,0 +1,160 @@
+import { useState, type CSSProperties } from 'react';
+import { Music, FileText, Download, ShieldCheck, ShieldAlert } from 'lucide-react';
+import type { MediaNode } from '../content';
+import { getAspectRatio, blurhashToDataUrl, verifyMediaHash } from '../media';
+
+/**
+ * File name from a URL, for media without alt text
+ */
+function getFileName(url: string): string {
+  try {
+    return decodeURIComponent(new URL(url).pathname.split('/').pop() || url);
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * An image with its blurhash placeholder while it loads, and a sha256 check once it has
+ */
+function MediaImage({ node, className = '', style }: { node: MediaNode; className?: string; style?: CSSProperties }) {
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [hashMatches, setHashMatches] = useState<boolean | null>(null);
+  const placeholder = node.metadata?.blurhash ? blurhashToDataUrl(node.metadata.blurhash) : null;
+
+  const handleLoad = () => {
+    setIsLoaded(true);
+    const sha256 = node.metadata?.sha256;
+    if (sha256) {
+      verifyMediaHash(node.url, sha256).then(setHashMatches);
+    }
+  };
+
+  return (
+    <div
+      className={`relative overflow-hidden bg-bg-tertiary bg-cover bg-center ${className}`}
+      style={{ ...style, backgroundImage: placeholder && !isLoaded ? `url(${placeholder})` : undefined }}
+    >
+      <img
+        src={node.url}
+        alt={node.metadata?.alt || ''}
+        title={node.metadata?.alt}
+        loading="lazy"
+        onLoad={handleLoad}
+        className={`w-full h-full object-cover block transition-opacity duration-300 ${isLoaded ? 'opacity-100' : 'opacity-0'}`}
+      />
+      {hashMatches === true && (
+        <span className="absolute bottom-2 right-2 flex p-1 bg-black/50 rounded-full text-white" title="Matches the file hash in the note">
+          <ShieldCheck size={14} />
+        </span>
+      )}
+      {hashMatches === false && (
+        <span className="absolute bottom-2 left-2 right-2 flex items-center gap-1.5 px-2 py-1 bg-red-500/90 rounded-lg text-white text-xs">
+          <ShieldAlert size={14} className="shrink-0" />
+          This file doesn't match the hash in the note
+        </span>
+      )}
+    </div>
+  );
+}
+
+/**
+ * A note's media - images in a grid, then video, audio and other files
+ * Uses the note's imeta metadata (NIP-92) for sizes, placeholders and alt text
+ */
+function MediaGallery({ media }: { media: MediaNode[] }) {
+  const images = media.filter(node => node.mediaType === 'image');
+  const videos = media.filter(node => node.mediaType === 'video');
+  const audio = media.filter(node => node.mediaType === 'audio');
+  const files = media.filter(node => node.mediaType === 'file');
+
+  return (
+    <>
+      {/* Images */}
+      {images.length === 1 && (
+        <MediaImage
+          node={images[0]}
+          className="mb-6 rounded-2xl"
+          style={{ aspectRatio: getAspectRatio(images[0].metadata) }}
+        />
+      )}
+      {images.length > 1 && (
+        <div className="grid grid-cols-2 gap-2 mb-6 rounded-2xl overflow-hidden">
+          {images.slice(0, 4).map((node, index) => (
+            <MediaImage
+              key={index}
+              node={node}
+              className={images.length === 3 && index === 0 ? 'col-span-2 aspect-[2/1]' : 'aspect-square'}
+            />
+          ))}
+        </div>
+      )}
+
+      {/* Videos */}
+      {videos.length > 0 && (
+        <div className="flex flex-col gap-4 mb-6">
+          {videos.map((node, index) => {
+            const aspectRatio = getAspectRatio(node.metadata);
+            const poster = node.metadata?.blurhash ? blurhashToDataUrl(node.metadata.blurhash) : null;
+            return (
+              <div key={index} className={`rounded-2xl bg-bg-tertiary ${aspectRatio ? '' : 'aspect-video'}`} style={{ aspectRatio }}>
+                <video
+                  controls
+                  preload="metadata"
+                  poster={poster || undefined}
+                  aria-label={node.metadata?.alt}
+                  className="rounded-2xl w-full h-full"
+                >
+                  <source src={node.url} type={node.metadata?.mimeType} />
+                </video>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Audio */}
+      {audio.length > 0 && (
+        <div className="flex flex-col gap-3 mb-6">
+          {audio.map((node, index) => (
+            <div key={index} className="p-4 bg-bg-tertiary border border-border rounded-xl">
+              <div className="flex items-center gap-2 mb-3 text-text-secondary text-sm">
+                <Music size={16} className="text-nostr-purple shrink-0" />
+                <span className="truncate">{node.metadata?.alt || getFileName(node.url)}</span>
+              </div>
+              <audio controls preload="metadata" aria-label={node.metadata?.alt} className="w-full">
+                <source src={node.url} type={node.metadata?.mimeType} />
+              </audio>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Other files */}
+      {files.length > 0 && (
+        <div className="flex flex-col gap-3 mb-6">
+          {files.map((node, index) => (
+            <a
+              key={index}
+              href={node.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-3 p-3 bg-bg-tertiary border border-border rounded-xl no-underline transition-colors duration-200 hover:border-nostr-purple/40"
+            >
+              <div className="flex items-center justify-center w-10 h-10 bg-bg-card rounded-lg text-nostr-purple shrink-0">
+                <FileText size={18} />
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="text-text-primary text-sm font-medium truncate">{node.metadata?.alt || getFileName(node.url)}</div>
+                {node.metadata?.mimeType && <div className="text-text-muted text-xs truncate">{node.metadata.mimeType}</div>}
+              </div>
+              <Download size={16} className="text-text-muted shrink-0" />
+            </a>
+          ))}
+        </div>
+      )}
+    </>
+  );
+}
+
+export default MediaGallery;
@@ -0,0 +1,260 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { nip19 } from 'nostr-tools';
+import { Link2, Zap, Copy, Check, ExternalLink } from 'lucide-react';
+import {
+  fetchEvent,
+  fetchAuthorProfile,
+  formatRelativeTime,
+  getDisplayName,
+  parseContent,
+  isArticle,
+  parseArticle,
+  type Event,
+  type ProfileData
+} from '../nostr';
+import type { ContentNode, EventRefNode, InvoiceNode, MentionNode } from '../content';
+
+interface NoteContentProps {
+  nodes: ContentNode[];
+  profiles: Record<string, ProfileData>;  // Mentioned users' profiles by pubkey
+  className?: string;
+  linkTarget?: '_blank';    // Open mentions and quoted notes in a new tab, e.g. from an embed
+}
+
+/**
+ * Check if a node sits on a line of its own (only whitespace around it up to the line breaks)
+ */
+function isOnOwnLine(nodes: ContentNode[], index: number): boolean {
+  const before = nodes[index - 1];
+  const after = nodes[index + 1];
+  const startsLine = !before || (before.type === 'text' && /(^|\n)[ \t]*$/.test(before.text));
+  const endsLine = !after || (after.type === 'text' && /^[ \t]*(\n|$)/.test(after.text));
+  return startsLine && endsLine;
+}
+
+/**
+ * Drop media (shown in the gallery) and the whitespace it leaves at the start and end
+ */
+function getInlineNodes(nodes: ContentNode[]): ContentNode[] {
+  const inline = nodes.filter(node => node.type !== 'media');
+  const first = inline[0];
+  const last = inline[inline.length - 1];
+  return inline
+    .map(node => {
+      if (node.type !== 'text') return node;
+      let text = node.text;
+      if (node === first) text = text.trimStart();
+      if (node === last) text = text.trimEnd();
+      return { ...node, text };
+    })
+    .filter(node => node.type !== 'text' || node.text);
+}
+
+/**
+ * Card for a link on its own line
+ */
+function LinkCard({ url }: { url: string }) {
+  let host = url;
+  let path = '';
+  try {
+    const parsed = new URL(url);
+    host = parsed.hostname.replace(/^www\./, '');
+    path = `${parsed.pathname}${parsed.search}`.replace(/^\/$/, '');
+  } catch {
+    // Show the raw URL
+  }
+
+  return (
+    <a
+      href={url}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="flex items-center gap-3 my-2 p-3 bg-bg-tertiary border border-border rounded-xl no-underline whitespace-normal transition-colors duration-200 hover:border-nostr-purple/40"
+    >
+      <div className="flex items-center justify-center w-10 h-10 bg-bg-card rounded-lg text-nostr-purple shrink-0">
+        <Link2 size={18} />
+      </div>
+      <div className="flex-1 min-w-0">
+        <div className="text-text-primary text-sm font-medium truncate">{host}</div>
+        {path && <div className="text-text-muted text-xs truncate">{path}</div>}
+      </div>
+      <ExternalLink size={14} className="text-text-muted shrink-0" />
+    </a>
+  );
+}
+
+/**
+ * A lightning invoice with its amount and a way to pay it
+ */
+function InvoiceCard({ node }: { node: InvoiceNode }) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(node.invoice);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-3 my-2 p-3 bg-bg-tertiary border border-nostr-orange/30 rounded-xl whitespace-normal max-sm:flex-col max-sm:items-stretch">
+      <div className="flex items-center gap-2 flex-1 min-w-0">
+        <Zap size={18} className="text-nostr-orange shrink-0" />
+        <span className="text-text-primary text-sm font-medium">
+          {node.amountSats !== null ? `Lightning invoice for ${node.amountSats.toLocaleString()} sats` : 'Lightning invoice'}
+        </span>
+      </div>
+      <div className="flex gap-2">
+        <a
+          href={`lightning:${node.invoice}`}
+          className="flex-1 flex items-center justify-center gap-1.5 px-3 py-1.5 bg-gradient-to-br from-nostr-purple to-nostr-orange rounded-lg text-white text-xs font-semibold no-underline transition-opacity duration-200 hover:opacity-90"
+        >
+          Pay
+        </a>
+        <button
+          className="flex-1 flex items-center justify-center gap-1.5 px-3 py-1.5 bg-transparent border border-border rounded-lg text-text-secondary text-xs cursor-pointer transition-all duration-200 hover:border-nostr-purple hover:text-nostr-purple"
+          onClick={handleCopy}
+        >
+          {copied ? <Check size={12} /> : <Copy size={12} />}
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * A note referenced with nostr:note/nevent/naddr, fetched and shown as a quote
+ */
+function QuotedNote({ node, linkTarget }: { node: EventRefNode; linkTarget?: '_blank' }) {
+  const [event, setEvent] = useState<Event | null>(null);
+  const [profile, setProfile] = useState<ProfileData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let isCancelled = false;
+    fetchEvent(node.id, node.relays, node.author)
+      .then(async found => {
+        if (isCancelled) return;
+        setEvent(found);
+        setIsLoading(false);
+        if (found) {
+          const authorProfile = await fetchAuthorProfile(found.pubkey, node.relays);
+          if (!isCancelled) setProfile(authorProfile);
+        }
+      })
+      .catch(err => {
+        console.error('Error fetching quoted note:', err);
+        if (!isCancelled) setIsLoading(false);
+      });
+    return () => {
+      isCancelled = true;
+    };
+  }, [node.id, node.author, node.relays]);
+
+  if (isLoading) {
+    return (
+      <div className="my-2 p-4 bg-bg-tertiary border border-border rounded-xl text-text-muted text-sm whitespace-normal animate-pulse">
+        Loading quoted note...
+      </div>
+    );
+  }
+
+  if (!event) {
+    return (
+      <Link to={`/${node.bech32}`} target={linkTarget} className="text-nostr-purple no-underline hover:underline break-all">
+        {`${node.bech32.slice(0, 16)}...${node.bech32.slice(-8)}`}
+      </Link>
+    );
+  }
+
+  const displayName = getDisplayName(profile, event.pubkey);
+  const { text, images } = parseContent(event.content, event.tags);
+  const summary = isArticle(event) ? parseArticle(event).title || 'Untitled article' : text;
+
+  return (
+    <Link
+      to={`/${node.bech32}`}
+      target={linkTarget}
+      className="block my-2 p-4 bg-bg-tertiary border border-border rounded-xl no-underline whitespace-normal transition-colors duration-200 hover:border-nostr-purple/40"
+    >
+      <div className="flex items-center gap-2 mb-2 text-sm">
+        <div className="w-6 h-6 rounded-full overflow-hidden shrink-0 bg-bg-card">
+          {profile?.picture ? (
+            <img src={profile.picture} alt={displayName} loading="lazy" className="w-full h-full object-cover" />
+          ) : (
+            <svg viewBox="0 0 100 100" xmlns="http://www.w3.org/2000/svg" className="w-full h-full">
+              <rect width="100" height="100" fill={`hsl(${parseInt(event.pubkey.slice(0, 8), 16) % 360}, 70%, 50%)`} />
+            </svg>
+          )}
+        </div>
+        <span className="font-semibold text-text-primary truncate">{displayName}</span>
+        <span className="text-text-muted text-xs shrink-0">{formatRelativeTime(event.created_at)}</span>
+      </div>
+      <div className="flex gap-3">
+        <p className="flex-1 min-w-0 text-text-secondary text-sm whitespace-pre-wrap break-words line-clamp-4">{summary}</p>
+        {images[0] && (
+          <img src={images[0]} alt="" loading="lazy" className="w-16 h-16 rounded-lg object-cover shrink-0" />
+        )}
+      </div>
+    </Link>
+  );
+}
+
+/**
+ * A profile mention, shown as @name linking to the profile preview
+ */
+function Mention({ node, profile, linkTarget }: { node: MentionNode; profile?: ProfileData; linkTarget?: '_blank' }) {
+  const profileId = node.relays.length > 0
+    ? nip19.nprofileEncode({ pubkey: node.pubkey, relays: node.relays })
+    : nip19.npubEncode(node.pubkey);
+
+  return (
+    <Link to={`/${profileId}`} target={linkTarget} className="text-nostr-purple no-underline hover:underline">
+      @{getDisplayName(profile || null, node.pubkey)}
+    </Link>
+  );
+}
+
+/**
+ * Rich rendering of a note's content nodes
+ * Media is left out - the preview shows it in a gallery below the text
+ */
+function NoteContent({ nodes, profiles, className = '', linkTarget }: NoteContentProps) {
+  const inline = getInlineNodes(nodes);
+
+  return (
+    <div className={`whitespace-pre-wrap break-words ${className}`}>
+      {inline.map((node, index) => {
+        switch (node.type) {
+          case 'text':
+            return <span key={index}>{node.text}</span>;
+          case 'link':
+            return isOnOwnLine(inline, index) ? (
+              <LinkCard key={index} url={node.url} />
+            ) : (
+              <a key={index} href={node.url} target="_blank" rel="noopener noreferrer" className="text-nostr-purple no-underline hover:underline break-all">
+                {node.url.replace(/^https?:\/\//, '')}
+              </a>
+            );
+          case 'mention':
+            return <Mention key={index} node={node} profile={profiles[node.pubkey]} linkTarget={linkTarget} />;
+          case 'event-ref':
+            return <QuotedNote key={index} node={node} linkTarget={linkTarget} />;
+          case 'hashtag':
+            return <span key={index} className="text-nostr-purple">#{node.tag}</span>;
+          case 'invoice':
+            return <InvoiceCard key={index} node={node} />;
+          default:
+            return null;
+        }
+      })}
+    </div>
+  );
+}
+
+export default NoteContent;
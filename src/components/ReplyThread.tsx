@@ -0,0 +1,227 @@
+import { useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, MessageCircle, Trash2 } from 'lucide-react';
+import {
+  countThreadReplies,
+  formatRelativeTime,
+  getDisplayName,
+  parseContent,
+  type Event,
+  type ProfileData,
+  type ThreadNode
+} from '../nostr';
+import NoteContent from './NoteContent';
+import MediaGallery from './MediaGallery';
+
+// Deeper replies stop indenting so narrow screens stay readable
+const MAX_INDENT_DEPTH = 4;
+
+interface ReplyThreadProps {
+  nodes: ThreadNode[];
+  profiles: Record<string, ProfileData>;
+  userPubkey?: string | null;
+  onReply?: (parent: Event, content: string) => Promise<boolean>;  // Resolves true once posted
+  onDelete?: (reply: Event) => Promise<boolean>;  // Deletes one of the user's own replies
+}
+
+interface ReplyNodeProps extends Omit<ReplyThreadProps, 'nodes'> {
+  node: ThreadNode;
+  depth: number;
+}
+
+/**
+ * Small author avatar - profile picture or a colored initial
+ */
+function ReplyAvatar({ pubkey, profile, name }: { pubkey: string; profile?: ProfileData; name: string }) {
+  return (
+    <div className="w-8 h-8 rounded-full overflow-hidden shrink-0 bg-bg-card">
+      {profile?.picture ? (
+        <img src={profile.picture} alt={name} loading="lazy" className="w-full h-full object-cover" />
+      ) : (
+        <svg viewBox="0 0 100 100" xmlns="http://www.w3.org/2000/svg" className="w-full h-full">
+          <rect width="100" height="100" fill={`hsl(${parseInt(pubkey.slice(0, 8), 16) % 360}, 70%, 50%)`} />
+          <text x="50" y="65" textAnchor="middle" fontSize="45" fill="white">
+            {name.charAt(0).toUpperCase()}
+          </text>
+        </svg>
+      )}
+    </div>
+  );
+}
+
+/**
+ * A reply and its nested replies, collapsible
+ */
+function ReplyNode({ node, depth, profiles, userPubkey, onReply, onDelete }: ReplyNodeProps) {
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const [isReplying, setIsReplying] = useState(false);
+  const [replyText, setReplyText] = useState('');
+  const [isPosting, setIsPosting] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const { event, children } = node;
+  const profile = profiles[event.pubkey];
+  const displayName = getDisplayName(profile || null, event.pubkey);
+  const parsedContent = useMemo(() => parseContent(event.content, event.tags, event.kind), [event]);
+  const isOwn = !!userPubkey && event.pubkey === userPubkey;
+  const hiddenCount = countThreadReplies(node);
+
+  const handlePostReply = async () => {
+    if (!onReply || !replyText.trim() || isPosting) return;
+    
+    setIsPosting(true);
+    const posted = await onReply(event, replyText.trim());
+    setIsPosting(false);
+    
+    if (posted) {
+      setReplyText('');
+      setIsReplying(false);
+      setIsCollapsed(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!onDelete || isDeleting) return;
+    
+    setIsDeleting(true);
+    const deleted = await onDelete(event);
+    // On success this node is removed from the thread
+    if (!deleted) {
+      setIsDeleting(false);
+      setConfirmDelete(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className={`p-4 bg-bg-tertiary rounded-xl border ${isOwn ? 'border-nostr-purple/40' : 'border-border'}`}>
+        <div className="flex items-center gap-3 mb-2">
+          <ReplyAvatar pubkey={event.pubkey} profile={profile} name={displayName} />
+          <div className="flex-1 min-w-0 flex items-center gap-2">
+            <span className="font-semibold text-text-primary text-sm truncate">{displayName}</span>
+            {isOwn && (
+              <span className="px-1.5 py-0.5 bg-nostr-purple/10 rounded text-nostr-purple text-[10px] font-medium">You</span>
+            )}
+            <span className="text-text-muted text-xs shrink-0">{formatRelativeTime(event.created_at)}</span>
+          </div>
+        </div>
+        <NoteContent nodes={parsedContent.nodes} profiles={profiles} className="text-text-primary text-sm" />
+        {parsedContent.media.length > 0 && (
+          <div className="mt-3">
+            <MediaGallery media={parsedContent.media} />
+          </div>
+        )}
+        <div className="flex items-center gap-4 mt-2">
+          {onReply && (
+            <button
+              className="flex items-center gap-1 bg-transparent border-none p-0 text-text-muted text-xs cursor-pointer transition-colors duration-200 hover:text-nostr-purple"
+              onClick={() => setIsReplying(!isReplying)}
+            >
+              <MessageCircle size={14} />
+              Reply
+            </button>
+          )}
+          {children.length > 0 && (
+            <button
+              className="flex items-center gap-1 bg-transparent border-none p-0 text-text-muted text-xs cursor-pointer transition-colors duration-200 hover:text-nostr-purple"
+              onClick={() => setIsCollapsed(!isCollapsed)}
+            >
+              {isCollapsed ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+              {isCollapsed
+                ? `Show ${hiddenCount} ${hiddenCount === 1 ? 'reply' : 'replies'}`
+                : 'Hide replies'}
+            </button>
+          )}
+          {isOwn && onDelete && (
+            confirmDelete ? (
+              <span className="flex items-center gap-2 ml-auto text-xs">
+                <span className="text-text-muted">Delete this reply?</span>
+                <button
+                  className="bg-transparent border-none p-0 text-red-400 text-xs font-medium cursor-pointer hover:underline disabled:opacity-50 disabled:cursor-not-allowed"
+                  onClick={handleDelete}
+                  disabled={isDeleting}
+                >
+                  {isDeleting ? 'Deleting...' : 'Delete'}
+                </button>
+                <button
+                  className="bg-transparent border-none p-0 text-text-muted text-xs cursor-pointer hover:text-text-primary"
+                  onClick={() => setConfirmDelete(false)}
+                  disabled={isDeleting}
+                >
+                  Cancel
+                </button>
+              </span>
+            ) : (
+              <button
+                className="flex items-center gap-1 ml-auto bg-transparent border-none p-0 text-text-muted text-xs cursor-pointer transition-colors duration-200 hover:text-red-400"
+                onClick={() => setConfirmDelete(true)}
+              >
+                <Trash2 size={14} />
+                Delete
+              </button>
+            )
+          )}
+        </div>
+        {isReplying && (
+          <div className="flex gap-2 items-center mt-3 max-sm:flex-col">
+            <input
+              type="text"
+              placeholder={`Reply to ${displayName}...`}
+              value={replyText}
+              onChange={(e) => setReplyText(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handlePostReply()}
+              className="flex-1 bg-bg-card border border-border rounded-xl px-3 py-2 text-text-primary text-sm outline-none transition-colors duration-200 focus:border-nostr-purple placeholder:text-text-muted max-sm:w-full"
+              disabled={isPosting}
+              autoFocus
+            />
+            <button
+              className="px-4 py-2 bg-gradient-to-br from-nostr-purple to-nostr-orange border-none rounded-xl text-white text-sm font-semibold cursor-pointer transition-opacity duration-200 hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed max-sm:w-full"
+              disabled={!replyText.trim() || isPosting}
+              onClick={handlePostReply}
+            >
+              {isPosting ? 'Posting...' : 'Post'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {!isCollapsed && children.length > 0 && (
+        <div className={`mt-3 space-y-3 ${depth < MAX_INDENT_DEPTH ? 'ml-4 pl-3 border-l border-border max-sm:ml-2 max-sm:pl-2' : ''}`}>
+          {children.map(child => (
+            <ReplyNode
+              key={child.event.id}
+              node={child}
+              depth={depth + 1}
+              profiles={profiles}
+              userPubkey={userPubkey}
+              onReply={onReply}
+              onDelete={onDelete}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Threaded conversation view for the replies to an event
+ */
+function ReplyThread({ nodes, profiles, userPubkey, onReply, onDelete }: ReplyThreadProps) {
+  return (
+    <div className="space-y-3">
+      {nodes.map(node => (
+        <ReplyNode
+          key={node.event.id}
+          node={node}
+          depth={0}
+          profiles={profiles}
+          userPubkey={userPubkey}
+          onReply={onReply}
+          onDelete={onDelete}
+        />
+      ))}
+    </div>
+  );
+}
+
+export default ReplyThread;
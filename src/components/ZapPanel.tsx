@@ -0,0 +1,213 @@
+import { useState, useEffect } from 'react';
+import QRCode from 'qrcode';
+import { Zap, Copy, Check, X, ExternalLink } from 'lucide-react';
+import type { Event, ProfileData } from '../nostr';
+import type { NostrSigner } from '../signer';
+import {
+  fetchLnurlPayInfo,
+  requestZapInvoice,
+  watchZapReceipt,
+  ZAP_AMOUNTS,
+  type LnurlPayInfo,
+  type ZapInvoice
+} from '../zaps';
+
+interface ZapPanelProps {
+  event: Event;
+  profile: ProfileData | null;
+  displayName: string;
+  getSigner: () => NostrSigner | null;  // Null when the user has to unlock or reconnect first
+  onClose: () => void;
+}
+
+/**
+ * Zap flow for a note: pick an amount, pay the invoice, wait for the receipt
+ */
+function ZapPanel({ event, profile, displayName, getSigner, onClose }: ZapPanelProps) {
+  const [payInfo, setPayInfo] = useState<LnurlPayInfo | null>(null);
+  const [amount, setAmount] = useState<number>(ZAP_AMOUNTS[1]);
+  const [customAmount, setCustomAmount] = useState('');
+  const [comment, setComment] = useState('');
+  const [zap, setZap] = useState<ZapInvoice | null>(null);
+  const [qrImage, setQrImage] = useState('');
+  const [isPaid, setIsPaid] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState('');
+
+  // Look up the author's lightning endpoint when the panel opens
+  useEffect(() => {
+    let isCancelled = false;
+    fetchLnurlPayInfo(profile)
+      .then(info => !isCancelled && setPayInfo(info))
+      .catch(err => {
+        console.error('Error fetching lightning address:', err);
+        if (!isCancelled) setError(err instanceof Error ? err.message : 'Could not reach the lightning address');
+      })
+      .finally(() => !isCancelled && setIsLoading(false));
+    return () => {
+      isCancelled = true;
+    };
+  }, [profile]);
+
+  // Show the invoice as a QR code and wait for the zap receipt
+  useEffect(() => {
+    if (!zap || !payInfo) return;
+
+    QRCode.toDataURL(`lightning:${zap.invoice}`, { width: 240, margin: 1 })
+      .then(setQrImage)
+      .catch(err => console.error('Error generating invoice QR code:', err));
+
+    return watchZapReceipt(zap, payInfo.nostrPubkey, () => setIsPaid(true));
+  }, [zap, payInfo]);
+
+  const selectedAmount = customAmount ? parseInt(customAmount, 10) : amount;
+
+  const handleCreateInvoice = async () => {
+    if (!payInfo || !selectedAmount || selectedAmount <= 0) return;
+
+    const signer = getSigner();
+    if (!signer) return;
+
+    setIsLoading(true);
+    setError('');
+    try {
+      setZap(await requestZapInvoice(signer, payInfo, event, selectedAmount, comment.trim()));
+    } catch (err) {
+      console.error('Error requesting zap invoice:', err);
+      setError(err instanceof Error ? err.message : 'Could not get an invoice');
+    }
+    setIsLoading(false);
+  };
+
+  const handleCopyInvoice = async () => {
+    if (!zap) return;
+    try {
+      await navigator.clipboard.writeText(zap.invoice);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  const renderContent = () => {
+    if (isPaid && zap) {
+      return (
+        <div className="text-center py-4">
+          <div className="text-nostr-orange mb-2 flex justify-center">
+            <Zap size={32} className="fill-nostr-orange" />
+          </div>
+          <p className="text-text-primary font-semibold">Zapped {zap.amountSats.toLocaleString()} sats!</p>
+          <p className="text-text-muted text-xs mt-1">The receipt has been published to Nostr.</p>
+        </div>
+      );
+    }
+
+    if (zap) {
+      return (
+        <div className="text-center">
+          {qrImage && (
+            <a href={`lightning:${zap.invoice}`} className="inline-block bg-white p-2 rounded-xl mb-3">
+              <img src={qrImage} alt="Lightning invoice QR code" className="w-[200px] h-[200px] block" />
+            </a>
+          )}
+          <p className="text-text-secondary text-sm mb-3">
+            Scan with a lightning wallet to zap {zap.amountSats.toLocaleString()} sats
+          </p>
+          <div className="flex gap-2 justify-center max-sm:flex-col">
+            <a
+              href={`lightning:${zap.invoice}`}
+              className="flex items-center justify-center gap-2 px-4 py-2 bg-gradient-to-br from-nostr-purple to-nostr-orange rounded-xl text-white text-sm font-semibold no-underline transition-opacity duration-200 hover:opacity-90"
+            >
+              <ExternalLink size={14} />
+              Open in Wallet
+            </a>
+            <button
+              className="flex items-center justify-center gap-2 px-4 py-2 bg-transparent border border-border rounded-xl text-text-secondary text-sm cursor-pointer transition-all duration-200 hover:border-nostr-purple hover:text-nostr-purple"
+              onClick={handleCopyInvoice}
+            >
+              {copied ? <Check size={14} /> : <Copy size={14} />}
+              {copied ? 'Copied' : 'Copy Invoice'}
+            </button>
+          </div>
+          <p className="text-text-muted text-xs mt-3">Waiting for payment...</p>
+        </div>
+      );
+    }
+
+    if (isLoading && !payInfo) {
+      return <p className="text-text-muted text-sm">Looking up {displayName}'s lightning address...</p>;
+    }
+
+    if (!payInfo) return null;
+
+    return (
+      <>
+        <div className="flex flex-wrap gap-2 mb-3">
+          {ZAP_AMOUNTS.map(value => (
+            <button
+              key={value}
+              className={`px-3 py-1.5 border rounded-lg text-sm cursor-pointer transition-all duration-200 ${
+                !customAmount && amount === value
+                  ? 'border-nostr-orange text-nostr-orange bg-nostr-orange/10'
+                  : 'border-border text-text-secondary bg-transparent hover:border-nostr-orange'
+              }`}
+              onClick={() => {
+                setAmount(value);
+                setCustomAmount('');
+              }}
+            >
+              {value.toLocaleString()}
+            </button>
+          ))}
+          <input
+            type="number"
+            min={1}
+            placeholder="Custom"
+            value={customAmount}
+            onChange={(e) => setCustomAmount(e.target.value.replace(/\D/g, ''))}
+            className="w-24 bg-bg-card border border-border rounded-lg px-3 py-1.5 text-text-primary text-sm outline-none transition-colors duration-200 focus:border-nostr-orange placeholder:text-text-muted"
+          />
+        </div>
+        <input
+          type="text"
+          placeholder="Add a message (optional)"
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          className="w-full bg-bg-card border border-border rounded-xl px-3 py-2 mb-3 text-text-primary text-sm outline-none transition-colors duration-200 focus:border-nostr-orange placeholder:text-text-muted"
+        />
+        <button
+          className="w-full flex items-center justify-center gap-2 px-4 py-2.5 bg-gradient-to-br from-nostr-purple to-nostr-orange border-none rounded-xl text-white text-sm font-semibold cursor-pointer transition-opacity duration-200 hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed"
+          disabled={isLoading || !selectedAmount || selectedAmount <= 0}
+          onClick={handleCreateInvoice}
+        >
+          <Zap size={16} />
+          {isLoading ? 'Creating invoice...' : `Zap ${selectedAmount ? selectedAmount.toLocaleString() : ''} sats`}
+        </button>
+      </>
+    );
+  };
+
+  return (
+    <div className="my-4 p-4 bg-bg-tertiary rounded-2xl border border-nostr-orange/30">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2 text-text-secondary text-sm">
+          <Zap size={16} className="text-nostr-orange" />
+          <span>Zap {displayName}</span>
+        </div>
+        <button
+          className="flex items-center justify-center w-7 h-7 bg-transparent border-none rounded-lg text-text-muted cursor-pointer transition-colors duration-200 hover:text-text-primary"
+          onClick={onClose}
+          title="Close"
+        >
+          <X size={16} />
+        </button>
+      </div>
+      {renderContent()}
+      {error && <p className="text-red-400 text-xs mt-2">{error}</p>}
+    </div>
+  );
+}
+
+export default ZapPanel;
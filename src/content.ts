@@ -0,0 +1,226 @@
+/**
+ * Note content tokenizer - splits a note's text into typed nodes (links, media,
+ * nostr: mentions and event references, hashtags and lightning invoices) so the
+ * preview can render each one instead of showing raw URLs and bech32 strings
+ */
+
+import { nip19 } from 'nostr-tools';
+import { getSatoshisAmountFromBolt11 } from 'nostr-tools/nip57';
+import { parseImetaTags, getMediaKind, type MediaKind, type MediaMetadata } from './media';
+
+/**
+ * Plain text, line breaks included
+ */
+export interface TextNode {
+  type: 'text';
+  text: string;
+}
+
+/**
+ * A web link that isn't media
+ */
+export interface LinkNode {
+  type: 'link';
+  url: string;
+}
+
+/**
+ * An image, video, audio or other file URL
+ */
+export interface MediaNode {
+  type: 'media';
+  url: string;
+  mediaType: MediaKind;
+  metadata?: MediaMetadata;  // From the note's imeta tag (NIP-92), if it has one
+}
+
+/**
+ * A profile mention (nostr:npub1... / nostr:nprofile1..., NIP-27)
+ */
+export interface MentionNode {
+  type: 'mention';
+  pubkey: string;
+  relays: string[];
+  raw: string;              // Text as written, shown if the mention can't be rendered
+}
+
+/**
+ * A reference to a note or addressable event (nostr:note1... / nevent1... / naddr1...)
+ */
+export interface EventRefNode {
+  type: 'event-ref';
+  id: string;               // Event ID, or the kind:pubkey:d-tag coordinate for naddr
+  relays: string[];
+  author?: string;
+  kind?: number;
+  bech32: string;           // note1/nevent1/naddr1 identifier, usable as a preview route
+  raw: string;
+}
+
+/**
+ * A #hashtag
+ */
+export interface HashtagNode {
+  type: 'hashtag';
+  tag: string;              // Without the '#'
+}
+
+/**
+ * A bolt11 lightning invoice
+ */
+export interface InvoiceNode {
+  type: 'invoice';
+  invoice: string;
+  amountSats: number | null;  // Null for amountless invoices
+}
+
+export type ContentNode = TextNode | LinkNode | MediaNode | MentionNode | EventRefNode | HashtagNode | InvoiceNode;
+
+// Everything the tokenizer recognizes, in one pass. Groups: nostr URI, legacy #[n] mention, URL, invoice, hashtag
+const TOKEN_PATTERN = new RegExp([
+  /nostr:((?:npub|nprofile|note|nevent|naddr)1[02-9ac-hj-np-z]+)/.source,
+  /#\[(\d+)\]/.source,
+  /(https?:\/\/[^\s<>"'`]+)/.source,
+  /(?<![\p{L}\p{N}])((?:lightning:)?ln(?:bcrt|bc|tbs|tb|sb)[0-9]*[munp]?1[02-9ac-hj-np-z]{50,})/u.source,
+  /(?<![\p{L}\p{N}_&/#])#([\p{L}\p{N}_]*[\p{L}_][\p{L}\p{N}_]*)/u.source
+].join('|'), 'giu');
+
+// Punctuation that usually ends a sentence rather than a URL
+const TRAILING_PUNCTUATION = /[.,;:!?'"*)\]]+$/;
+
+/**
+ * Decode a bech32 entity from a nostr: URI or legacy mention into a node
+ * @returns The node, or null if the entity is invalid
+ */
+function decodeEntity(bech32: string, raw: string): MentionNode | EventRefNode | null {
+  try {
+    const decoded = nip19.decode(bech32);
+    switch (decoded.type) {
+      case 'npub':
+        return { type: 'mention', pubkey: decoded.data, relays: [], raw };
+      case 'nprofile':
+        return { type: 'mention', pubkey: decoded.data.pubkey, relays: decoded.data.relays || [], raw };
+      case 'note':
+        return { type: 'event-ref', id: decoded.data, relays: [], bech32, raw };
+      case 'nevent':
+        return {
+          type: 'event-ref',
+          id: decoded.data.id,
+          relays: decoded.data.relays || [],
+          author: decoded.data.author,
+          kind: decoded.data.kind,
+          bech32,
+          raw
+        };
+      case 'naddr': {
+        const { kind, pubkey, identifier, relays } = decoded.data;
+        return { type: 'event-ref', id: `${kind}:${pubkey}:${identifier}`, relays: relays || [], author: pubkey, kind, bech32, raw };
+      }
+      default:
+        return null;
+    }
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve a legacy #[n] mention (NIP-08) through the event's tags
+ */
+function decodeTagMention(tags: string[][], index: number, raw: string): MentionNode | EventRefNode | null {
+  const tag = tags[index];
+  if (!tag || !/^[0-9a-f]{64}$/.test(tag[1] || '')) return null;
+
+  if (tag[0] === 'p') {
+    return { type: 'mention', pubkey: tag[1], relays: tag[2] ? [tag[2]] : [], raw };
+  }
+  if (tag[0] === 'e') {
+    return { type: 'event-ref', id: tag[1], relays: tag[2] ? [tag[2]] : [], bech32: nip19.noteEncode(tag[1]), raw };
+  }
+  return null;
+}
+
+/**
+ * Classify a URL as media or a plain link, using its imeta metadata when the note has some
+ */
+function urlNode(url: string, imeta: Map<string, MediaMetadata>): LinkNode | MediaNode {
+  const metadata = imeta.get(url);
+  const mediaType = getMediaKind(url, metadata);
+  if (!mediaType) return { type: 'link', url };
+  return metadata ? { type: 'media', url, mediaType, metadata } : { type: 'media', url, mediaType };
+}
+
+/**
+ * Split a URL match from punctuation that follows it
+ * Closing parentheses are kept when the URL opened one, e.g. Wikipedia links
+ */
+function trimUrl(match: string): string {
+  let url = match.replace(TRAILING_PUNCTUATION, '');
+  while (url.length < match.length && match[url.length] === ')' &&
+    (url.match(/\(/g) || []).length > (url.match(/\)/g) || []).length) {
+    url += ')';
+  }
+  return url;
+}
+
+/**
+ * Split note content into typed nodes
+ * Adjacent text is merged; anything that fails to decode stays as text
+ * @param content - Event content
+ * @param tags - The event's tags, for legacy #[n] mentions and imeta media metadata
+ * @returns Nodes in order of appearance
+ */
+export function tokenizeContent(content: string, tags: string[][] = []): ContentNode[] {
+  const nodes: ContentNode[] = [];
+  const imeta = parseImetaTags(tags);
+
+  const pushText = (text: string) => {
+    if (!text) return;
+    const last = nodes[nodes.length - 1];
+    if (last?.type === 'text') {
+      last.text += text;
+    } else {
+      nodes.push({ type: 'text', text });
+    }
+  };
+
+  let cursor = 0;
+  for (const match of content.matchAll(TOKEN_PATTERN)) {
+    const start = match.index ?? 0;
+    let raw = match[0];
+    let node: ContentNode | null = null;
+
+    if (match[1]) {
+      node = decodeEntity(match[1], raw);
+    } else if (match[2]) {
+      node = decodeTagMention(tags, parseInt(match[2], 10), raw);
+    } else if (match[3]) {
+      raw = trimUrl(match[3]);
+      node = urlNode(raw, imeta);
+    } else if (match[4]) {
+      const invoice = match[4].replace(/^lightning:/i, '');
+      const amountSats = getSatoshisAmountFromBolt11(invoice.toLowerCase());
+      node = { type: 'invoice', invoice, amountSats: amountSats > 0 ? Math.floor(amountSats) : null };
+    } else if (match[5]) {
+      node = { type: 'hashtag', tag: match[5] };
+    }
+
+    pushText(content.slice(cursor, start));
+    if (node) {
+      nodes.push(node);
+    } else {
+      pushText(raw);
+    }
+    cursor = start + raw.length;
+  }
+  pushText(content.slice(cursor));
+
+  return nodes;
+}
+
+/**
+ * Get the public keys mentioned in content nodes
+ */
+export function getMentionedPubkeys(nodes: ContentNode[]): string[] {
+  return [...new Set(nodes.filter((node): node is MentionNode => node.type === 'mention').map(node => node.pubkey))];
+}
@@ -1,16 +1,33 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import type { Event } from 'nostr-tools';
 import {
   decodeEventId,
   fetchEvent,
   fetchAuthorProfile,
-  fetchReactions,
+  fetchProfiles,
+  fetchActivityEvents,
   fetchReplies as fetchRepliesFromNostr,
-  fetchUserLikedEvent,
+  fetchUserReactions,
+  fetchUserEmojis,
   fetchUserReplies,
+  fetchUserReposts,
   parseContent,
   publishReply,
-  publishLike,
+  publishReaction,
+  publishRepost,
+  publishQuote,
+  publishDeletion,
+  fetchBookmarkList,
+  getBookmarks,
+  addBookmark,
+  removeBookmark,
+  parseReaction,
+  subscribeToEventActivity,
+  applyActivityEvent,
+  removeActivityEvent,
+  getEmptyReactionCounts,
+  getArticleAddress,
+  type CustomEmoji,
   type ProfileData,
   type ReactionCounts
 } from '../nostr';
@@ -19,12 +36,19 @@ import {
   recordLike,
   removeLike,
   recordReply,
+  removeReply,
+  recordSave,
+  removeSave,
   hasLikedEvent,
   hasSavedEvent,
   getDefaultActivity,
   getIdentityState,
+  getSignerPreference,
   type UserActivity
 } from '../storage.identity';
+import { getActiveSigner, type NostrSigner } from '../signer';
+import { getZapProviderPubkey, parseZapReceipt } from '../zaps';
+import { getMentionedPubkeys, type ContentNode, type MediaNode } from '../content';
 
 interface PostPreviewData {
   event: Event | null;
@@ -34,22 +58,61 @@ interface PostPreviewData {
     text: string;
     images: string[];
     videos: string[];
+    media: MediaNode[];
+    nodes: ContentNode[];
   };
   isLoading: boolean;
   error: string | null;
   isVerified: boolean;
   replies: Event[];
+  participantProfiles: Record<string, ProfileData>;  // Reply authors', zappers' and mentioned users' profiles by pubkey
+  hasMoreReplies: boolean;
+  isLoadingMoreReplies: boolean;
   userActivity: UserActivity;
   isLikedByUser: boolean;
+  isSavedByUser: boolean;
+  isSavedPrivately: boolean;  // Saved as an encrypted (private) bookmark
+  isRepostedByUser: boolean;
+  userReactions: string[];  // Emoji the user has reacted with (besides liking)
+  customEmojis: CustomEmoji[];  // The user's NIP-30 custom emoji list
   userReplies: Event[];  // User's own replies from the network
+  isLocked: boolean;     // Password-protected identity not unlocked this session
 }
 
 interface UsePostPreviewReturn extends PostPreviewData {
   refetch: () => void;
   refreshReplies: () => Promise<void>;
+  loadMoreReplies: () => Promise<void>;
   refreshUserActivity: () => void;
-  postReply: (privateKey: string, content: string) => Promise<Event | null>;
-  toggleLike: (privateKey: string) => Promise<Event | null>;
+  postReply: (signer: NostrSigner, content: string, parent?: Event) => Promise<Event | null>;
+  toggleLike: (signer: NostrSigner) => Promise<Event | null>;
+  deleteReply: (signer: NostrSigner, reply: Event) => Promise<boolean>;
+  react: (signer: NostrSigner, content: string, emoji?: CustomEmoji) => Promise<Event | null>;
+  toggleSave: (signer: NostrSigner, isPrivate?: boolean) => Promise<boolean>;
+  toggleRepost: (signer: NostrSigner) => Promise<Event | null>;
+  quote: (signer: NostrSigner, content: string) => Promise<Event | null>;
+}
+
+// Number of top zappers shown (and whose profiles are fetched) on a preview
+export const TOP_ZAPPERS_SHOWN = 5;
+
+/**
+ * Merge reply lists, dropping duplicates, newest first
+ */
+function mergeReplies(...lists: Event[][]): Event[] {
+  const byId = new Map<string, Event>();
+  lists.flat().forEach(reply => byId.set(reply.id, reply));
+  return [...byId.values()].sort((a, b) => b.created_at - a.created_at);
+}
+
+/**
+ * Get the reply authors and the users their replies mention, whose profiles the thread shows
+ */
+function getReplyPubkeys(replies: Event[]): string[] {
+  return replies.flatMap(reply => [
+    reply.pubkey,
+    ...getMentionedPubkeys(parseContent(reply.content, reply.tags, reply.kind).nodes)
+  ]);
 }
 
 /**
@@ -62,17 +125,43 @@ export function usePostPreview(eventId: string | undefined): UsePostPreviewRetur
   const [data, setData] = useState<PostPreviewData>({
     event: null,
     profile: null,
-    reactions: { likes: 0, reposts: 0, zaps: 0, replies: 0 },
-    parsedContent: { text: '', images: [], videos: [] },
+    reactions: getEmptyReactionCounts(),
+    parsedContent: { text: '', images: [], videos: [], media: [], nodes: [] },
     isLoading: true,
     error: null,
     isVerified: false,
     replies: [],
+    participantProfiles: {},
+    hasMoreReplies: false,
+    isLoadingMoreReplies: false,
     userActivity: getDefaultActivity(),
     isLikedByUser: false,
-    userReplies: []
+    isSavedByUser: false,
+    isSavedPrivately: false,
+    isRepostedByUser: false,
+    userReactions: [],
+    customEmojis: [],
+    userReplies: [],
+    isLocked: getIdentityState().isLocked
   });
 
+  // Activity events already seen, so live updates don't count them twice
+  const seenEventIds = useRef<Set<string>>(new Set());
+  // Activity events in the counts, so a deletion can take them back out
+  const countedEvents = useRef<Map<string, Event>>(new Map());
+  // When the initial activity fetch started; live updates pick up from there
+  const activitySince = useRef<number>(0);
+  // Likes published this session, so un-liking can delete them before relays return them
+  const ownLikes = useRef<Event[]>([]);
+  // Reposts published this session, for the same reason
+  const ownReposts = useRef<Event[]>([]);
+  // Timestamp the next page of replies starts from (null when there are no more)
+  const repliesUntil = useRef<number | null>(null);
+  // Authors whose profiles have been requested
+  const requestedProfiles = useRef<Set<string>>(new Set());
+  // Key the author's LNURL provider signs zap receipts with (null if unknown)
+  const zapProviderPubkey = useRef<string | null>(null);
+
   const refreshUserActivity = useCallback(() => {
     const activity = getUserActivity();
     const eventHexId = data.event?.id;
@@ -80,40 +169,89 @@ export function usePostPreview(eventId: string | undefined): UsePostPreviewRetur
       ...prev,
       userActivity: activity,
       isLikedByUser: eventHexId ? hasLikedEvent(eventHexId) : false,
-      isSavedByUser: eventHexId ? hasSavedEvent(eventHexId) : false
+      isSavedByUser: eventHexId ? hasSavedEvent(eventHexId) : false,
+      isLocked: getIdentityState().isLocked
     }));
   }, [data.event?.id]);
 
+  // Fetch profiles for reply authors and zappers we haven't looked up yet
+  const loadProfiles = useCallback(async (pubkeys: string[]) => {
+    const missing = [...new Set(pubkeys)]
+      .filter(pubkey => !requestedProfiles.current.has(pubkey));
+    if (missing.length === 0) return;
+    
+    missing.forEach(pubkey => requestedProfiles.current.add(pubkey));
+    const profiles = await fetchProfiles(missing);
+    setData(prev => ({ ...prev, participantProfiles: { ...prev.participantProfiles, ...profiles } }));
+  }, []);
+
   const refreshReplies = useCallback(async () => {
     if (!data.event) return;
     
     try {
-      const replies = await fetchRepliesFromNostr(data.event.id);
-      setData(prev => ({ ...prev, replies }));
+      const { replies: latest } = await fetchRepliesFromNostr(
+        data.event.id, undefined, data.event.pubkey, undefined, getArticleAddress(data.event)
+      );
+      setData(prev => ({ ...prev, replies: mergeReplies(latest, prev.replies) }));
+      await loadProfiles(getReplyPubkeys(latest));
     } catch (error) {
       console.error('Error refreshing replies:', error);
     }
-  }, [data.event]);
+  }, [data.event, loadProfiles]);
 
-  const postReply = useCallback(async (privateKey: string, content: string): Promise<Event | null> => {
-    if (!data.event) return null;
+  const loadMoreReplies = useCallback(async () => {
+    const until = repliesUntil.current;
+    if (!data.event || data.isLoadingMoreReplies || until === null) return;
     
+    setData(prev => ({ ...prev, isLoadingMoreReplies: true }));
     try {
-      const replyEvent = await publishReply(
-        privateKey,
-        content,
-        data.event.id,
-        data.event.pubkey
+      // Page back from where the last page stopped (same-second replies are deduplicated)
+      const { replies: older, until: nextUntil } = await fetchRepliesFromNostr(
+        data.event.id, undefined, data.event.pubkey, until, getArticleAddress(data.event)
       );
+      // A page that doesn't move back in time would be fetched forever
+      repliesUntil.current = nextUntil !== null && nextUntil < until ? nextUntil : null;
+      
+      setData(prev => ({
+        ...prev,
+        replies: mergeReplies(prev.replies, older),
+        hasMoreReplies: repliesUntil.current !== null,
+        isLoadingMoreReplies: false
+      }));
+      await loadProfiles(getReplyPubkeys(older));
+    } catch (error) {
+      console.error('Error loading more replies:', error);
+      setData(prev => ({ ...prev, isLoadingMoreReplies: false }));
+    }
+  }, [data.event, data.isLoadingMoreReplies, loadProfiles]);
+
+  // Replies to the previewed event, or to a reply in its thread when a parent is given
+  const postReply = useCallback(async (signer: NostrSigner, content: string, parent?: Event): Promise<Event | null> => {
+    if (!data.event) return null;
+    
+    // A locked identity must be unlocked before it can sign
+    if (getIdentityState().isLocked) {
+      setData(prev => ({ ...prev, isLocked: true }));
+      return null;
+    }
+    
+    try {
+      const replyEvent = await publishReply(signer, content, parent || data.event);
       
       if (replyEvent) {
         // Record the reply in user activity
         recordReply(data.event.id);
         
+        // The live subscription may have already counted our reply
+        const alreadyCounted = seenEventIds.current.has(replyEvent.id);
+        seenEventIds.current.add(replyEvent.id);
+        if (!alreadyCounted) countedEvents.current.set(replyEvent.id, replyEvent);
+        
         // Add the new reply to both the general replies and user's replies
         setData(prev => ({
           ...prev,
-          replies: [replyEvent, ...prev.replies],
+          reactions: alreadyCounted ? prev.reactions : applyActivityEvent(prev.reactions, replyEvent),
+          replies: mergeReplies([replyEvent], prev.replies),
           userReplies: [replyEvent, ...prev.userReplies],
           userActivity: getUserActivity()
         }));
@@ -126,37 +264,61 @@ export function usePostPreview(eventId: string | undefined): UsePostPreviewRetur
     }
   }, [data.event]);
 
-  const toggleLike = useCallback(async (privateKey: string): Promise<Event | null> => {
+  const toggleLike = useCallback(async (signer: NostrSigner): Promise<Event | null> => {
     if (!data.event) return null;
     
+    // A locked identity must be unlocked before it can sign
+    if (getIdentityState().isLocked) {
+      setData(prev => ({ ...prev, isLocked: true }));
+      return null;
+    }
+    
     try {
       const wasLiked = hasLikedEvent(data.event.id);
       
       if (wasLiked) {
-        // Remove like locally (we don't delete from network, just local state)
+        // Retract the like on the network with a deletion for every like reaction we made
+        const userPubkey = await signer.getPublicKey();
+        const networkLikes = (await fetchUserReactions(data.event.id, userPubkey))
+          .filter(reaction => parseReaction(reaction).type === 'like');
+        const likes = [...ownLikes.current, ...networkLikes]
+          .filter((like, index, all) => all.findIndex(other => other.id === like.id) === index);
+        
+        let deletion: Event | null = null;
+        if (likes.length > 0) {
+          deletion = await publishDeletion(signer, likes);
+          // Keep the like if the deletion couldn't be published
+          if (!deletion) return null;
+        }
+        
+        ownLikes.current = [];
         removeLike(data.event.id);
+        const counted = likes.filter(like => countedEvents.current.has(like.id));
+        counted.forEach(like => countedEvents.current.delete(like.id));
         setData(prev => ({
           ...prev,
           isLikedByUser: false,
-          reactions: {
-            ...prev.reactions,
-            likes: Math.max(0, prev.reactions.likes - 1)
-          },
+          reactions: counted.reduce((total, like) => removeActivityEvent(total, like), prev.reactions),
           userActivity: getUserActivity()
         }));
-        return null;
+        return deletion;
       } else {
         // Publish like to network
-        const likeEvent = await publishLike(privateKey, data.event.id, data.event.pubkey);
+        const likeEvent = await publishReaction(signer, data.event, '+');
         
         if (likeEvent) {
           recordLike(data.event.id);
+          ownLikes.current.push(likeEvent);
+          // The live subscription may have already counted our like
+          const alreadyCounted = seenEventIds.current.has(likeEvent.id);
+          seenEventIds.current.add(likeEvent.id);
+          if (!alreadyCounted) countedEvents.current.set(likeEvent.id, likeEvent);
           setData(prev => ({
             ...prev,
             isLikedByUser: true,
             reactions: {
               ...prev.reactions,
-              likes: prev.reactions.likes + 1
+              likes: alreadyCounted ? prev.reactions.likes : prev.reactions.likes + 1
             },
             userActivity: getUserActivity()
           }));
@@ -170,6 +332,185 @@ export function usePostPreview(eventId: string | undefined): UsePostPreviewRetur
     }
   }, [data.event]);
 
+  const deleteReply = useCallback(async (signer: NostrSigner, reply: Event): Promise<boolean> => {
+    if (!data.event) return false;
+    
+    // A locked identity must be unlocked before it can sign
+    if (getIdentityState().isLocked) {
+      setData(prev => ({ ...prev, isLocked: true }));
+      return false;
+    }
+    
+    try {
+      const deletion = await publishDeletion(signer, [reply]);
+      if (!deletion) return false;
+      
+      const remaining = data.userReplies.filter(own => own.id !== reply.id);
+      if (remaining.length === 0) {
+        removeReply(data.event.id);
+      }
+      
+      // Only uncount replies that were counted (fetched, streamed or posted here)
+      const wasCounted = countedEvents.current.delete(reply.id);
+      setData(prev => ({
+        ...prev,
+        replies: prev.replies.filter(existing => existing.id !== reply.id),
+        userReplies: prev.userReplies.filter(existing => existing.id !== reply.id),
+        reactions: wasCounted ? removeActivityEvent(prev.reactions, reply) : prev.reactions,
+        userActivity: getUserActivity()
+      }));
+      return true;
+    } catch (error) {
+      console.error('Error deleting reply:', error);
+      return false;
+    }
+  }, [data.event, data.userReplies]);
+
+  const react = useCallback(async (signer: NostrSigner, content: string, emoji?: CustomEmoji): Promise<Event | null> => {
+    if (!data.event) return null;
+    
+    // A locked identity must be unlocked before it can sign
+    if (getIdentityState().isLocked) {
+      setData(prev => ({ ...prev, isLocked: true }));
+      return null;
+    }
+    
+    try {
+      const reactionEvent = await publishReaction(signer, data.event, content, emoji);
+      
+      if (reactionEvent) {
+        // The live subscription may have already counted our reaction
+        const alreadyCounted = seenEventIds.current.has(reactionEvent.id);
+        seenEventIds.current.add(reactionEvent.id);
+        if (!alreadyCounted) countedEvents.current.set(reactionEvent.id, reactionEvent);
+        const reaction = parseReaction(reactionEvent);
+        
+        setData(prev => ({
+          ...prev,
+          reactions: alreadyCounted ? prev.reactions : applyActivityEvent(prev.reactions, reactionEvent),
+          userReactions: reaction.type === 'emoji' && !prev.userReactions.includes(reaction.content)
+            ? [...prev.userReactions, reaction.content]
+            : prev.userReactions
+        }));
+      }
+      
+      return reactionEvent;
+    } catch (error) {
+      console.error('Error publishing reaction:', error);
+      return null;
+    }
+  }, [data.event]);
+
+  const toggleRepost = useCallback(async (signer: NostrSigner): Promise<Event | null> => {
+    if (!data.event) return null;
+    
+    // A locked identity must be unlocked before it can sign
+    if (getIdentityState().isLocked) {
+      setData(prev => ({ ...prev, isLocked: true }));
+      return null;
+    }
+    
+    try {
+      if (data.isRepostedByUser) {
+        // Undo the repost on the network with a deletion for every repost we made
+        const userPubkey = await signer.getPublicKey();
+        const networkReposts = await fetchUserReposts(data.event.id, userPubkey);
+        const reposts = [...ownReposts.current, ...networkReposts]
+          .filter((repost, index, all) => all.findIndex(other => other.id === repost.id) === index);
+        
+        let deletion: Event | null = null;
+        if (reposts.length > 0) {
+          deletion = await publishDeletion(signer, reposts);
+          // Keep the repost if the deletion couldn't be published
+          if (!deletion) return null;
+        }
+        
+        ownReposts.current = [];
+        const counted = reposts.filter(repost => countedEvents.current.has(repost.id));
+        counted.forEach(repost => countedEvents.current.delete(repost.id));
+        setData(prev => ({
+          ...prev,
+          isRepostedByUser: false,
+          reactions: counted.reduce((total, repost) => removeActivityEvent(total, repost), prev.reactions)
+        }));
+        return deletion;
+      }
+      
+      const repostEvent = await publishRepost(signer, data.event);
+      
+      if (repostEvent) {
+        ownReposts.current.push(repostEvent);
+        // The live subscription may have already counted our repost
+        const alreadyCounted = seenEventIds.current.has(repostEvent.id);
+        seenEventIds.current.add(repostEvent.id);
+        if (!alreadyCounted) countedEvents.current.set(repostEvent.id, repostEvent);
+        setData(prev => ({
+          ...prev,
+          isRepostedByUser: true,
+          reactions: alreadyCounted ? prev.reactions : applyActivityEvent(prev.reactions, repostEvent)
+        }));
+      }
+      
+      return repostEvent;
+    } catch (error) {
+      console.error('Error toggling repost:', error);
+      return null;
+    }
+  }, [data.event, data.isRepostedByUser]);
+
+  const quote = useCallback(async (signer: NostrSigner, content: string): Promise<Event | null> => {
+    if (!data.event) return null;
+    
+    // A locked identity must be unlocked before it can sign
+    if (getIdentityState().isLocked) {
+      setData(prev => ({ ...prev, isLocked: true }));
+      return null;
+    }
+    
+    try {
+      return await publishQuote(signer, content, data.event);
+    } catch (error) {
+      console.error('Error publishing quote:', error);
+      return null;
+    }
+  }, [data.event]);
+
+  // Bookmark the note in the user's NIP-51 list, or remove it if already saved
+  const toggleSave = useCallback(async (signer: NostrSigner, isPrivate: boolean = false): Promise<boolean> => {
+    if (!data.event) return false;
+    
+    // A locked identity must be unlocked before it can sign
+    if (getIdentityState().isLocked) {
+      setData(prev => ({ ...prev, isLocked: true }));
+      return false;
+    }
+    
+    try {
+      const wasSaved = data.isSavedByUser;
+      const list = wasSaved
+        ? await removeBookmark(signer, data.event.id)
+        : await addBookmark(signer, data.event.id, isPrivate);
+      if (!list) return false;
+      
+      if (wasSaved) {
+        removeSave(data.event.id);
+      } else {
+        recordSave(data.event.id);
+      }
+      
+      setData(prev => ({
+        ...prev,
+        isSavedByUser: !wasSaved,
+        isSavedPrivately: !wasSaved && isPrivate,
+        userActivity: getUserActivity()
+      }));
+      return true;
+    } catch (error) {
+      console.error('Error toggling bookmark:', error);
+      return false;
+    }
+  }, [data.event, data.isSavedByUser]);
+
   const fetchData = async () => {
     if (!eventId) {
       setData(prev => ({
@@ -196,7 +537,7 @@ export function usePostPreview(eventId: string | undefined): UsePostPreviewRetur
       }
 
       // Fetch event
-      const event = await fetchEvent(decoded.id, decoded.relays);
+      const event = await fetchEvent(decoded.id, decoded.relays, decoded.author, true);
       
       if (!event) {
         setData(prev => ({
@@ -208,14 +549,29 @@ export function usePostPreview(eventId: string | undefined): UsePostPreviewRetur
       }
 
       // Parse content
-      const parsedContent = parseContent(event.content);
+      const parsedContent = parseContent(event.content, event.tags, event.kind);
 
       // Fetch profile, reactions, and replies in parallel
-      const [profile, reactions, replies] = await Promise.all([
-        fetchAuthorProfile(event.pubkey, decoded.relays),
-        fetchReactions(decoded.id, decoded.relays),
-        fetchRepliesFromNostr(decoded.id, decoded.relays)
+      // Activity is looked up by the fetched event's ID (an naddr only decodes to a coordinate),
+      // and for an article also by its coordinate so activity on earlier versions counts too
+      // Live updates start from before these queries, so nothing published meanwhile is missed
+      const since = Math.floor(Date.now() / 1000);
+      const address = getArticleAddress(event);
+      const profilePromise = fetchAuthorProfile(event.pubkey, decoded.relays);
+      const [profile, activityEvents, firstPage, zapProvider] = await Promise.all([
+        profilePromise,
+        fetchActivityEvents(event.id, decoded.relays, address),
+        fetchRepliesFromNostr(event.id, decoded.relays, event.pubkey, undefined, address),
+        profilePromise.then(getZapProviderPubkey)
       ]);
+      // Zap receipts are validated against the author's LNURL provider
+      const reactions = activityEvents.reduce(
+        (total, activity) => applyActivityEvent(total, activity, zapProvider),
+        getEmptyReactionCounts()
+      );
+      zapProviderPubkey.current = zapProvider;
+      activitySince.current = since;
+      repliesUntil.current = firstPage.until;
 
       // Verify NIP-05 if profile has it
       let isVerified = false;
@@ -231,26 +587,71 @@ export function usePostPreview(eventId: string | undefined): UsePostPreviewRetur
       // Check for user's identity to fetch network interactions
       const identityState = getIdentityState();
       let isLikedByUser = hasLikedEvent(event.id); // Start with local state
+      let isSavedByUser = hasSavedEvent(event.id);
+      let isSavedPrivately = false;
+      let isRepostedByUser = false;
       let userReplies: Event[] = [];
+      let userReactions: string[] = [];
+      let customEmojis: CustomEmoji[] = [];
       
-      // If user has an unlocked identity, check network for their likes and replies
+      // If user has an unlocked identity, check network for their reactions and replies
       if (identityState.publicKey && !identityState.isLocked) {
         try {
-          // Check if user has liked this event on the network
-          const networkLiked = await fetchUserLikedEvent(decoded.id, identityState.publicKey, decoded.relays);
+          // Private bookmarks are only decrypted with the local key - extensions would prompt on every preview
+          const bookmarkSigner = getSignerPreference().type === 'local' ? getActiveSigner() : null;
+          
+          // Check how the user has reacted to this event on the network
+          const [reactionEvents, repostEvents, emojis, bookmarkList] = await Promise.all([
+            fetchUserReactions(event.id, identityState.publicKey, decoded.relays),
+            fetchUserReposts(event.id, identityState.publicKey, decoded.relays),
+            fetchUserEmojis(identityState.publicKey),
+            fetchBookmarkList(identityState.publicKey, bookmarkSigner).catch(error => {
+              console.error('Error fetching bookmarks:', error);
+              return null;
+            })
+          ]);
+          const ownReactions = reactionEvents.map(parseReaction);
+          const networkLiked = ownReactions.some(reaction => reaction.type === 'like');
+          userReactions = ownReactions.filter(reaction => reaction.type === 'emoji').map(reaction => reaction.content);
+          customEmojis = emojis;
+          isRepostedByUser = repostEvents.length > 0;
+          
           if (networkLiked && !isLikedByUser) {
             // Sync local state with network
             recordLike(event.id);
             isLikedByUser = true;
           }
           
+          // Sync saved state with the bookmark list (unreadable private entries keep the local state)
+          const bookmark = bookmarkList && getBookmarks(bookmarkList).find(entry => entry.id === event.id);
+          if (bookmark) {
+            recordSave(event.id);
+            isSavedByUser = true;
+            isSavedPrivately = bookmark.isPrivate;
+          } else if (bookmarkList?.isPrivateReadable && isSavedByUser) {
+            removeSave(event.id);
+            isSavedByUser = false;
+          }
+          
           // Fetch user's own replies from the network
-          userReplies = await fetchUserReplies(decoded.id, identityState.publicKey, decoded.relays);
+          userReplies = await fetchUserReplies(event.id, identityState.publicKey, decoded.relays);
         } catch (error) {
           console.error('Error fetching user interactions:', error);
         }
       }
 
+      // Fetch profiles of everyone in the thread, the top zappers and users mentioned in the note or replies
+      const replies = mergeReplies(firstPage.replies, userReplies);
+      const participants = [...new Set([
+        ...getMentionedPubkeys(parsedContent.nodes),
+        ...getReplyPubkeys(replies),
+        ...reactions.topZappers.slice(0, TOP_ZAPPERS_SHOWN).map(zapper => zapper.pubkey)
+      ])];
+      const participantProfiles = await fetchProfiles(participants, decoded.relays);
+      requestedProfiles.current = new Set(participants);
+      seenEventIds.current = new Set([...activityEvents, ...replies].map(activity => activity.id));
+      countedEvents.current = new Map(activityEvents.map(activity => [activity.id, activity]));
+
       setData({
         event,
         profile,
@@ -260,9 +661,18 @@ export function usePostPreview(eventId: string | undefined): UsePostPreviewRetur
         error: null,
         isVerified,
         replies,
+        participantProfiles,
+        hasMoreReplies: firstPage.until !== null,
+        isLoadingMoreReplies: false,
         userActivity: getUserActivity(), // Refresh after potential sync
         isLikedByUser,
-        userReplies
+        isSavedByUser,
+        isSavedPrivately,
+        isRepostedByUser,
+        userReactions,
+        customEmojis,
+        userReplies,
+        isLocked: identityState.isLocked
       });
     } catch (err) {
       console.error('Error loading post preview:', err);
@@ -278,32 +688,66 @@ export function usePostPreview(eventId: string | undefined): UsePostPreviewRetur
     fetchData();
   }, [eventId]);
 
+  // Stream new replies, reposts, reactions and zaps while the preview is open
+  const liveEventId = data.event?.id;
+  const liveAuthor = data.event?.pubkey;
+  const liveAddress = data.event ? getArticleAddress(data.event) : null;
+  useEffect(() => {
+    if (!liveEventId || !eventId) return;
+    
+    const relays = decodeEventId(eventId)?.relays;
+    const close = subscribeToEventActivity(liveEventId, (activity) => {
+      if (seenEventIds.current.has(activity.id)) return;
+      seenEventIds.current.add(activity.id);
+      countedEvents.current.set(activity.id, activity);
+      
+      setData(prev => ({
+        ...prev,
+        reactions: applyActivityEvent(prev.reactions, activity, zapProviderPubkey.current),
+        replies: activity.kind === 1 ? mergeReplies([activity], prev.replies) : prev.replies
+      }));
+      
+      if (activity.kind === 1) {
+        loadProfiles(getReplyPubkeys([activity]));
+      } else if (activity.kind === 9735) {
+        const zap = parseZapReceipt(activity, zapProviderPubkey.current);
+        if (zap) loadProfiles([zap.senderPubkey]);
+      }
+    }, (deletedId) => {
+      // Take deleted activity back out of the counts and the thread
+      const deleted = countedEvents.current.get(deletedId);
+      countedEvents.current.delete(deletedId);
+      
+      setData(prev => ({
+        ...prev,
+        reactions: deleted ? removeActivityEvent(prev.reactions, deleted, zapProviderPubkey.current) : prev.reactions,
+        replies: prev.replies.filter(reply => reply.id !== deletedId),
+        userReplies: prev.userReplies.filter(reply => reply.id !== deletedId)
+      }));
+    }, {
+      relays,
+      authorPubkey: liveAuthor,
+      address: liveAddress,
+      since: activitySince.current,
+      knownEvents: [...countedEvents.current.values()]
+    });
+    
+    // Close the subscription when leaving the page or switching notes
+    return close;
+  }, [eventId, liveEventId, liveAuthor, liveAddress, loadProfiles]);
+
   return {
     ...data,
     refetch: fetchData,
     refreshReplies,
+    loadMoreReplies,
     refreshUserActivity,
     postReply,
-    toggleLike
+    toggleLike,
+    deleteReply,
+    react,
+    toggleSave,
+    toggleRepost,
+    quote
   };
 }
-
-/**
- * Get display name for the author
- * Falls back to truncated npub if no profile name available
- */
-export function getDisplayName(profile: ProfileData | null, pubkey: string): string {
-  if (profile?.display_name) return profile.display_name;
-  if (profile?.name) return profile.name;
-  return `${pubkey.slice(0, 8)}...${pubkey.slice(-4)}`;
-}
-
-/**
- * Format reaction counts for display
- */
-export function formatReactionCount(count: number): string {
-  if (count === 0) return '';
-  if (count < 1000) return count.toString();
-  if (count < 1000000) return `${(count / 1000).toFixed(1)}k`;
-  return `${(count / 1000000).toFixed(1)}M`;
-}
@@ -0,0 +1,168 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { Event } from 'nostr-tools';
+import {
+  decodeProfileId,
+  fetchAuthorProfile,
+  fetchAuthorNotes,
+  fetchContactList,
+  fetchFollowCounts,
+  getFollowedPubkeys,
+  publishFollow,
+  verifyNIP05,
+  type FollowCounts,
+  type ProfileData
+} from '../nostr';
+import { getIdentityState } from '../storage.identity';
+import type { NostrSigner } from '../signer';
+
+interface ProfilePreviewData {
+  pubkey: string | null;
+  profile: ProfileData | null;
+  notes: Event[];
+  followCounts: FollowCounts;
+  isLoading: boolean;
+  error: string | null;
+  isVerified: boolean;
+  isFollowedByUser: boolean;
+  isLocked: boolean;     // Password-protected identity not unlocked this session
+}
+
+interface UseProfilePreviewReturn extends ProfilePreviewData {
+  refetch: () => void;
+  toggleFollow: (signer: NostrSigner) => Promise<Event | null>;
+}
+
+/**
+ * Custom hook for fetching and managing a profile preview
+ * Includes profile metadata, recent notes, follow counts and whether the user follows them
+ * @param profileId - The npub1 or nprofile1 identifier
+ * @returns Profile preview data, refetch and follow functions
+ */
+export function useProfilePreview(profileId: string | undefined): UseProfilePreviewReturn {
+  const [data, setData] = useState<ProfilePreviewData>({
+    pubkey: null,
+    profile: null,
+    notes: [],
+    followCounts: { following: 0, followers: 0, followersCapped: false },
+    isLoading: true,
+    error: null,
+    isVerified: false,
+    isFollowedByUser: false,
+    isLocked: getIdentityState().isLocked
+  });
+
+  const toggleFollow = useCallback(async (signer: NostrSigner): Promise<Event | null> => {
+    if (!data.pubkey) return null;
+
+    // A locked identity must be unlocked before it can sign
+    if (getIdentityState().isLocked) {
+      setData(prev => ({ ...prev, isLocked: true }));
+      return null;
+    }
+
+    try {
+      const follow = !data.isFollowedByUser;
+      const contactList = await publishFollow(signer, data.pubkey, follow);
+
+      if (contactList) {
+        setData(prev => ({
+          ...prev,
+          isFollowedByUser: follow,
+          followCounts: {
+            ...prev.followCounts,
+            followers: Math.max(0, prev.followCounts.followers + (follow ? 1 : -1))
+          }
+        }));
+      }
+
+      return contactList;
+    } catch (error) {
+      console.error('Error toggling follow:', error);
+      return null;
+    }
+  }, [data.pubkey, data.isFollowedByUser]);
+
+  const fetchData = async () => {
+    const decoded = profileId ? decodeProfileId(profileId) : null;
+
+    if (!decoded) {
+      setData(prev => ({
+        ...prev,
+        isLoading: false,
+        error: 'Invalid profile ID'
+      }));
+      return;
+    }
+
+    setData(prev => ({ ...prev, pubkey: decoded.pubkey, isLoading: true, error: null }));
+
+    try {
+      // Fetch profile, notes and follow counts in parallel
+      const [profile, notes, followCounts] = await Promise.all([
+        fetchAuthorProfile(decoded.pubkey, decoded.relays),
+        fetchAuthorNotes(decoded.pubkey, decoded.relays),
+        fetchFollowCounts(decoded.pubkey, decoded.relays)
+      ]);
+
+      if (!profile && notes.length === 0) {
+        setData(prev => ({
+          ...prev,
+          isLoading: false,
+          error: 'Profile not found. It may not exist on the relays.'
+        }));
+        return;
+      }
+
+      // Verify NIP-05 if profile has it
+      let isVerified = false;
+      if (profile?.nip05) {
+        try {
+          isVerified = await verifyNIP05(profile.nip05, decoded.pubkey);
+        } catch {
+          isVerified = false;
+        }
+      }
+
+      // Check whether the user already follows this profile
+      const identityState = getIdentityState();
+      let isFollowedByUser = false;
+      if (identityState.publicKey && identityState.publicKey !== decoded.pubkey) {
+        try {
+          const contactList = await fetchContactList(identityState.publicKey);
+          isFollowedByUser = getFollowedPubkeys(contactList).includes(decoded.pubkey);
+        } catch (error) {
+          console.error('Error fetching contact list:', error);
+        }
+      }
+
+      setData({
+        pubkey: decoded.pubkey,
+        profile,
+        notes,
+        followCounts,
+        isLoading: false,
+        error: null,
+        isVerified,
+        isFollowedByUser,
+        isLocked: identityState.isLocked
+      });
+    } catch (err) {
+      console.error('Error loading profile preview:', err);
+      setData(prev => ({
+        ...prev,
+        isLoading: false,
+        error: 'Failed to load profile. Please try again.'
+      }));
+    }
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, [profileId]);
+
+  return {
+    ...data,
+    refetch: fetchData,
+    toggleFollow
+  };
+}
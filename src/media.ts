@@ -0,0 +1,187 @@
+/**
+ * Media metadata - NIP-92 `imeta` tags on notes and NIP-94 file metadata events,
+ * used to classify media URLs, reserve their size, show blurhash placeholders
+ * and check files against their declared sha256
+ */
+
+import { decode as decodeBlurhash, isBlurhashValid } from 'blurhash';
+
+export const FILE_METADATA_KIND = 1063;
+
+export type MediaKind = 'image' | 'video' | 'audio' | 'file';
+
+/**
+ * What a note (or file event) says about a media URL
+ */
+export interface MediaMetadata {
+  url: string;
+  mimeType?: string;        // `m`, lowercase
+  width?: number;           // From `dim` (<width>x<height>)
+  height?: number;
+  blurhash?: string;
+  alt?: string;
+  sha256?: string;          // `x`, lowercase hex
+}
+
+const IMAGE_PATTERN = /\.(jpg|jpeg|png|gif|webp|avif|svg)(\?.*)?$/i;
+const VIDEO_PATTERN = /\.(mp4|webm|mov|m4v)(\?.*)?$/i;
+const AUDIO_PATTERN = /\.(mp3|m4a|aac|ogg|oga|opus|wav|flac)(\?.*)?$/i;
+
+/**
+ * Build metadata from NIP-94 field/value pairs
+ */
+function toMetadata(fields: [string, string][]): MediaMetadata | null {
+  const metadata: Partial<MediaMetadata> = {};
+
+  for (const [name, value] of fields) {
+    if (!value) continue;
+    switch (name) {
+      case 'url':
+        metadata.url = value;
+        break;
+      case 'm':
+        metadata.mimeType = value.toLowerCase();
+        break;
+      case 'dim': {
+        const match = /^(\d+)x(\d+)$/.exec(value);
+        if (match && parseInt(match[1], 10) > 0 && parseInt(match[2], 10) > 0) {
+          metadata.width = parseInt(match[1], 10);
+          metadata.height = parseInt(match[2], 10);
+        }
+        break;
+      }
+      case 'blurhash':
+        metadata.blurhash = value;
+        break;
+      case 'alt':
+        metadata.alt = value;
+        break;
+      case 'x':
+        if (/^[0-9a-f]{64}$/i.test(value)) metadata.sha256 = value.toLowerCase();
+        break;
+    }
+  }
+
+  return metadata.url && /^https?:\/\//i.test(metadata.url) ? metadata as MediaMetadata : null;
+}
+
+/**
+ * Read a note's `imeta` tags (NIP-92)
+ * Each entry is a "<field> <value>" string, e.g. ["imeta", "url https://...", "m image/jpeg", "dim 1200x800"]
+ * @returns Metadata by URL
+ */
+export function parseImetaTags(tags: string[][]): Map<string, MediaMetadata> {
+  const media = new Map<string, MediaMetadata>();
+
+  tags
+    .filter(tag => tag[0] === 'imeta')
+    .forEach(tag => {
+      const fields = tag.slice(1).map((entry): [string, string] => {
+        const space = entry.indexOf(' ');
+        return space === -1 ? [entry, ''] : [entry.slice(0, space), entry.slice(space + 1).trim()];
+      });
+      const metadata = toMetadata(fields);
+      if (metadata && !media.has(metadata.url)) {
+        media.set(metadata.url, metadata);
+      }
+    });
+
+  return media;
+}
+
+/**
+ * Read the file described by a NIP-94 file metadata event (kind 1063) from its tags
+ */
+export function parseFileMetadata(tags: string[][]): MediaMetadata | null {
+  return toMetadata(tags.map((tag): [string, string] => [tag[0], tag[1] || '']));
+}
+
+/**
+ * Classify a URL as media using its metadata's MIME type, falling back to the file extension
+ * @returns The media kind, or null for a plain link
+ */
+export function getMediaKind(url: string, metadata?: MediaMetadata): MediaKind | null {
+  const mimeType = metadata?.mimeType;
+  if (mimeType) {
+    if (mimeType.startsWith('image/')) return 'image';
+    if (mimeType.startsWith('video/')) return 'video';
+    if (mimeType.startsWith('audio/')) return 'audio';
+    return 'file';
+  }
+
+  if (IMAGE_PATTERN.test(url)) return 'image';
+  if (VIDEO_PATTERN.test(url)) return 'video';
+  if (AUDIO_PATTERN.test(url)) return 'audio';
+
+  // Declared media without a type or extension, e.g. a Blossom hash URL
+  if (metadata) return metadata.blurhash || metadata.width ? 'image' : 'file';
+  return null;
+}
+
+/**
+ * CSS aspect-ratio for media with known dimensions
+ */
+export function getAspectRatio(metadata?: MediaMetadata): string | undefined {
+  return metadata?.width && metadata.height ? `${metadata.width} / ${metadata.height}` : undefined;
+}
+
+const blurhashCache = new Map<string, string | null>();
+
+/**
+ * Render a blurhash to a small PNG data URL to use as a placeholder
+ * @returns The data URL, or null if the blurhash is invalid
+ */
+export function blurhashToDataUrl(blurhash: string): string | null {
+  if (blurhashCache.has(blurhash)) return blurhashCache.get(blurhash) ?? null;
+
+  let dataUrl: string | null = null;
+  try {
+    if (isBlurhashValid(blurhash).result) {
+      const size = 32;
+      const canvas = document.createElement('canvas');
+      canvas.width = size;
+      canvas.height = size;
+      const context = canvas.getContext('2d');
+      if (context) {
+        const imageData = context.createImageData(size, size);
+        imageData.data.set(decodeBlurhash(blurhash, size, size));
+        context.putImageData(imageData, 0, 0);
+        dataUrl = canvas.toDataURL();
+      }
+    }
+  } catch (error) {
+    console.error('Error decoding blurhash:', error);
+  }
+
+  blurhashCache.set(blurhash, dataUrl);
+  return dataUrl;
+}
+
+const hashChecks = new Map<string, Promise<boolean | null>>();
+
+/**
+ * Check a file against the sha256 its note declared (`x`)
+ * Needs the host to allow cross-origin reads; the browser usually serves the bytes from cache
+ * @returns True if it matches, false if it doesn't, null if the file couldn't be read
+ */
+export function verifyMediaHash(url: string, sha256: string): Promise<boolean | null> {
+  const key = `${url} ${sha256}`;
+  const cached = hashChecks.get(key);
+  if (cached) return cached;
+
+  const check = (async () => {
+    try {
+      const response = await fetch(url, { cache: 'force-cache' });
+      if (!response.ok) return null;
+      const digest = await crypto.subtle.digest('SHA-256', await response.arrayBuffer());
+      const hex = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+      return hex === sha256;
+    } catch {
+      // Usually CORS - the file can still be shown, just not checked
+      return null;
+    }
+  })();
+
+  hashChecks.set(key, check);
+  return check;
+}
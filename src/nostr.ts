@@ -2,7 +2,16 @@
  * Nostr utilities using nostr-tools
  */
 
-import { generateSecretKey, getPublicKey, finalizeEvent, nip19, SimplePool, type Event as NostrEvent } from 'nostr-tools';
+import { generateSecretKey, getPublicKey, finalizeEvent, nip19, type Event as NostrEvent, type Filter } from 'nostr-tools';
+import { encrypt as encryptNip49, decrypt as decryptNip49 } from 'nostr-tools/nip49';
+import { parse as parseThread } from 'nostr-tools/nip10';
+import { bytesToHex } from 'nostr-tools/utils';
+import { getEvent, getLatestEvent, queryEvents, queryEventsByRelay, subscribeEvents, publishToRelays, getSeenOnRelays } from './relays';
+import { getReadRelays, getWriteRelays, type RelaySetting } from './storage.relays';
+import type { NostrSigner } from './signer';
+import { parseZapReceipt } from './zaps';
+import { tokenizeContent, type ContentNode, type MediaNode } from './content';
+import { parseFileMetadata, getMediaKind, FILE_METADATA_KIND } from './media';
 
 // Extend the Event type with additional properties
 // Note: NostrEvent already has required properties: id, pubkey, created_at, kind, tags, content, sig
@@ -70,6 +79,19 @@ export interface ExportedKeypair {
   };
 }
 
+/**
+ * Password-encrypted key backup (NIP-49)
+ * Only the public key is readable without the password
+ */
+export interface EncryptedKeyBackup {
+  publicKey: {
+    hex: string;
+    npub: string;
+  };
+  ncryptsec: string;
+  generated: string;
+}
+
 /**
  * Generate a new ephemeral keypair using CSPRNG
  * @returns Hex-encoded keys
@@ -177,6 +199,161 @@ export function exportKeypair(privateKeyHex: string, publicKeyHex: string): Expo
   };
 }
 
+/**
+ * Parse a private key in nsec or 64-character hex format
+ * @param input - nsec1... or hex private key
+ * @returns Hex-encoded private key or null if invalid
+ */
+export function parsePrivateKey(input: string): string | null {
+  const trimmed = input.trim();
+  
+  try {
+    let privateKeyHex: string | null = null;
+    
+    if (trimmed.startsWith('nsec1')) {
+      const decoded = nip19.decode(trimmed);
+      if (decoded.type === 'nsec') {
+        privateKeyHex = bytesToHex(decoded.data);
+      }
+    } else if (/^[0-9a-f]{64}$/i.test(trimmed)) {
+      privateKeyHex = trimmed.toLowerCase();
+    }
+    
+    if (!privateKeyHex) return null;
+    
+    // Throws if the key is outside the valid secp256k1 range
+    getPublicKeyFromPrivate(privateKeyHex);
+    return privateKeyHex;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check if input is a NIP-49 password-encrypted key
+ */
+export function isNcryptsec(input: string): boolean {
+  return input.trim().startsWith('ncryptsec1');
+}
+
+/**
+ * Encrypt a private key with a password as a NIP-49 ncryptsec
+ * Uses scrypt (log_n 16) and XChaCha20-Poly1305 as the spec requires
+ * @param privateKeyHex - Hex-encoded private key
+ * @param password - Password to encrypt with
+ * @returns ncryptsec1... string
+ */
+export function encryptPrivateKey(privateKeyHex: string, password: string): string {
+  // Key security byte 0x00: we can't tell whether the key was ever handled insecurely
+  return encryptNip49(hexToBytes(privateKeyHex), password, 16, 0x00);
+}
+
+/**
+ * Create a password-encrypted JSON key backup
+ * @param privateKeyHex - Hex-encoded private key
+ * @param password - Password to encrypt with
+ * @returns Backup with the public key and ncryptsec
+ */
+export function createEncryptedKeyBackup(privateKeyHex: string, password: string): EncryptedKeyBackup {
+  const publicKeyHex = getPublicKeyFromPrivate(privateKeyHex);
+  return {
+    publicKey: {
+      hex: publicKeyHex,
+      npub: getNostrPublicKey(publicKeyHex)
+    },
+    ncryptsec: encryptPrivateKey(privateKeyHex, password),
+    generated: new Date().toISOString()
+  };
+}
+
+/**
+ * Decrypt a NIP-49 ncryptsec with its password
+ * @param ncryptsec - ncryptsec1... string
+ * @param password - Password the key was encrypted with
+ * @returns Hex-encoded private key or null if the password is wrong or input invalid
+ */
+export function decryptNcryptsec(ncryptsec: string, password: string): string | null {
+  try {
+    return bytesToHex(decryptNip49(ncryptsec.trim(), password));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read the private key from a JSON key backup (as written by the identity page)
+ * @param json - Backup file contents (plaintext or encrypted backup)
+ * @param password - Password for an encrypted backup
+ * @returns Hex-encoded private key or null if the file isn't a valid backup or the password is wrong
+ */
+export function parseKeyBackup(json: string, password?: string): string | null {
+  try {
+    const backup = JSON.parse(json) as Partial<ExportedKeypair & EncryptedKeyBackup>;
+    const privateKeyHex = backup.ncryptsec
+      ? decryptNcryptsec(backup.ncryptsec, password || '')
+      : parsePrivateKey(backup.privateKey?.nsec || '') || parsePrivateKey(backup.privateKey?.hex || '');
+    
+    if (!privateKeyHex) return null;
+    
+    // Reject backups whose public key doesn't match the private key
+    if (backup.publicKey?.hex && backup.publicKey.hex !== getPublicKeyFromPrivate(privateKeyHex)) {
+      return null;
+    }
+    
+    return privateKeyHex;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check if import input needs a password (ncryptsec or encrypted JSON backup)
+ */
+export function importNeedsPassword(input: string): boolean {
+  const trimmed = input.trim();
+  if (isNcryptsec(trimmed)) return true;
+  if (!trimmed.startsWith('{')) return false;
+  
+  try {
+    return typeof JSON.parse(trimmed).ncryptsec === 'string';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolve a private key from any supported import format:
+ * nsec, 64-char hex, NIP-49 ncryptsec (needs password) or a JSON key backup
+ * @param input - Pasted key or backup file contents
+ * @param password - Password for ncryptsec input
+ * @returns Hex-encoded private key, or an error message
+ */
+export function resolveImportedKey(input: string, password?: string): { privateKey?: string; error?: string } {
+  const trimmed = input.trim();
+  
+  if (!trimmed) {
+    return { error: 'Paste a key or choose a backup file' };
+  }
+  
+  if (importNeedsPassword(trimmed) && !password) {
+    return { error: 'Enter the password for this encrypted key' };
+  }
+  
+  if (isNcryptsec(trimmed)) {
+    const privateKey = decryptNcryptsec(trimmed, password || '');
+    return privateKey ? { privateKey } : { error: 'Incorrect password or invalid ncryptsec' };
+  }
+  
+  if (trimmed.startsWith('{')) {
+    const privateKey = parseKeyBackup(trimmed, password);
+    if (privateKey) return { privateKey };
+    return { error: password ? 'Incorrect password or invalid backup file' : 'Not a valid key backup file' };
+  }
+  
+  const privateKey = parsePrivateKey(trimmed);
+  return privateKey ? { privateKey } : { error: 'Not a valid nsec or hex private key' };
+}
+
 /**
  * Extract event identifier from various Nostr link formats
  * Supports: note1..., nevent1..., nostr: prefixes, and various client URLs
@@ -187,8 +364,8 @@ export function extractEventId(link: string): string | null {
   // Remove whitespace
   const cleanLink = link.trim();
   
-  // Match bech32 encoded identifiers (note1... or nevent1...)
-  const bech32Regex = /(note1|nevent1)[a-z0-9]+/i;
+  // Match bech32 encoded identifiers (note1..., nevent1... or naddr1... for addressable events)
+  const bech32Regex = /(note1|nevent1|naddr1)[a-z0-9]+/i;
   const match = cleanLink.match(bech32Regex);
   
   if (match) {
@@ -211,11 +388,73 @@ export function extractEventId(link: string): string | null {
 }
 
 /**
- * Decode a note1 or nevent1 identifier to get the event ID
- * @param eventId - note1... or nevent1... identifier
- * @returns The decoded event data or null if invalid
+ * Extract a profile identifier (npub1... or nprofile1...) from a link or text
+ * @param link - The link or text to extract from
+ * @returns The npub1/nprofile1 identifier or null if not found
+ */
+export function extractProfileId(link: string): string | null {
+  const match = link.trim().match(/(npub1|nprofile1)[a-z0-9]+/i);
+  return match ? match[0] : null;
+}
+
+/**
+ * Decode an npub1 or nprofile1 identifier
+ * @param profileId - npub1... or nprofile1... identifier
+ * @returns The public key (hex) with relay hints if present, or null if invalid
+ */
+export function decodeProfileId(profileId: string): { pubkey: string; relays?: string[] } | null {
+  try {
+    if (profileId.startsWith('npub1')) {
+      const decoded = nip19.decode(profileId);
+      if (decoded.type === 'npub') {
+        return { pubkey: decoded.data };
+      }
+    } else if (profileId.startsWith('nprofile1')) {
+      const decoded = nip19.decode(profileId);
+      if (decoded.type === 'nprofile') {
+        return { pubkey: decoded.data.pubkey, relays: decoded.data.relays };
+      }
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check if events of a kind are addressable (parameterized replaceable, NIP-01)
+ */
+export function isAddressableKind(kind: number): boolean {
+  return kind >= 30000 && kind < 40000;
+}
+
+/**
+ * Get the kind:pubkey:d-tag coordinate of an addressable event
+ * @returns The coordinate, or null if the event isn't addressable
+ */
+export function getEventAddress(event: Pick<Event, 'kind' | 'pubkey' | 'tags'>): string | null {
+  if (!isAddressableKind(event.kind)) return null;
+  const identifier = event.tags.find(tag => tag[0] === 'd')?.[1] || '';
+  return `${event.kind}:${event.pubkey}:${identifier}`;
+}
+
+/**
+ * Split a kind:pubkey:d-tag coordinate into its parts
+ * @returns The parts, or null if the string isn't a coordinate
+ */
+export function parseEventAddress(address: string): { kind: number; pubkey: string; identifier: string } | null {
+  const match = /^(\d+):([0-9a-f]{64}):(.*)$/s.exec(address);
+  if (!match) return null;
+  return { kind: parseInt(match[1], 10), pubkey: match[2], identifier: match[3] };
+}
+
+/**
+ * Decode a note1, nevent1 or naddr1 identifier to get the event ID
+ * For naddr1 the ID is the event's kind:pubkey:d-tag coordinate (see fetchEvent)
+ * @param eventId - note1..., nevent1... or naddr1... identifier
+ * @returns The decoded event data (with relay hints and author if present) or null if invalid
  */
-export function decodeEventId(eventId: string): { id: string; relays?: string[] } | null {
+export function decodeEventId(eventId: string): { id: string; relays?: string[]; author?: string } | null {
   try {
     if (eventId.startsWith('note1')) {
       const decoded = nip19.decode(eventId);
@@ -225,8 +464,14 @@ export function decodeEventId(eventId: string): { id: string; relays?: string[]
     } else if (eventId.startsWith('nevent1')) {
       const decoded = nip19.decode(eventId);
       if (decoded.type === 'nevent') {
-        const data = decoded.data as { id: string; relays?: string[] };
-        return { id: data.id, relays: data.relays };
+        const data = decoded.data as { id: string; relays?: string[]; author?: string };
+        return { id: data.id, relays: data.relays, author: data.author };
+      }
+    } else if (eventId.startsWith('naddr1')) {
+      const decoded = nip19.decode(eventId);
+      if (decoded.type === 'naddr') {
+        const { kind, pubkey, identifier, relays } = decoded.data;
+        return { id: `${kind}:${pubkey}:${identifier}`, relays, author: pubkey };
       }
     }
     return null;
@@ -237,34 +482,59 @@ export function decodeEventId(eventId: string): { id: string; relays?: string[]
 
 /**
  * Fetch a Nostr event from relays
- * @param eventId - The event ID (hex string)
- * @param relays - Optional array of relay URLs to use
+ * Relay hints are queried together with the user's read relays and,
+ * when the author is known, the author's NIP-65 write relays
+ * @param eventId - The event ID (hex string), or a kind:pubkey:d-tag coordinate
+ * for the latest version of an addressable event
+ * @param relays - Optional array of relay hints
+ * @param authorPubkey - Optional author public key (hex) for outbox lookup
+ * @param recordHint - Remember where the event was found, for tags that point at it
+ * (replies, quotes, reposts and bookmarks)
  * @returns The event or null if not found
  */
-export async function fetchEvent(eventId: string, relays?: string[]): Promise<Event | null> {
-  const defaultRelays = [
-    'wss://relay.damus.io',
-    'wss://relay.snort.social',
-    'wss://nos.lol'
-  ];
-  
-  const pool = new SimplePool();
-  const relayList = relays && relays.length > 0 ? relays : defaultRelays;
+export async function fetchEvent(
+  eventId: string,
+  relays?: string[],
+  authorPubkey?: string,
+  recordHint: boolean = false
+): Promise<Event | null> {
+  let relayList = mergeRelays(relays || [], getReadRelays());
   
   try {
-    const event = await pool.get(relayList, {
-      ids: [eventId]
-    });
+    if (authorPubkey) {
+      const authorRelays = await fetchRelayList(authorPubkey, relayList);
+      relayList = mergeRelays(relayList, authorRelays.write);
+    }
     
-    pool.close(relayList);
-    return event;
+    const address = parseEventAddress(eventId);
+    return await getEvent(relayList, address
+      ? { kinds: [address.kind], authors: [address.pubkey], '#d': [address.identifier] }
+      : { ids: [eventId] }, recordHint);
   } catch (error) {
     console.error('Error fetching event:', error);
-    pool.close(relayList);
     return null;
   }
 }
 
+/**
+ * Fetch several events by ID in one query
+ * @param eventIds - Event IDs (hex)
+ * @param relays - Optional relay hints, queried together with the user's read relays
+ * @returns The events found, in no particular order
+ */
+export async function fetchEvents(eventIds: string[], relays?: string[]): Promise<Event[]> {
+  if (eventIds.length === 0) return [];
+  
+  try {
+    return await queryEvents(mergeRelays(relays || [], getReadRelays()), {
+      ids: [...new Set(eventIds)]
+    });
+  } catch (error) {
+    console.error('Error fetching events:', error);
+    return [];
+  }
+}
+
 /**
  * Format a timestamp into a relative time string
  * @param timestamp - Unix timestamp in seconds
@@ -284,35 +554,93 @@ export function formatRelativeTime(timestamp: number): string {
 }
 
 /**
- * Parse content to extract image and video URLs
+ * Parse content into rendering nodes, and pull out media
  * @param content - Event content string
- * @returns Object with text content and media URLs
+ * @param tags - The event's tags, for legacy #[n] mentions and imeta media metadata
+ * @param kind - The event's kind; a NIP-94 file event (kind 1063) adds the file it describes
+ * @returns Content nodes, the text without media URLs, the media and the image and video URLs
  */
-export function parseContent(content: string): {
+export function parseContent(content: string, tags: string[][] = [], kind?: number): {
   text: string;
   images: string[];
   videos: string[];
+  media: MediaNode[];
+  nodes: ContentNode[];
 } {
-  const images: string[] = [];
-  const videos: string[] = [];
-  
-  // URL regex pattern
-  const urlRegex = /(https?:\/\/[^\s]+)/g;
-  const urls = content.match(urlRegex) || [];
-  
-  // Filter URLs by type
-  urls.forEach(url => {
-    if (url.match(/\.(jpg|jpeg|png|gif|webp)(\?.*)?$/i)) {
-      images.push(url);
-    } else if (url.match(/\.(mp4|webm|mov)(\?.*)?$/i)) {
-      videos.push(url);
+  const nodes = tokenizeContent(content, tags);
+  const media = nodes.filter((node): node is MediaNode => node.type === 'media');
+  
+  if (kind === FILE_METADATA_KIND) {
+    const file = parseFileMetadata(tags);
+    if (file && !media.some(node => node.url === file.url)) {
+      media.push({ type: 'media', url: file.url, mediaType: getMediaKind(file.url, file) || 'file', metadata: file });
     }
-  });
+  }
+  
+  const images = media.filter(node => node.mediaType === 'image').map(node => node.url);
+  const videos = media.filter(node => node.mediaType === 'video').map(node => node.url);
+  
+  // Media is shown separately; links and mentions stay in the text as written
+  const text = nodes
+    .map(node => {
+      switch (node.type) {
+        case 'text': return node.text;
+        case 'link': return node.url;
+        case 'media': return '';
+        case 'mention':
+        case 'event-ref': return node.raw;
+        case 'hashtag': return `#${node.tag}`;
+        case 'invoice': return node.invoice;
+      }
+    })
+    .join('')
+    .trim();
   
-  // Remove URLs from text
-  const text = content.replace(urlRegex, '').trim();
+  return { text, images, videos, media, nodes };
+}
+
+/**
+ * Long-form article metadata (NIP-23)
+ */
+export interface ArticleData {
+  title: string;
+  summary: string;
+  image: string | null;
+  publishedAt: number;      // First publication (Unix seconds); falls back to this version's created_at
+  hashtags: string[];
+}
+
+/**
+ * Check if an event is a long-form article (kind 30023)
+ */
+export function isArticle(event: Pick<Event, 'kind'>): boolean {
+  return event.kind === 30023;
+}
+
+/**
+ * Read an article's metadata tags (NIP-23)
+ * @param event - Kind 30023 event
+ * @returns Title, summary, header image, publication date and hashtags
+ */
+export function parseArticle(event: Pick<Event, 'tags' | 'created_at'>): ArticleData {
+  const getTag = (name: string) => event.tags.find(tag => tag[0] === name)?.[1]?.trim() || '';
+  const publishedAt = parseInt(getTag('published_at'), 10);
   
-  return { text, images, videos };
+  return {
+    title: getTag('title'),
+    summary: getTag('summary'),
+    image: /^https?:\/\//.test(getTag('image')) ? getTag('image') : null,
+    publishedAt: publishedAt > 0 ? publishedAt : event.created_at,
+    hashtags: event.tags.filter(tag => tag[0] === 't' && tag[1]).map(tag => tag[1])
+  };
+}
+
+/**
+ * Get the coordinate that replies and reactions to an article may tag instead of a version's ID
+ * @returns The article's kind:pubkey:d-tag coordinate, or null if the event isn't an article
+ */
+export function getArticleAddress(event: Pick<Event, 'kind' | 'pubkey' | 'tags'>): string | null {
+  return isArticle(event) ? getEventAddress(event) : null;
 }
 
 /**
@@ -334,43 +662,100 @@ export interface ProfileData {
   picture?: string;
   nip05?: string;
   about?: string;
-  lud16?: string;
+  lud16?: string;  // Lightning address (name@domain)
+  lud06?: string;  // LNURL (bech32)
+}
+
+/**
+ * Get display name for the author
+ * Falls back to truncated npub if no profile name available
+ */
+export function getDisplayName(profile: ProfileData | null, pubkey: string): string {
+  if (profile?.display_name) return profile.display_name;
+  if (profile?.name) return profile.name;
+  return `${pubkey.slice(0, 8)}...${pubkey.slice(-4)}`;
 }
 
 /**
  * Reaction counts by type
  */
 export interface ReactionCounts {
-  likes: number;
+  likes: number;             // '+' (or empty) reactions
+  dislikes: number;          // '-' reactions
+  emojiReactions: ReactionGroup[]; // Every other reaction grouped by emoji, most used first
   reposts: number;
-  zaps: number;
+  zaps: number;              // Number of valid zap receipts
+  zapSats: number;           // Total sats zapped
+  topZappers: ZapperTotal[]; // Everyone who zapped, most sats first
   replies: number;
 }
 
+/**
+ * Reactions with the same emoji (NIP-25), or the same NIP-30 custom emoji
+ */
+export interface ReactionGroup {
+  content: string;           // The emoji, or :shortcode: for a custom emoji
+  count: number;
+  emojiUrl?: string;         // Image for a custom emoji
+}
+
+/**
+ * A NIP-30 custom emoji
+ */
+export interface CustomEmoji {
+  shortcode: string;
+  url: string;
+}
+
+/**
+ * How a kind-7 reaction is counted
+ */
+export type ReactionType = 'like' | 'dislike' | 'emoji';
+
+/**
+ * Total sats zapped by one user
+ */
+export interface ZapperTotal {
+  pubkey: string;
+  sats: number;
+}
+
+/**
+ * Get empty reaction counts
+ */
+export function getEmptyReactionCounts(): ReactionCounts {
+  return { likes: 0, dislikes: 0, emojiReactions: [], reposts: 0, zaps: 0, zapSats: 0, topZappers: [], replies: 0 };
+}
+
+/**
+ * Format reaction counts for display
+ */
+export function formatReactionCount(count: number): string {
+  if (count === 0) return '';
+  if (count < 1000) return count.toString();
+  if (count < 1000000) return `${(count / 1000).toFixed(1)}k`;
+  return `${(count / 1000000).toFixed(1)}M`;
+}
+
 /**
  * Fetch author profile metadata (kind 0)
+ * Also queries the author's NIP-65 write relays
  * @param pubkey - Author's public key (hex)
  * @param relays - Optional array of relay URLs
  * @returns Profile data or null if not found
  */
 export async function fetchAuthorProfile(pubkey: string, relays?: string[]): Promise<ProfileData | null> {
-  const defaultRelays = [
-    'wss://relay.damus.io',
-    'wss://relay.snort.social',
-    'wss://nos.lol'
-  ];
-  
-  const pool = new SimplePool();
-  const relayList = relays && relays.length > 0 ? relays : defaultRelays;
+  const baseRelays = relays && relays.length > 0 ? relays : getReadRelays();
   
   try {
-    const event = await pool.get(relayList, {
+    const authorRelays = await fetchRelayList(pubkey, baseRelays);
+    const relayList = mergeRelays(baseRelays, authorRelays.write);
+    
+    const event = await getEvent(relayList, {
       kinds: [0],
       authors: [pubkey]
     });
     
-    pool.close(relayList);
-    
     if (event && event.content) {
       try {
         return JSON.parse(event.content) as ProfileData;
@@ -382,79 +767,200 @@ export async function fetchAuthorProfile(pubkey: string, relays?: string[]): Pro
     return null;
   } catch (error) {
     console.error('Error fetching profile:', error);
-    pool.close(relayList);
     return null;
   }
 }
 
 /**
- * Fetch reactions to an event
- * @param eventId - The event ID (hex string)
- * @param relays - Optional array of relay URLs
- * @returns Reaction counts by type
+ * Get the custom emoji declared in an event's 'emoji' tags (NIP-30)
  */
-export async function fetchReactions(eventId: string, relays?: string[]): Promise<ReactionCounts> {
-  const defaultRelays = [
-    'wss://relay.damus.io',
-    'wss://relay.snort.social',
-    'wss://nos.lol'
-  ];
+export function getEmojiTags(event: Pick<Event, 'tags'>): CustomEmoji[] {
+  return event.tags
+    .filter(tag => tag[0] === 'emoji' && /^[a-zA-Z0-9_]+$/.test(tag[1] || '') && /^https?:\/\//.test(tag[2] || ''))
+    .map(tag => ({ shortcode: tag[1], url: tag[2] }));
+}
+
+/**
+ * Read a kind-7 reaction (NIP-25)
+ * '+' or empty content is a like, '-' a dislike, anything else an emoji reaction;
+ * a :shortcode: with a matching 'emoji' tag is a custom emoji (NIP-30)
+ * @param event - Reaction event
+ * @returns The reaction's content, type and custom emoji image
+ */
+export function parseReaction(event: Pick<Event, 'content' | 'tags'>): ReactionGroup & { type: ReactionType } {
+  const content = event.content.trim() || '+';
+  if (content === '+') return { content, count: 1, type: 'like' };
+  if (content === '-') return { content, count: 1, type: 'dislike' };
   
-  const pool = new SimplePool();
-  const relayList = relays && relays.length > 0 ? relays : defaultRelays;
+  const shortcode = /^:([a-zA-Z0-9_]+):$/.exec(content)?.[1];
+  const emoji = shortcode ? getEmojiTags(event).find(tag => tag.shortcode === shortcode) : undefined;
   
-  const counts: ReactionCounts = {
-    likes: 0,
-    reposts: 0,
-    zaps: 0,
-    replies: 0
-  };
+  return { content, count: 1, type: 'emoji', ...(emoji ? { emojiUrl: emoji.url } : {}) };
+}
+
+/**
+ * Add a reaction to its group, keeping groups sorted by count
+ */
+function addReactionGroup(groups: ReactionGroup[], reaction: ReactionGroup): ReactionGroup[] {
+  const isSame = (group: ReactionGroup) => group.content === reaction.content && group.emojiUrl === reaction.emojiUrl;
+  const updated = groups.some(isSame)
+    ? groups.map(group => (isSame(group) ? { ...group, count: group.count + 1 } : group))
+    : [...groups, { content: reaction.content, count: 1, ...(reaction.emojiUrl ? { emojiUrl: reaction.emojiUrl } : {}) }];
+  return updated.sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Add an event referencing a note (reply, repost, reaction or zap) to its reaction counts
+ * Zap receipts that fail NIP-57 validation are ignored
+ * @param counts - Current counts
+ * @param event - Kind 1, 6, 7, 16 or 9735 event tagging the note
+ * @param zapProviderPubkey - The author's LNURL provider nostrPubkey, to check who signed zap receipts
+ * (zap receipts are ignored without it)
+ * @returns Updated counts (the input is not modified)
+ */
+export function applyActivityEvent(counts: ReactionCounts, event: Event, zapProviderPubkey?: string | null): ReactionCounts {
+  switch (event.kind) {
+    case 1:
+      return { ...counts, replies: counts.replies + 1 };
+    case 6:
+    case 16:
+      return { ...counts, reposts: counts.reposts + 1 };
+    case 7: {
+      const reaction = parseReaction(event);
+      if (reaction.type === 'like') return { ...counts, likes: counts.likes + 1 };
+      if (reaction.type === 'dislike') return { ...counts, dislikes: counts.dislikes + 1 };
+      return { ...counts, emojiReactions: addReactionGroup(counts.emojiReactions, reaction) };
+    }
+    case 9735: {
+      const zap = parseZapReceipt(event, zapProviderPubkey);
+      if (!zap) return counts;
+      
+      const zappers = new Map(counts.topZappers.map(zapper => [zapper.pubkey, zapper.sats]));
+      zappers.set(zap.senderPubkey, (zappers.get(zap.senderPubkey) || 0) + zap.amountSats);
+      
+      return {
+        ...counts,
+        zaps: counts.zaps + 1,
+        zapSats: counts.zapSats + zap.amountSats,
+        topZappers: Array.from(zappers, ([pubkey, sats]) => ({ pubkey, sats })).sort((a, b) => b.sats - a.sats)
+      };
+    }
+    default:
+      return counts;
+  }
+}
+
+/**
+ * Take an event back out of the reaction counts it was added to with applyActivityEvent,
+ * e.g. when its author deletes it
+ * @param counts - Current counts
+ * @param event - Kind 1, 6, 7, 16 or 9735 event that was counted
+ * @param zapProviderPubkey - The same provider key the event was counted with
+ * @returns Updated counts (the input is not modified)
+ */
+export function removeActivityEvent(counts: ReactionCounts, event: Event, zapProviderPubkey?: string | null): ReactionCounts {
+  switch (event.kind) {
+    case 1:
+      return { ...counts, replies: Math.max(0, counts.replies - 1) };
+    case 6:
+    case 16:
+      return { ...counts, reposts: Math.max(0, counts.reposts - 1) };
+    case 7: {
+      const reaction = parseReaction(event);
+      if (reaction.type === 'like') return { ...counts, likes: Math.max(0, counts.likes - 1) };
+      if (reaction.type === 'dislike') return { ...counts, dislikes: Math.max(0, counts.dislikes - 1) };
+      
+      const isSame = (group: ReactionGroup) => group.content === reaction.content && group.emojiUrl === reaction.emojiUrl;
+      return {
+        ...counts,
+        emojiReactions: counts.emojiReactions
+          .map(group => (isSame(group) ? { ...group, count: group.count - 1 } : group))
+          .filter(group => group.count > 0)
+      };
+    }
+    case 9735: {
+      const zap = parseZapReceipt(event, zapProviderPubkey);
+      if (!zap) return counts;
+      
+      return {
+        ...counts,
+        zaps: Math.max(0, counts.zaps - 1),
+        zapSats: Math.max(0, counts.zapSats - zap.amountSats),
+        topZappers: counts.topZappers
+          .map(zapper => (zapper.pubkey === zap.senderPubkey ? { ...zapper, sats: zapper.sats - zap.amountSats } : zapper))
+          .filter(zapper => zapper.sats > 0)
+          .sort((a, b) => b.sats - a.sats)
+      };
+    }
+    default:
+      return counts;
+  }
+}
+
+/**
+ * Filters for events tagging an event - by its ID, and for an addressable event
+ * (e.g. an article) also by its coordinate, which activity on every version tags
+ */
+function getTaggingFilters(filter: Filter, eventId: string, address?: string | null): Filter[] {
+  const byId = { ...filter, '#e': [eventId] };
+  return address ? [byId, { ...filter, '#a': [address] }] : [byId];
+}
+
+/**
+ * Fetch the replies, reposts, reactions and zap receipts on an event
+ * Events their authors have deleted are left out
+ * @param eventId - The event ID (hex string)
+ * @param relays - Optional array of relay URLs
+ * @param address - kind:pubkey:d-tag coordinate of an article, to include activity on any of its versions
+ * @returns The activity events, unvalidated (applyActivityEvent checks zap receipts)
+ */
+export async function fetchActivityEvents(eventId: string, relays?: string[], address?: string | null): Promise<Event[]> {
+  const relayList = relays && relays.length > 0 ? relays : getReadRelays();
   
   try {
-    // Fetch reactions (kind 7) and reposts (kind 6)
-    const reactionEvents = await pool.querySync(relayList, {
-      kinds: [7, 6],
-      '#e': [eventId]
-    });
-    
-    // Fetch replies (kind 1 with 'e' tag referencing this event)
-    const replyEvents = await pool.querySync(relayList, {
-      kinds: [1],
-      '#e': [eventId]
-    });
-    
-    // Fetch zaps (kind 9735)
-    const zapEvents = await pool.querySync(relayList, {
-      kinds: [9735],
-      '#e': [eventId]
-    });
-    
-    pool.close(relayList);
-    
-    // Count reactions
-    reactionEvents.forEach(event => {
-      if (event.kind === 7) {
-        const content = event.content.toLowerCase();
-        // Count likes (including +, ❤️, 👍, etc.)
-        if (content === '+' || content === '' || content.includes('❤️') || content.includes('👍')) {
-          counts.likes++;
-        }
-      } else if (event.kind === 6) {
-        counts.reposts++;
-      }
-    });
+    const results = await Promise.all([
+      // Reactions (kind 7) and reposts (kind 6, or 16 for other kinds)
+      ...getTaggingFilters({ kinds: [7, 6, 16] }, eventId, address),
+      // Replies (kind 1)
+      ...getTaggingFilters({ kinds: [1] }, eventId, address),
+      // Zap receipts (kind 9735)
+      ...getTaggingFilters({ kinds: [9735] }, eventId, address)
+    ].map(filter => queryEvents(relayList, filter)));
     
-    counts.replies = replyEvents.length;
-    counts.zaps = zapEvents.length;
+    // Activity tagging both the ID and the coordinate is found twice
+    const byId = new Map<string, Event>();
+    results.flat().forEach(event => byId.set(event.id, event));
     
-    return counts;
+    // Keep reactions, replies and zaps that haven't been deleted by their authors
+    return await filterDeletedEvents([...byId.values()], relayList);
   } catch (error) {
     console.error('Error fetching reactions:', error);
-    pool.close(relayList);
-    return counts;
+    return [];
   }
 }
 
+/**
+ * Fetch reactions to an event
+ * @param eventId - The event ID (hex string)
+ * @param relays - Optional array of relay URLs
+ * @param zapProviderPubkey - nostrPubkey of the author's LNURL provider; only zap
+ * receipts signed by it are counted, so zaps are left out when it isn't known
+ * @param address - kind:pubkey:d-tag coordinate of an article, to count activity on any of its versions
+ * @returns Reaction counts by type, with zapped sats and top zappers
+ */
+export async function fetchReactions(
+  eventId: string,
+  relays?: string[],
+  zapProviderPubkey?: string | null,
+  address?: string | null
+): Promise<ReactionCounts> {
+  const events = await fetchActivityEvents(eventId, relays, address);
+  return events.reduce(
+    (total, event) => applyActivityEvent(total, event, zapProviderPubkey),
+    getEmptyReactionCounts()
+  );
+}
+
 /**
  * Verify NIP-05 identifier
  * @param nip05 - The NIP-05 identifier (name@domain)
@@ -479,153 +985,1117 @@ export async function verifyNIP05(nip05: string, pubkey: string): Promise<boolea
 }
 
 /**
- * Default relays for publishing
+ * NIP-65 relay list (kind 10002)
  */
-const DEFAULT_PUBLISH_RELAYS = [
-  'wss://relay.damus.io',
-  'wss://relay.snort.social',
-  'wss://nos.lol'
-];
+export interface RelayList {
+  read: string[];
+  write: string[];
+}
+
+// Relay lists already fetched this session, keyed by pubkey
+const relayListCache = new Map<string, Promise<RelayList>>();
+
+// Cap on how many of an author's relays are added to a query
+const MAX_AUTHOR_RELAYS = 4;
 
 /**
- * Publish an event to Nostr relays
- * @param privateKeyHex - Hex-encoded private key for signing
- * @param content - Event content
- * @param kind - Event kind (default: 1 for text note)
- * @param tags - Event tags
- * @param relays - Optional custom relays to publish to
- * @returns The published event or null if failed
+ * Merge relay lists, dropping duplicates and keeping order
  */
-export async function publishEvent(
-  privateKeyHex: string,
+function mergeRelays(...lists: string[][]): string[] {
+  const merged: string[] = [];
+  lists.forEach(list => {
+    list.forEach(url => {
+      if (!merged.includes(url)) {
+        merged.push(url);
+      }
+    });
+  });
+  return merged;
+}
+
+/**
+ * Parse the 'r' tags of a kind 10002 event
+ * A tag without a marker means the relay is used for both read and write
+ * @param event - Kind 10002 relay list event
+ * @returns Read and write relay URLs
+ */
+export function parseRelayList(event: NostrEvent): RelayList {
+  const relayList: RelayList = { read: [], write: [] };
+  
+  event.tags.forEach(tag => {
+    if (tag[0] !== 'r' || !tag[1]?.startsWith('wss://')) return;
+    const marker = tag[2];
+    if (!marker || marker === 'read') relayList.read.push(tag[1]);
+    if (!marker || marker === 'write') relayList.write.push(tag[1]);
+  });
+  
+  return relayList;
+}
+
+/**
+ * Fetch an author's NIP-65 relay list
+ * Results are cached for the session; a missing list yields empty read/write arrays
+ * @param pubkey - Author's public key (hex)
+ * @param relays - Optional relays to look for the list on
+ * @returns The author's read and write relays (at most MAX_AUTHOR_RELAYS each)
+ */
+export async function fetchRelayList(pubkey: string, relays?: string[]): Promise<RelayList> {
+  const cached = relayListCache.get(pubkey);
+  if (cached) return cached;
+  
+  const relayList = relays && relays.length > 0 ? relays : getReadRelays();
+  
+  const request = getEvent(relayList, {
+    kinds: [10002],
+    authors: [pubkey]
+  })
+    .then(event => {
+      if (!event) return { read: [], write: [] };
+      const parsed = parseRelayList(event);
+      return {
+        read: parsed.read.slice(0, MAX_AUTHOR_RELAYS),
+        write: parsed.write.slice(0, MAX_AUTHOR_RELAYS)
+      };
+    })
+    .catch(error => {
+      console.error('Error fetching relay list:', error);
+      // Allow a retry on the next call
+      relayListCache.delete(pubkey);
+      return { read: [], write: [] };
+    });
+  
+  relayListCache.set(pubkey, request);
+  return request;
+}
+
+/**
+ * Publish the user's relay list as a NIP-65 kind 10002 event
+ * @param signer - Signer for the user's identity
+ * @param settings - The user's relay settings
+ * @returns The published event or null if failed
+ */
+export async function publishRelayList(
+  signer: NostrSigner,
+  settings: RelaySetting[]
+): Promise<Event | null> {
+  const tags: string[][] = settings
+    .filter(relay => relay.read || relay.write)
+    .map(relay => {
+      if (relay.read && relay.write) return ['r', relay.url];
+      return ['r', relay.url, relay.read ? 'read' : 'write'];
+    });
+  
+  // Announce the list on every configured relay, not only write relays
+  const relays = mergeRelays(getWriteRelays(), settings.map(relay => relay.url));
+  
+  return publishEvent(signer, '', 10002, tags, relays);
+}
+
+/**
+ * Publish an event to Nostr relays
+ * @param signer - Signer for the user's identity
+ * @param content - Event content
+ * @param kind - Event kind (default: 1 for text note)
+ * @param tags - Event tags
+ * @param relays - Optional custom relays to publish to
+ * @returns The published event or null if failed
+ */
+export async function publishEvent(
+  signer: NostrSigner,
   content: string,
   kind: number = 1,
   tags: string[][] = [],
   relays?: string[]
 ): Promise<Event | null> {
-  const pool = new SimplePool();
-  const relayList = relays && relays.length > 0 ? relays : DEFAULT_PUBLISH_RELAYS;
+  const relayList = relays && relays.length > 0 ? relays : getWriteRelays();
   
   try {
-    // Create and sign the event
-    const signedEvent = createSignedEvent(privateKeyHex, content, kind, tags);
+    // Sign the event with the user's signer (local key, extension, ...)
+    const signedEvent = await signer.signEvent({
+      kind,
+      created_at: Math.floor(Date.now() / 1000),
+      tags,
+      content
+    });
     
     // Publish to relays
-    await Promise.all(pool.publish(relayList, signedEvent));
+    await publishToRelays(relayList, signedEvent);
     
-    pool.close(relayList);
     return signedEvent;
   } catch (error) {
     console.error('Error publishing event:', error);
-    pool.close(relayList);
     return null;
   }
 }
 
 /**
- * Publish a reply to an event (kind 1 with 'e' and 'p' tags)
- * @param privateKeyHex - Hex-encoded private key
+ * Build NIP-10 tags for a reply to an event
+ * - Replying to a root note: one 'e' tag with the "root" marker
+ * - Replying to a reply: the thread's "root" tag plus a "reply" tag for the parent
+ * Every participant in the thread gets a 'p' tag, and 'e' tags carry a relay hint
+ * (where we received the event) and the author's pubkey
+ * @param target - Event being replied to
+ * @param userPubkey - Optional public key of the replier (left out of the 'p' tags)
+ * @returns Tags for the reply event
+ */
+export function buildReplyTags(
+  target: Pick<Event, 'id' | 'pubkey' | 'tags'>,
+  userPubkey?: string
+): string[][] {
+  const { root } = parseThread(target);
+  const targetHint = getSeenOnRelays(target.id)[0] || '';
+  const tags: string[][] = [];
+  
+  if (root && root.id !== target.id) {
+    const rootHint = root.relays?.[0] || getSeenOnRelays(root.id)[0] || '';
+    tags.push(root.author ? ['e', root.id, rootHint, 'root', root.author] : ['e', root.id, rootHint, 'root']);
+    tags.push(['e', target.id, targetHint, 'reply', target.pubkey]);
+  } else {
+    tags.push(['e', target.id, targetHint, 'root', target.pubkey]);
+  }
+  
+  // The parent's author first, then everyone it tagged
+  const participants = [
+    target.pubkey,
+    ...target.tags.filter(tag => tag[0] === 'p' && /^[0-9a-f]{64}$/.test(tag[1] || '')).map(tag => tag[1])
+  ];
+  [...new Set(participants)]
+    .filter(pubkey => pubkey !== userPubkey)
+    .forEach(pubkey => tags.push(['p', pubkey]));
+  
+  return tags;
+}
+
+/**
+ * Publish a reply to an event (kind 1 with NIP-10 'e' and 'p' tags)
+ * @param signer - Signer for the user's identity
  * @param content - Reply content
- * @param targetEventId - Event ID being replied to
- * @param targetPubkey - Public key of the author being replied to
+ * @param target - Event being replied to (a root note or another reply)
  * @param relays - Optional custom relays
  * @returns The published event or null if failed
  */
 export async function publishReply(
-  privateKeyHex: string,
+  signer: NostrSigner,
   content: string,
-  targetEventId: string,
-  targetPubkey: string,
+  target: Pick<Event, 'id' | 'pubkey' | 'tags'>,
   relays?: string[]
 ): Promise<Event | null> {
-  // Tags: ['e', event_id, recommended_relay_url, 'marker']
-  // Using 'reply' marker for top-level replies
-  const tags: string[][] = [
-    ['e', targetEventId, '', 'reply'],
-    ['p', targetPubkey]
-  ];
-  
-  return publishEvent(privateKeyHex, content, 1, tags, relays);
+  try {
+    const userPubkey = await signer.getPublicKey();
+    return publishEvent(signer, content, 1, buildReplyTags(target, userPubkey), relays);
+  } catch (error) {
+    console.error('Error publishing reply:', error);
+    return null;
+  }
 }
 
 /**
- * Publish a like reaction (kind 7)
- * @param privateKeyHex - Hex-encoded private key
- * @param targetEventId - Event ID being liked
- * @param targetPubkey - Public key of the author
+ * Publish a reaction (kind 7, NIP-25)
+ * @param signer - Signer for the user's identity
+ * @param target - Event being reacted to
+ * @param content - '+' (like), '-' (dislike) or an emoji
+ * @param emoji - Optional custom emoji (NIP-30); the content becomes its :shortcode:
  * @param relays - Optional custom relays
  * @returns The published event or null if failed
  */
-export async function publishLike(
-  privateKeyHex: string,
-  targetEventId: string,
-  targetPubkey: string,
+export async function publishReaction(
+  signer: NostrSigner,
+  target: Pick<Event, 'id' | 'pubkey'> & { kind?: number; tags?: string[][] },
+  content: string,
+  emoji?: CustomEmoji,
   relays?: string[]
 ): Promise<Event | null> {
-  // Kind 7 is for reactions, content is typically '+' or an emoji
+  const hint = getSeenOnRelays(target.id)[0] || '';
   const tags: string[][] = [
-    ['e', targetEventId],
-    ['p', targetPubkey]
+    ['e', target.id, hint, target.pubkey],
+    ['p', target.pubkey]
   ];
+  if (target.kind !== undefined) {
+    tags.push(['k', target.kind.toString()]);
+    // Addressable events (e.g. articles) are also referenced across versions
+    const address = target.tags ? getEventAddress({ kind: target.kind, pubkey: target.pubkey, tags: target.tags }) : null;
+    if (address) tags.push(['a', address, hint]);
+  }
+  if (emoji) {
+    tags.push(['emoji', emoji.shortcode, emoji.url]);
+  }
   
-  return publishEvent(privateKeyHex, '+', 7, tags, relays);
+  return publishEvent(signer, emoji ? `:${emoji.shortcode}:` : content, 7, tags, relays);
 }
 
 /**
- * Publish a bookmark/save (kind 30001 for generic bookmark list)
- * This creates a parameterized replaceable event for the user's bookmarks
- * @param privateKeyHex - Hex-encoded private key
- * @param targetEventId - Event ID being saved
- * @param existingBookmarks - Existing bookmarked event IDs to include
+ * Publish a repost (NIP-18) with the reposted event embedded as JSON
+ * Notes get a kind 6 repost; other kinds (e.g. articles) a kind 16 generic repost
+ * @param signer - Signer for the user's identity
+ * @param target - Event being reposted
  * @param relays - Optional custom relays
  * @returns The published event or null if failed
  */
-export async function publishBookmark(
-  privateKeyHex: string,
-  targetEventId: string,
-  existingBookmarks: string[] = [],
+export async function publishRepost(signer: NostrSigner, target: Event, relays?: string[]): Promise<Event | null> {
+  const { id, pubkey, created_at, kind, tags, content, sig } = target;
+  const hint = getSeenOnRelays(id)[0] || '';
+  const repostTags: string[][] = [
+    ['e', id, hint],
+    ['p', pubkey]
+  ];
+  if (kind !== 1) {
+    repostTags.push(['k', kind.toString()]);
+    const address = getEventAddress(target);
+    if (address) repostTags.push(['a', address, hint]);
+  }
+  
+  return publishEvent(
+    signer,
+    JSON.stringify({ id, pubkey, created_at, kind, tags, content, sig }),
+    kind === 1 ? 6 : 16,
+    repostTags,
+    relays
+  );
+}
+
+/**
+ * Get a nostr:nevent1... reference to an event for use in note content (NIP-21)
+ * @param target - Event being referenced
+ * @returns The URI, with a relay hint when we know where the event was seen
+ */
+export function getEventReference(target: Pick<Event, 'id' | 'pubkey' | 'kind'>): string {
+  const hint = getSeenOnRelays(target.id)[0];
+  return `nostr:${nip19.neventEncode({
+    id: target.id,
+    relays: hint ? [hint] : [],
+    author: target.pubkey,
+    kind: target.kind
+  })}`;
+}
+
+/**
+ * Publish a quote post (kind 1, NIP-18) - the user's comment followed by a reference to the quoted note
+ * @param signer - Signer for the user's identity
+ * @param content - The user's comment
+ * @param target - Event being quoted
+ * @param relays - Optional custom relays
+ * @returns The published event or null if failed
+ */
+export async function publishQuote(
+  signer: NostrSigner,
+  content: string,
+  target: Pick<Event, 'id' | 'pubkey' | 'kind'>,
   relays?: string[]
 ): Promise<Event | null> {
-  // Kind 30001 is for generic bookmark lists (parameterized replaceable)
-  // Tags include all bookmarked event IDs
   const tags: string[][] = [
-    ['d', 'bookmarks'], // identifier for the bookmark list
-    ...existingBookmarks.map(id => ['e', id]),
-    ['e', targetEventId]
+    ['q', target.id, getSeenOnRelays(target.id)[0] || '', target.pubkey],
+    ['p', target.pubkey]
   ];
   
-  return publishEvent(privateKeyHex, '', 30001, tags, relays);
+  return publishEvent(signer, `${content.trim()}\n\n${getEventReference(target)}`, 1, tags, relays);
+}
+
+/**
+ * A user's NIP-51 bookmark list (kind 10003)
+ * Entries are tags like ['e', <event id>, <relay hint>]; private entries are
+ * NIP-44 encrypted to the user's own key as a JSON tag array in the content
+ */
+export interface BookmarkList {
+  event: Event | null;          // Latest published list (null if the user has none)
+  publicTags: string[][];
+  privateTags: string[][];
+  isPrivateReadable: boolean;   // False when the content couldn't be decrypted (left as is on republish)
+}
+
+/**
+ * A bookmarked note
+ */
+export interface Bookmark {
+  id: string;
+  relays: string[];             // Relay hint from the list entry
+  isPrivate: boolean;
+}
+
+/**
+ * Get the bookmarked notes in a list, most recently added first
+ * @param list - The user's bookmark list
+ * @returns One entry per event ID (private wins if it's in both)
+ */
+export function getBookmarks(list: BookmarkList): Bookmark[] {
+  const bookmarks = new Map<string, Bookmark>();
+  
+  // NIP-51 appends new entries, so walk each half from the end
+  const collect = (tags: string[][], isPrivate: boolean) => {
+    [...tags].reverse()
+      .filter(tag => tag[0] === 'e' && /^[0-9a-f]{64}$/.test(tag[1] || ''))
+      .forEach(tag => {
+        if (!bookmarks.has(tag[1]) || isPrivate) {
+          bookmarks.set(tag[1], { id: tag[1], relays: tag[2] ? [tag[2]] : [], isPrivate });
+        }
+      });
+  };
+  collect(list.publicTags, false);
+  collect(list.privateTags, true);
+  
+  return Array.from(bookmarks.values());
 }
 
 /**
- * Fetch replies for an event
+ * Fetch a user's bookmark list, decrypting private entries when the signer can
+ * @param pubkey - The user's public key (hex)
+ * @param signer - Optional signer for the same user, to read private bookmarks
+ * @param relays - Optional custom relays
+ * @returns The bookmark list (empty if the user has none)
+ * @throws Error if none of the relays answered, so a missing list isn't mistaken for an empty one
+ */
+export async function fetchBookmarkList(pubkey: string, signer?: NostrSigner | null, relays?: string[]): Promise<BookmarkList> {
+  const relayList = relays && relays.length > 0 ? relays : mergeRelays(getWriteRelays(), getReadRelays());
+  
+  const event = await getLatestEvent(relayList, {
+    kinds: [10003],
+    authors: [pubkey]
+  });
+  if (!event) {
+    return { event: null, publicTags: [], privateTags: [], isPrivateReadable: true };
+  }
+  
+  const list: BookmarkList = {
+    event,
+    publicTags: event.tags,
+    privateTags: [],
+    isPrivateReadable: !event.content
+  };
+  
+  // Lists from older clients are NIP-04 encrypted (content ends with ?iv=...), which we can't read
+  if (event.content && signer?.nip44 && !event.content.includes('?iv=')) {
+    try {
+      const tags = JSON.parse(await signer.nip44.decrypt(pubkey, event.content));
+      if (Array.isArray(tags)) {
+        list.privateTags = tags.filter((tag): tag is string[] => Array.isArray(tag));
+        list.isPrivateReadable = true;
+      }
+    } catch (error) {
+      console.error('Error decrypting private bookmarks:', error);
+    }
+  }
+  
+  return list;
+}
+
+/**
+ * Fetch the user's latest bookmark list, apply a change and republish it
+ * Starting from what's on relays keeps entries saved from other clients, so
+ * nothing is published when the list can't be fetched
+ * @param signer - Signer for the user's identity
+ * @param update - Returns the new public and private tags, and whether private ones changed
+ * @param relays - Optional custom relays
+ * @returns The published list or null if failed
+ */
+async function updateBookmarkList(
+  signer: NostrSigner,
+  update: (list: BookmarkList) => { publicTags: string[][]; privateTags: string[][]; privateChanged: boolean },
+  relays?: string[]
+): Promise<BookmarkList | null> {
+  try {
+    const pubkey = await signer.getPublicKey();
+    const current = await fetchBookmarkList(pubkey, signer);
+    const { publicTags, privateTags, privateChanged } = update(current);
+    
+    let content = current.event?.content || '';
+    if (privateChanged) {
+      if (!signer.nip44) {
+        throw new Error('Your signer cannot encrypt private bookmarks');
+      }
+      if (!current.isPrivateReadable) {
+        throw new Error('Your existing private bookmarks could not be decrypted');
+      }
+      content = privateTags.length > 0 ? await signer.nip44.encrypt(pubkey, JSON.stringify(privateTags)) : '';
+    }
+    
+    const event = await publishEvent(signer, content, 10003, publicTags, relays);
+    if (!event) return null;
+    
+    return {
+      event,
+      publicTags,
+      privateTags: current.isPrivateReadable ? privateTags : [],
+      isPrivateReadable: current.isPrivateReadable
+    };
+  } catch (error) {
+    console.error('Error updating bookmarks:', error);
+    return null;
+  }
+}
+
+/**
+ * Bookmark a note in the user's NIP-51 list (moving it if saved with the other visibility)
+ * @param signer - Signer for the user's identity
+ * @param eventId - Event ID being saved
+ * @param isPrivate - Encrypt the entry so only the user can see it
+ * @param relays - Optional custom relays
+ * @returns The published list or null if failed
+ */
+export async function addBookmark(
+  signer: NostrSigner,
+  eventId: string,
+  isPrivate: boolean = false,
+  relays?: string[]
+): Promise<BookmarkList | null> {
+  const hint = getSeenOnRelays(eventId)[0];
+  const entry = hint ? ['e', eventId, hint] : ['e', eventId];
+  const isOther = (tag: string[]) => !(tag[0] === 'e' && tag[1] === eventId);
+  
+  return updateBookmarkList(signer, (list) => {
+    const inPrivate = list.privateTags.some(tag => !isOther(tag));
+    return {
+      publicTags: [...list.publicTags.filter(isOther), ...(isPrivate ? [] : [entry])],
+      privateTags: [...list.privateTags.filter(isOther), ...(isPrivate ? [entry] : [])],
+      privateChanged: isPrivate || inPrivate
+    };
+  }, relays);
+}
+
+/**
+ * Remove a note from the user's NIP-51 bookmark list
+ * @param signer - Signer for the user's identity
+ * @param eventId - Event ID being removed
+ * @param relays - Optional custom relays
+ * @returns The published list or null if failed
+ */
+export async function removeBookmark(signer: NostrSigner, eventId: string, relays?: string[]): Promise<BookmarkList | null> {
+  const isOther = (tag: string[]) => !(tag[0] === 'e' && tag[1] === eventId);
+  
+  return updateBookmarkList(signer, (list) => ({
+    publicTags: list.publicTags.filter(isOther),
+    privateTags: list.privateTags.filter(isOther),
+    privateChanged: list.privateTags.some(tag => !isOther(tag))
+  }), relays);
+}
+
+// Number of replies fetched per page of a thread
+export const REPLIES_PAGE_SIZE = 50;
+
+// Levels of replies-to-replies looked up below each page, and reply IDs per query
+const NESTED_REPLY_DEPTH = 8;
+const NESTED_REPLY_QUERY_CHUNK = 200;
+
+/**
+ * One page of replies to an event
+ */
+export interface ReplyPage {
+  replies: Event[];      // Newest first
+  until: number | null;  // Timestamp to fetch the next page from, or null once every relay has run out
+}
+
+/**
+ * Fetch replies for an event, a page at a time
+ * When the author is known, also queries the author's NIP-65 relays
+ * Each relay returns its own page, so the next page starts at the newest of
+ * the full pages' oldest replies; older replies from the other relays are
+ * left for that page rather than skipping past replies the slower relays
+ * haven't returned yet. Replies to the page's replies are fetched along with it
  * @param eventId - The event ID to fetch replies for
  * @param relays - Optional custom relays
- * @returns Array of reply events
+ * @param authorPubkey - Optional public key (hex) of the event's author
+ * @param until - Optional timestamp to page back from (only replies at or before it)
+ * @param address - kind:pubkey:d-tag coordinate of an article, to include replies to any of its versions
+ * @returns Replies and the cursor for the next page
  */
-export async function fetchReplies(eventId: string, relays?: string[]): Promise<Event[]> {
-  const defaultRelays = [
-    'wss://relay.damus.io',
-    'wss://relay.snort.social',
-    'wss://nos.lol'
-  ];
+export async function fetchReplies(
+  eventId: string,
+  relays?: string[],
+  authorPubkey?: string,
+  until?: number,
+  address?: string | null
+): Promise<ReplyPage> {
+  let relayList = relays && relays.length > 0 ? relays : getReadRelays();
+  
+  try {
+    if (authorPubkey) {
+      // Replies are published to the author's read (inbox) relays, and the
+      // author's own replies in the thread live on their write relays
+      const authorRelays = await fetchRelayList(authorPubkey, relayList);
+      relayList = mergeRelays(relayList, authorRelays.write, authorRelays.read);
+    }
+    
+    // Replies by ID and by an article's coordinate page separately, like two more relays
+    const filter = { kinds: [1], limit: REPLIES_PAGE_SIZE, ...(until !== undefined ? { until } : {}) };
+    const pages = (await Promise.all(
+      getTaggingFilters(filter, eventId, address).map(tagFilter => queryEventsByRelay(relayList, tagFilter, true))
+    )).flat();
+    
+    // Only relays that filled their page may have more
+    const fullPages = pages.filter(page => page.length >= REPLIES_PAGE_SIZE);
+    const nextUntil = fullPages.length > 0
+      ? Math.max(...fullPages.map(page => Math.min(...page.map(reply => reply.created_at))))
+      : null;
+    
+    const byId = new Map<string, Event>();
+    pages.flat()
+      .filter(reply => nextUntil === null || reply.created_at >= nextUntil)
+      .forEach(reply => byId.set(reply.id, reply));
+    await fetchNestedReplies(relayList, [...byId.keys()], byId);
+    const visibleReplies = await filterDeletedEvents([...byId.values()], relayList);
+    
+    // Sort by created_at descending (newest first)
+    return {
+      replies: visibleReplies.sort((a, b) => b.created_at - a.created_at),
+      until: nextUntil
+    };
+  } catch (error) {
+    console.error('Error fetching replies:', error);
+    return { replies: [], until: null };
+  }
+}
+
+/**
+ * Fetch replies to replies, level by level, adding them to the found replies
+ * Deeper replies in a thread tag the thread's root and their parent, so when the
+ * previewed note is itself a reply its nested replies don't tag it
+ * @param relays - Relay URLs to query
+ * @param parentIds - IDs of the replies to look below
+ * @param found - Replies found so far by ID; new replies are added to it
+ */
+async function fetchNestedReplies(relays: string[], parentIds: string[], found: Map<string, Event>): Promise<void> {
+  let parents = parentIds;
+  for (let depth = 0; depth < NESTED_REPLY_DEPTH && parents.length > 0; depth++) {
+    const chunks: string[][] = [];
+    for (let i = 0; i < parents.length; i += NESTED_REPLY_QUERY_CHUNK) {
+      chunks.push(parents.slice(i, i + NESTED_REPLY_QUERY_CHUNK));
+    }
+    const results = await Promise.all(chunks.map(ids => queryEventsByRelay(relays, { kinds: [1], '#e': ids }, true)));
+    
+    parents = [];
+    results.flat(2).forEach(reply => {
+      if (!found.has(reply.id)) {
+        found.set(reply.id, reply);
+        parents.push(reply.id);
+      }
+    });
+  }
+}
+
+/**
+ * A reply in a conversation thread with its nested replies
+ */
+export interface ThreadNode {
+  event: Event;
+  children: ThreadNode[];
+}
+
+/**
+ * Get the ID of the event a reply responds to (NIP-10)
+ * Uses the "reply"/"root" markers, falling back to positional e tags
+ * (last e tag is the parent, first is the root) for older clients
+ * @param event - Reply event
+ * @returns Parent event ID or null if the event doesn't reply to anything
+ */
+export function getReplyParentId(event: Pick<Event, 'tags'>): string | null {
+  const { root, reply } = parseThread(event);
+  return reply?.id || root?.id || null;
+}
+
+/**
+ * Build a reply tree for a thread
+ * Replies whose parent isn't in the list (not fetched yet, or deleted) are shown at the top level
+ * @param rootId - ID of the event the thread belongs to
+ * @param replies - Replies to the event, in any order
+ * @returns Top-level replies, each with nested children, oldest first
+ */
+export function buildReplyTree(rootId: string, replies: Event[]): ThreadNode[] {
+  const nodes = new Map<string, ThreadNode>();
+  for (const event of replies) {
+    if (event.id !== rootId && !nodes.has(event.id)) {
+      nodes.set(event.id, { event, children: [] });
+    }
+  }
+  
+  const topLevel: ThreadNode[] = [];
+  for (const node of nodes.values()) {
+    const parentId = getReplyParentId(node.event);
+    const parent = parentId && parentId !== node.event.id ? nodes.get(parentId) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      topLevel.push(node);
+    }
+  }
+  
+  // Read conversations top to bottom
+  const sortNodes = (list: ThreadNode[]) => {
+    list.sort((a, b) => a.event.created_at - b.event.created_at);
+    list.forEach(node => sortNodes(node.children));
+  };
+  sortNodes(topLevel);
   
-  const pool = new SimplePool();
-  const relayList = relays && relays.length > 0 ? relays : defaultRelays;
+  return topLevel;
+}
+
+/**
+ * Count all replies below a thread node
+ */
+export function countThreadReplies(node: ThreadNode): number {
+  return node.children.reduce((total, child) => total + 1 + countThreadReplies(child), 0);
+}
+
+/**
+ * Fetch profile metadata (kind 0) for several authors in one query
+ * @param pubkeys - Public keys (hex) of the authors
+ * @param relays - Optional custom relays
+ * @returns Profiles keyed by public key (authors without a profile are left out)
+ */
+export async function fetchProfiles(pubkeys: string[], relays?: string[]): Promise<Record<string, ProfileData>> {
+  const relayList = relays && relays.length > 0 ? mergeRelays(relays, getReadRelays()) : getReadRelays();
+  const profiles: Record<string, ProfileData> = {};
+  const authors = [...new Set(pubkeys)];
+  if (authors.length === 0) return profiles;
   
   try {
-    const replyEvents = await pool.querySync(relayList, {
+    const events = await queryEvents(relayList, {
+      kinds: [0],
+      authors
+    });
+    
+    // Keep the newest metadata event per author
+    const latest = new Map<string, Event>();
+    for (const event of events) {
+      const current = latest.get(event.pubkey);
+      if (!current || event.created_at > current.created_at) {
+        latest.set(event.pubkey, event);
+      }
+    }
+    
+    for (const [pubkey, event] of latest) {
+      try {
+        profiles[pubkey] = JSON.parse(event.content) as ProfileData;
+      } catch {
+        // Skip malformed metadata
+      }
+    }
+  } catch (error) {
+    console.error('Error fetching profiles:', error);
+  }
+  
+  return profiles;
+}
+
+// Number of recent notes shown on a profile preview
+export const PROFILE_NOTES_LIMIT = 20;
+
+// Most kind-3 lists fetched when counting followers; larger counts are shown as "N+"
+export const FOLLOWER_QUERY_LIMIT = 1000;
+
+/**
+ * Follower and following counts from kind-3 contact lists (NIP-02)
+ */
+export interface FollowCounts {
+  following: number;
+  followers: number;        // Distinct authors whose contact list includes the user, as seen on the queried relays
+  followersCapped: boolean; // True when the follower query hit FOLLOWER_QUERY_LIMIT
+}
+
+/**
+ * Fetch an author's recent notes (kind 1, not replies), using their NIP-65 relays
+ * @param pubkey - Author's public key (hex)
+ * @param relays - Optional relay hints
+ * @returns Up to PROFILE_NOTES_LIMIT notes, newest first
+ */
+export async function fetchAuthorNotes(pubkey: string, relays?: string[]): Promise<Event[]> {
+  const baseRelays = mergeRelays(relays || [], getReadRelays());
+  
+  try {
+    const authorRelays = await fetchRelayList(pubkey, baseRelays);
+    const relayList = mergeRelays(baseRelays, authorRelays.write);
+    
+    const events = await queryEvents(relayList, {
       kinds: [1],
-      '#e': [eventId]
+      authors: [pubkey],
+      limit: PROFILE_NOTES_LIMIT
     });
+    const notes = await filterDeletedEvents(events.filter(event => !getReplyParentId(event)), relayList);
+    return notes.sort((a, b) => b.created_at - a.created_at).slice(0, PROFILE_NOTES_LIMIT);
+  } catch (error) {
+    console.error('Error fetching author notes:', error);
+    return [];
+  }
+}
+
+/**
+ * Fetch a user's latest contact list (kind 3)
+ * @param pubkey - The user's public key (hex)
+ * @param relays - Optional custom relays
+ * @returns The contact list event, or null if the user has none
+ * @throws Error if none of the relays answered, so a missing list isn't mistaken for an empty one
+ */
+export async function fetchContactList(pubkey: string, relays?: string[]): Promise<Event | null> {
+  const relayList = relays && relays.length > 0 ? relays : mergeRelays(getWriteRelays(), getReadRelays());
+  return getLatestEvent(relayList, {
+    kinds: [3],
+    authors: [pubkey]
+  });
+}
+
+/**
+ * Get the public keys followed in a contact list
+ */
+export function getFollowedPubkeys(contactList: Pick<Event, 'tags'> | null): string[] {
+  if (!contactList) return [];
+  return [...new Set(
+    contactList.tags
+      .filter(tag => tag[0] === 'p' && /^[0-9a-f]{64}$/.test(tag[1] || ''))
+      .map(tag => tag[1])
+  )];
+}
+
+/**
+ * Count who an author follows and who follows them
+ * @param pubkey - Author's public key (hex)
+ * @param relays - Optional relay hints
+ * @returns Following and follower counts
+ */
+export async function fetchFollowCounts(pubkey: string, relays?: string[]): Promise<FollowCounts> {
+  const relayList = mergeRelays(relays || [], getReadRelays());
+  
+  try {
+    const [contactList, followerLists] = await Promise.all([
+      fetchContactList(pubkey, relayList),
+      queryEvents(relayList, {
+        kinds: [3],
+        '#p': [pubkey],
+        limit: FOLLOWER_QUERY_LIMIT
+      })
+    ]);
+    
+    return {
+      following: getFollowedPubkeys(contactList).length,
+      followers: new Set(followerLists.map(event => event.pubkey)).size,
+      followersCapped: followerLists.length >= FOLLOWER_QUERY_LIMIT
+    };
+  } catch (error) {
+    console.error('Error fetching follow counts:', error);
+    return { following: 0, followers: 0, followersCapped: false };
+  }
+}
+
+/**
+ * Follow or unfollow someone by republishing the user's contact list (kind 3, NIP-02)
+ * Starts from the latest list on relays, so follows made in other clients and the
+ * list's content (relay settings some clients keep there) are preserved; nothing is
+ * published when the list can't be fetched
+ * @param signer - Signer for the user's identity
+ * @param pubkey - Public key (hex) to follow or unfollow
+ * @param follow - True to follow, false to unfollow
+ * @param relays - Optional custom relays
+ * @returns The published contact list or null if failed
+ */
+export async function publishFollow(
+  signer: NostrSigner,
+  pubkey: string,
+  follow: boolean,
+  relays?: string[]
+): Promise<Event | null> {
+  try {
+    const userPubkey = await signer.getPublicKey();
+    // Throws rather than returning null when no relay answered, which would wipe the list
+    const current = await fetchContactList(userPubkey);
     
-    pool.close(relayList);
+    const tags = (current?.tags || []).filter(tag => !(tag[0] === 'p' && tag[1] === pubkey));
+    if (follow) {
+      tags.push(['p', pubkey]);
+    }
     
-    // Sort by created_at descending (newest first)
-    return replyEvents.sort((a, b) => b.created_at - a.created_at);
+    return publishEvent(signer, current?.content || '', 3, tags, relays);
   } catch (error) {
-    console.error('Error fetching replies:', error);
-    pool.close(relayList);
+    console.error('Error updating follows:', error);
+    return null;
+  }
+}
+
+// Kinds streamed while a note is open: replies, reposts, reactions and zap receipts
+export const ACTIVITY_KINDS = [1, 6, 7, 16, 9735];
+
+// Wait this long after new activity arrives before watching it for deletions, to batch subscriptions
+const DELETION_WATCH_DELAY_MS = 1000;
+
+/**
+ * Options for subscribeToEventActivity
+ */
+export interface EventActivityOptions {
+  relays?: string[];        // Custom relays
+  authorPubkey?: string;    // The event's author (hex), to also listen on their NIP-65 relays
+  address?: string | null;  // An article's kind:pubkey:d-tag coordinate, to also stream activity on other versions
+  since?: number;           // Only stream events from this time on (defaults to now) - pass the
+                            // time the initial fetch started so nothing published meanwhile is missed
+  knownEvents?: Pick<Event, 'id' | 'pubkey'>[];  // Activity already fetched, watched for deletions
+}
+
+/**
+ * Watches activity events for NIP-09 deletions by their authors
+ */
+interface DeletionWatcher {
+  add: (event: Pick<Event, 'id' | 'pubkey'>) => boolean;  // Returns false if the event was already watched
+  start: (relays: string[]) => void;  // Subscribe for the events added so far, and later ones shortly after they're added
+  close: () => void;
+}
+
+/**
+ * Watch events for deletions, batching the kind-5 subscriptions as events are added
+ * @param onDelete - Called with the ID of a watched event its author deleted
+ */
+function createDeletionWatcher(onDelete: (eventId: string) => void): DeletionWatcher {
+  const authors = new Map<string, string>();
+  const closers: (() => void)[] = [];
+  let relayList: string[] | null = null;
+  let pending: string[] = [];
+  let watchTimer: ReturnType<typeof setTimeout> | null = null;
+  
+  // Only deletions signed by the event's own author count
+  const handleDeletion = (deletion: Event) => {
+    deletion.tags.forEach(tag => {
+      if (tag[0] === 'e' && authors.get(tag[1]) === deletion.pubkey) {
+        authors.delete(tag[1]);
+        onDelete(tag[1]);
+      }
+    });
+  };
+  
+  // Subscribe to deletions of the events that started being watched since the last call
+  const watchPending = () => {
+    watchTimer = null;
+    if (!relayList) return;
+    for (let i = 0; i < pending.length; i += DELETION_QUERY_CHUNK) {
+      closers.push(subscribeEvents(relayList, { kinds: [5], '#e': pending.slice(i, i + DELETION_QUERY_CHUNK) }, handleDeletion));
+    }
+    pending = [];
+  };
+  
+  return {
+    add: (event) => {
+      if (authors.has(event.id)) return false;
+      authors.set(event.id, event.pubkey);
+      pending.push(event.id);
+      if (relayList && !watchTimer) watchTimer = setTimeout(watchPending, DELETION_WATCH_DELAY_MS);
+      return true;
+    },
+    start: (relays) => {
+      relayList = relays;
+      watchPending();
+    },
+    close: () => {
+      if (watchTimer) clearTimeout(watchTimer);
+      closers.forEach(close => close());
+    }
+  };
+}
+
+/**
+ * Subscribe to new replies, reposts, reactions and zaps on an event
+ * Activity is also watched for NIP-09 deletions by its authors, both the known
+ * events and each one that streams in (a deletion may already be on the relays)
+ * @param eventId - The event ID to watch
+ * @param onEvent - Called for each new event (may repeat an event already fetched - dedupe by id)
+ * @param onDelete - Called with the ID of a watched event its author deleted
+ * @param options - Relays, author, start time and the already fetched activity
+ * @returns Function that closes the subscriptions
+ */
+export function subscribeToEventActivity(
+  eventId: string,
+  onEvent: (event: Event) => void,
+  onDelete: (eventId: string) => void,
+  options: EventActivityOptions = {}
+): () => void {
+  const { relays, authorPubkey, address, knownEvents = [] } = options;
+  const baseRelays = relays && relays.length > 0 ? mergeRelays(relays, getReadRelays()) : getReadRelays();
+  const since = options.since ?? Math.floor(Date.now() / 1000);
+  const deletions = createDeletionWatcher(onDelete);
+  const closers: (() => void)[] = [];
+  let relayList = baseRelays;
+  let isClosed = false;
+  knownEvents.forEach(deletions.add);
+  
+  const handleEvent = (event: Event) => {
+    deletions.add(event);
+    onEvent(event);
+  };
+  
+  const open = async () => {
+    if (authorPubkey) {
+      const authorRelays = await fetchRelayList(authorPubkey, baseRelays);
+      relayList = mergeRelays(relayList, authorRelays.write, authorRelays.read);
+    }
+    
+    // The caller may have left the page while the relay list loaded
+    if (isClosed) return;
+    getTaggingFilters({ kinds: ACTIVITY_KINDS, since }, eventId, address).forEach(filter => {
+      closers.push(subscribeEvents(relayList, filter, handleEvent));
+    });
+    deletions.start(relayList);
+  };
+  
+  open().catch(error => console.error('Error subscribing to event activity:', error));
+  
+  return () => {
+    isClosed = true;
+    deletions.close();
+    closers.forEach(close => close());
+  };
+}
+
+/**
+ * Update the counts of each tracked event an activity event tags
+ */
+function updateTaggedCounts(
+  counts: Record<string, ReactionCounts>,
+  event: Event,
+  update: (counts: ReactionCounts, eventId: string) => ReactionCounts
+): Record<string, ReactionCounts> {
+  const targets = new Set(event.tags.filter(tag => tag[0] === 'e' && tag[1] in counts).map(tag => tag[1]));
+  if (targets.size === 0) return counts;
+  
+  const updated = { ...counts };
+  targets.forEach(id => {
+    updated[id] = update(updated[id], id);
+  });
+  return updated;
+}
+
+/**
+ * Count a reply, repost, reaction or zap against each of the tracked events it tags
+ * @param counts - Reaction counts keyed by event ID; only these events are counted
+ * @param event - The activity event
+ * @param zapProviders - LNURL provider nostrPubkey of each event's author, keyed by event ID;
+ * zap receipts are only counted for events whose provider is known
+ * @returns Updated counts (unchanged if the event tags none of them)
+ */
+export function applyActivityToEvents(
+  counts: Record<string, ReactionCounts>,
+  event: Event,
+  zapProviders: Record<string, string | null> = {}
+): Record<string, ReactionCounts> {
+  return updateTaggedCounts(counts, event, (eventCounts, id) => applyActivityEvent(eventCounts, event, zapProviders[id]));
+}
+
+/**
+ * Take an activity event back out of the counts it was added to with applyActivityToEvents
+ * @param counts - Reaction counts keyed by event ID
+ * @param event - The activity event that was counted
+ * @param zapProviders - The same provider keys the event was counted with
+ * @returns Updated counts (the input is not modified)
+ */
+export function removeActivityFromEvents(
+  counts: Record<string, ReactionCounts>,
+  event: Event,
+  zapProviders: Record<string, string | null> = {}
+): Record<string, ReactionCounts> {
+  return updateTaggedCounts(counts, event, (eventCounts, id) => removeActivityEvent(eventCounts, event, zapProviders[id]));
+}
+
+/**
+ * Fetch the replies, reposts, reactions and zap receipts on several events in one query (link gallery)
+ * Events their authors have deleted are left out
+ * @param eventIds - Event IDs (hex)
+ * @param relays - Optional custom relays
+ * @returns The activity events, unvalidated (applyActivityToEvents checks zap receipts)
+ */
+export async function fetchActivityForEvents(eventIds: string[], relays?: string[]): Promise<Event[]> {
+  if (eventIds.length === 0) return [];
+  const relayList = relays && relays.length > 0 ? mergeRelays(relays, getReadRelays()) : getReadRelays();
+  
+  try {
+    const events = await queryEvents(relayList, {
+      kinds: ACTIVITY_KINDS,
+      '#e': [...new Set(eventIds)]
+    });
+    return await filterDeletedEvents(events, relayList);
+  } catch (error) {
+    console.error('Error fetching activity:', error);
+    return [];
+  }
+}
+
+/**
+ * Subscribe to new replies, reposts, reactions and zaps on several events at once
+ * Activity is watched for NIP-09 deletions by its authors, like subscribeToEventActivity
+ * @param eventIds - Event IDs (hex) to watch
+ * @param onEvent - Called for each new event (may repeat an event already fetched - dedupe by id)
+ * @param onDelete - Called with the ID of a watched event its author deleted
+ * @param options - Relays, start time and the already fetched activity
+ * @returns Function that closes the subscriptions
+ */
+export function subscribeToEventsActivity(
+  eventIds: string[],
+  onEvent: (event: Event) => void,
+  onDelete: (eventId: string) => void,
+  options: Pick<EventActivityOptions, 'relays' | 'since' | 'knownEvents'> = {}
+): () => void {
+  if (eventIds.length === 0) return () => {};
+  
+  const { relays, knownEvents = [] } = options;
+  const relayList = relays && relays.length > 0 ? mergeRelays(relays, getReadRelays()) : getReadRelays();
+  const deletions = createDeletionWatcher(onDelete);
+  knownEvents.forEach(deletions.add);
+  
+  const close = subscribeEvents(relayList, {
+    kinds: ACTIVITY_KINDS,
+    '#e': [...new Set(eventIds)],
+    since: options.since ?? Math.floor(Date.now() / 1000)
+  }, (event) => {
+    deletions.add(event);
+    onEvent(event);
+  });
+  deletions.start(relayList);
+  
+  return () => {
+    deletions.close();
+    close();
+  };
+}
+
+/**
+ * Fetch user's own reactions to a specific event from the network
+ * @param eventId - The event ID to check reactions for
+ * @param userPubkey - The user's public key
+ * @param relays - Optional custom relays
+ * @returns The user's kind-7 reactions to the event
+ */
+export async function fetchUserReactions(
+  eventId: string, 
+  userPubkey: string, 
+  relays?: string[]
+): Promise<Event[]> {
+  const relayList = relays && relays.length > 0 ? relays : getReadRelays();
+  
+  try {
+    const reactionEvents = await queryEvents(relayList, {
+      kinds: [7],
+      authors: [userPubkey],
+      '#e': [eventId]
+    });
+    return await filterDeletedEvents(reactionEvents, relayList);
+  } catch (error) {
+    console.error('Error fetching user reactions:', error);
+    return [];
+  }
+}
+
+/**
+ * Fetch user's own reposts (kind 6 or 16) of a specific event from the network
+ * @param eventId - The event ID to check reposts for
+ * @param userPubkey - The user's public key
+ * @param relays - Optional custom relays
+ * @returns The user's reposts that haven't been deleted
+ */
+export async function fetchUserReposts(
+  eventId: string,
+  userPubkey: string,
+  relays?: string[]
+): Promise<Event[]> {
+  const relayList = relays && relays.length > 0 ? relays : getReadRelays();
+  
+  try {
+    const reposts = await queryEvents(relayList, {
+      kinds: [6, 16],
+      authors: [userPubkey],
+      '#e': [eventId]
+    });
+    return await filterDeletedEvents(reposts, relayList);
+  } catch (error) {
+    console.error('Error fetching user reposts:', error);
     return [];
   }
 }
@@ -642,34 +2112,49 @@ export async function fetchUserLikedEvent(
   userPubkey: string, 
   relays?: string[]
 ): Promise<boolean> {
-  const defaultRelays = [
-    'wss://relay.damus.io',
-    'wss://relay.snort.social',
-    'wss://nos.lol'
-  ];
-  
-  const pool = new SimplePool();
-  const relayList = relays && relays.length > 0 ? relays : defaultRelays;
+  const reactionEvents = await fetchUserReactions(eventId, userPubkey, relays);
+  return reactionEvents.some(event => parseReaction(event).type === 'like');
+}
+
+/**
+ * Fetch a user's custom emoji (NIP-30 / NIP-51 kind 10030 emoji list)
+ * Includes emoji listed directly and those in referenced kind-30030 emoji sets
+ * @param pubkey - The user's public key
+ * @param relays - Optional custom relays
+ * @returns The user's custom emoji, one per shortcode
+ */
+export async function fetchUserEmojis(pubkey: string, relays?: string[]): Promise<CustomEmoji[]> {
+  const relayList = relays && relays.length > 0 ? relays : getReadRelays();
   
   try {
-    // Fetch kind 7 reactions by this user for this event
-    const reactionEvents = await pool.querySync(relayList, {
-      kinds: [7],
-      authors: [userPubkey],
-      '#e': [eventId]
+    const list = await getEvent(relayList, {
+      kinds: [10030],
+      authors: [pubkey]
     });
+    if (!list) return [];
+    
+    // Referenced sets look like ['a', '30030:<pubkey>:<d tag>']
+    const setPointers = list.tags
+      .filter(tag => tag[0] === 'a' && tag[1]?.startsWith('30030:'))
+      .map(tag => tag[1].split(':'))
+      .filter(parts => parts.length >= 3 && /^[0-9a-f]{64}$/.test(parts[1]));
     
-    pool.close(relayList);
+    const sets = setPointers.length > 0
+      ? await queryEvents(relayList, {
+          kinds: [30030],
+          authors: [...new Set(setPointers.map(parts => parts[1]))],
+          '#d': setPointers.map(parts => parts.slice(2).join(':'))
+        })
+      : [];
     
-    // Check if any reaction is a like
-    return reactionEvents.some(event => {
-      const content = event.content.toLowerCase();
-      return content === '+' || content === '' || content.includes('❤️') || content.includes('👍');
+    const emojis = new Map<string, CustomEmoji>();
+    [list, ...sets].flatMap(getEmojiTags).forEach(emoji => {
+      if (!emojis.has(emoji.shortcode)) emojis.set(emoji.shortcode, emoji);
     });
+    return Array.from(emojis.values());
   } catch (error) {
-    console.error('Error fetching user likes:', error);
-    pool.close(relayList);
-    return false;
+    console.error('Error fetching custom emoji:', error);
+    return [];
   }
 }
 
@@ -685,29 +2170,96 @@ export async function fetchUserReplies(
   userPubkey: string, 
   relays?: string[]
 ): Promise<Event[]> {
-  const defaultRelays = [
-    'wss://relay.damus.io',
-    'wss://relay.snort.social',
-    'wss://nos.lol'
-  ];
-  
-  const pool = new SimplePool();
-  const relayList = relays && relays.length > 0 ? relays : defaultRelays;
+  const relayList = relays && relays.length > 0 ? relays : getReadRelays();
   
   try {
-    const replyEvents = await pool.querySync(relayList, {
+    const replyEvents = await queryEvents(relayList, {
       kinds: [1],
       authors: [userPubkey],
       '#e': [eventId]
     });
-    
-    pool.close(relayList);
+    const visibleReplies = await filterDeletedEvents(replyEvents, relayList);
     
     // Sort by created_at descending (newest first)
-    return replyEvents.sort((a, b) => b.created_at - a.created_at);
+    return visibleReplies.sort((a, b) => b.created_at - a.created_at);
   } catch (error) {
     console.error('Error fetching user replies:', error);
-    pool.close(relayList);
     return [];
   }
 }
+
+// Event IDs per deletion lookup, to keep relay filters a reasonable size
+const DELETION_QUERY_CHUNK = 200;
+
+/**
+ * Publish a deletion request (kind 5, NIP-09) for the user's own events
+ * @param signer - Signer for the user's identity
+ * @param events - The user's events to delete
+ * @param reason - Optional reason shown by clients
+ * @param relays - Optional custom relays
+ * @returns The published deletion or null if failed
+ */
+export async function publishDeletion(
+  signer: NostrSigner,
+  events: Pick<Event, 'id' | 'kind'>[],
+  reason: string = '',
+  relays?: string[]
+): Promise<Event | null> {
+  if (events.length === 0) return null;
+  
+  const tags: string[][] = [
+    ...events.map(event => ['e', event.id]),
+    ...[...new Set(events.map(event => event.kind))].map(kind => ['k', kind.toString()])
+  ];
+  
+  return publishEvent(signer, reason, 5, tags, relays);
+}
+
+/**
+ * Fetch which events have been deleted by their authors (NIP-09)
+ * Only deletions signed by the same key as the event count
+ * @param events - Events to check
+ * @param relays - Optional custom relays
+ * @returns IDs of the deleted events
+ */
+export async function fetchDeletedEventIds(events: Pick<Event, 'id' | 'pubkey'>[], relays?: string[]): Promise<Set<string>> {
+  const relayList = relays && relays.length > 0 ? relays : getReadRelays();
+  const deleted = new Set<string>();
+  if (events.length === 0) return deleted;
+  
+  const authors = new Map(events.map(event => [event.id, event.pubkey]));
+  const ids = Array.from(authors.keys());
+  const chunks: string[][] = [];
+  for (let i = 0; i < ids.length; i += DELETION_QUERY_CHUNK) {
+    chunks.push(ids.slice(i, i + DELETION_QUERY_CHUNK));
+  }
+  
+  try {
+    const deletions = (await Promise.all(
+      chunks.map(chunk => queryEvents(relayList, { kinds: [5], '#e': chunk }))
+    )).flat();
+    
+    deletions.forEach(deletion => {
+      deletion.tags.forEach(tag => {
+        if (tag[0] === 'e' && authors.get(tag[1]) === deletion.pubkey) {
+          deleted.add(tag[1]);
+        }
+      });
+    });
+  } catch (error) {
+    console.error('Error fetching deletions:', error);
+  }
+  
+  return deleted;
+}
+
+/**
+ * Drop events their authors have deleted (NIP-09)
+ * @param events - Events to filter
+ * @param relays - Optional custom relays
+ * @returns The events that haven't been deleted
+ */
+export async function filterDeletedEvents<T extends Pick<Event, 'id' | 'pubkey'>>(events: T[], relays?: string[]): Promise<T[]> {
+  const deleted = await fetchDeletedEventIds(events, relays);
+  return deleted.size > 0 ? events.filter(event => !deleted.has(event.id)) : events;
+}
@@ -0,0 +1,220 @@
+/**
+ * Social preview images - a branded 1200x630 card for a note (author, text and
+ * reaction counts), so unfurls of notes without media still get a large image.
+ * Rendered headless with satori (layout to SVG) and resvg (SVG to PNG), no browser
+ */
+
+import satori, { type Font } from 'satori';
+import { Resvg } from '@resvg/resvg-js';
+import {
+  decodeEventId,
+  fetchEvent,
+  fetchAuthorProfile,
+  fetchReactions,
+  parseContent,
+  isArticle,
+  parseArticle,
+  getArticleAddress,
+  getDisplayName,
+  formatReactionCount,
+  type Event,
+  type ProfileData,
+  type ReactionCounts
+} from './nostr';
+import { getZapProviderPubkey } from './zaps';
+
+export const OG_IMAGE_WIDTH = 1200;
+export const OG_IMAGE_HEIGHT = 630;
+
+// Longer text is cut here and clamped to the card's lines
+const TEXT_MAX_LENGTH = 280;
+
+// Avatars are embedded in the image, so large or slow ones are skipped
+const AVATAR_TIMEOUT_MS = 3000;
+const AVATAR_MAX_BYTES = 2 * 1024 * 1024;
+const AVATAR_TYPES = ['image/png', 'image/jpeg', 'image/gif'];
+
+// Emoji (and the joiners and variation selectors between them) - no font on the card has them
+const EMOJI_PATTERN = /[\p{Extended_Pictographic}\p{Regional_Indicator}\u{1F3FB}-\u{1F3FF}\u{200D}\u{FE0F}\u{20E3}]/gu;
+
+/**
+ * Everything shown on a note's card
+ */
+export interface NoteCardData {
+  event: Event;
+  profile: ProfileData | null;
+  reactions: ReactionCounts;
+  avatar: string | null;    // Author picture as a data URL, null to draw initials
+}
+
+/**
+ * Drop emoji, which would render as empty boxes, and the spaces they leave doubled
+ */
+function stripEmoji(text: string): string {
+  return text.replace(EMOJI_PATTERN, '').replace(/[ \t]{2,}/g, ' ').trim();
+}
+
+/**
+ * Encode bytes as base64 without Node's Buffer
+ */
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Download an author's picture for embedding
+ * @returns A data URL, or null if it isn't a small PNG, JPEG or GIF that loads in time
+ */
+async function loadAvatar(url: string | undefined): Promise<string | null> {
+  if (!url || !/^https?:\/\//i.test(url)) return null;
+
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(AVATAR_TIMEOUT_MS) });
+    const type = response.headers.get('content-type')?.split(';')[0].trim().toLowerCase() || '';
+    if (!response.ok || !AVATAR_TYPES.includes(type)) return null;
+
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    if (bytes.length > AVATAR_MAX_BYTES) return null;
+    return `data:${type};base64,${toBase64(bytes)}`;
+  } catch (error) {
+    console.error('Error loading avatar:', error);
+    return null;
+  }
+}
+
+/**
+ * Fetch what a note's card shows - the note, its author and its reaction counts
+ * @param shareId - note1, nevent1 or naddr1 identifier
+ * @returns The card data, or null if the note wasn't found
+ */
+export async function fetchNoteCardData(shareId: string): Promise<NoteCardData | null> {
+  const decoded = decodeEventId(shareId);
+  if (!decoded) return null;
+
+  const event = await fetchEvent(decoded.id, decoded.relays, decoded.author);
+  if (!event) return null;
+
+  // Zap receipts are validated against the author's LNURL provider, like on the preview page
+  const profile = await fetchAuthorProfile(event.pubkey, decoded.relays);
+  const [reactions, avatar] = await Promise.all([
+    getZapProviderPubkey(profile).then(provider =>
+      fetchReactions(event.id, decoded.relays, provider, getArticleAddress(event))
+    ),
+    loadAvatar(profile?.picture)
+  ]);
+
+  return { event, profile, reactions, avatar };
+}
+
+/**
+ * The card layout (satori supports a subset of CSS - every element with children is a flexbox)
+ */
+function NoteCard({ data, logo }: { data: NoteCardData; logo: string }) {
+  const { event, profile, reactions, avatar } = data;
+  const displayName = stripEmoji(getDisplayName(profile, event.pubkey)) || getDisplayName(null, event.pubkey);
+  const article = isArticle(event) ? parseArticle(event) : null;
+  const title = article?.title ? stripEmoji(article.title) : '';
+  const text = stripEmoji(article ? article.summary : parseContent(event.content, event.tags, event.kind).text);
+  const snippet = text.length > TEXT_MAX_LENGTH ? `${text.slice(0, TEXT_MAX_LENGTH - 1).trimEnd()}…` : text;
+
+  const likes = reactions.likes + reactions.emojiReactions.reduce((total, group) => total + group.count, 0);
+  const stats = [
+    [formatReactionCount(reactions.replies), reactions.replies === 1 ? 'reply' : 'replies'],
+    [formatReactionCount(reactions.reposts), reactions.reposts === 1 ? 'repost' : 'reposts'],
+    [formatReactionCount(likes), likes === 1 ? 'reaction' : 'reactions'],
+    [formatReactionCount(reactions.zapSats), 'sats zapped']
+  ].filter(([count]) => count);
+
+  return (
+    <div style={{
+      width: '100%',
+      height: '100%',
+      display: 'flex',
+      flexDirection: 'column',
+      padding: '64px 72px',
+      backgroundColor: '#0F0F0F',
+      backgroundImage: 'radial-gradient(circle at 0% 0%, rgba(168, 85, 247, 0.25), transparent 55%), radial-gradient(circle at 100% 100%, rgba(249, 115, 22, 0.2), transparent 55%)',
+      color: '#FFFFFF',
+      fontFamily: 'Inter'
+    }}>
+      {/* Author */}
+      <div style={{ display: 'flex', alignItems: 'center' }}>
+        {avatar ? (
+          <img src={avatar} width={88} height={88} style={{ borderRadius: 44, objectFit: 'cover' }} />
+        ) : (
+          <div style={{
+            width: 88,
+            height: 88,
+            borderRadius: 44,
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            backgroundColor: `hsl(${parseInt(event.pubkey.slice(0, 8), 16) % 360}, 70%, 50%)`,
+            fontSize: 40,
+            fontWeight: 700
+          }}>
+            {displayName.charAt(0).toUpperCase()}
+          </div>
+        )}
+        <div style={{ display: 'flex', flexDirection: 'column', marginLeft: 24 }}>
+          <div style={{ fontSize: 36, fontWeight: 700 }}>{displayName}</div>
+          {profile?.nip05 && <div style={{ fontSize: 24, color: '#A3A3A3', marginTop: 4 }}>{profile.nip05}</div>}
+        </div>
+      </div>
+
+      {/* Note */}
+      <div style={{ display: 'flex', flexDirection: 'column', flexGrow: 1, marginTop: 40, overflow: 'hidden' }}>
+        {title && (
+          <div style={{ fontSize: 48, fontWeight: 700, lineHeight: 1.2, marginBottom: 16 }}>{title}</div>
+        )}
+        <div style={{
+          display: 'block',
+          fontSize: article ? 30 : 38,
+          lineHeight: 1.4,
+          color: article ? '#A3A3A3' : '#FFFFFF',
+          lineClamp: article ? 3 : 5,
+          whiteSpace: 'pre-wrap'
+        }}>
+          {snippet}
+        </div>
+      </div>
+
+      {/* Reactions and logo */}
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginTop: 32 }}>
+        <div style={{ display: 'flex', fontSize: 26, color: '#A3A3A3' }}>
+          {stats.map(([count, label]) => (
+            <div key={label} style={{ display: 'flex', marginRight: 36 }}>
+              <span style={{ color: '#FFFFFF', fontWeight: 700, marginRight: 8 }}>{count}</span>
+              <span>{label}</span>
+            </div>
+          ))}
+        </div>
+        <div style={{ display: 'flex', alignItems: 'center' }}>
+          <img src={`data:image/svg+xml;base64,${btoa(logo)}`} width={56} height={56} />
+          <span style={{ fontSize: 32, fontWeight: 700, marginLeft: 14 }}>nostramp</span>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Render a note's card to a PNG
+ * @param data - Note, author and reactions (see fetchNoteCardData)
+ * @param fonts - Font files, Inter first (satori can't use system fonts); fonts under
+ * other names are fallbacks for characters Inter's files don't cover
+ * @param logo - The site logo's SVG markup (public/logo.svg)
+ * @returns PNG bytes
+ */
+export async function renderNoteImage(data: NoteCardData, fonts: Font[], logo: string): Promise<Uint8Array> {
+  const svg = await satori(<NoteCard data={data} logo={logo} />, {
+    width: OG_IMAGE_WIDTH,
+    height: OG_IMAGE_HEIGHT,
+    fonts
+  });
+  return new Resvg(svg, { fitTo: { mode: 'width', value: OG_IMAGE_WIDTH } }).render().asPng();
+}
@@ -0,0 +1,308 @@
+/**
+ * Share previews - Open Graph and Twitter card metadata for shared links, so
+ * Slack, Discord, Telegram, X and friends unfurl the post instead of the
+ * generic site description. Runs on the server (see netlify/edge-functions/og.ts)
+ * with the same relay logic as the app
+ */
+
+import { nip19 } from 'nostr-tools';
+import {
+  decodeEventId,
+  decodeProfileId,
+  fetchEvent,
+  fetchAuthorProfile,
+  parseContent,
+  isArticle,
+  parseArticle,
+  type Event,
+  type ProfileData
+} from './nostr';
+import { setDefaultRelays } from './relays';
+import { resolveShortLink } from './shortlinks';
+
+export const SITE_NAME = 'Nostramp';
+
+/**
+ * Metadata for one shared link
+ */
+export interface ShareMeta {
+  title: string;
+  description: string;
+  image: string | null;
+  url: string;
+  type: 'article' | 'profile' | 'website';
+  largeImage: boolean;      // Image is the post's own media, worth a large card
+  authorName: string;
+  authorUrl: string;        // The author's profile preview
+}
+
+// Relays are given this long before the generic page is served instead
+const RESOLVE_TIMEOUT_MS = 4000;
+
+// Found links are cached longer than misses, which may just be slow relays
+const CACHE_TTL_MS = 10 * 60 * 1000;
+const MISS_CACHE_TTL_MS = 60 * 1000;
+const CACHE_MAX_ENTRIES = 500;
+
+const DESCRIPTION_MAX_LENGTH = 200;
+
+// Link unfurlers and search crawlers - regular visitors get the app as is
+const CRAWLER_PATTERN = /bot|crawler|spider|facebookexternalhit|slack|discord|telegram|twitter|whatsapp|linkedin|embedly|iframely|mastodon|skypeuripreview|vkshare|redditbot|applebot|pinterest|snapchat|bluesky|cardyb|preview|wordpress/i;
+
+const cache = new Map<string, { meta: ShareMeta | null; expiresAt: number }>();
+
+/**
+ * Read the relays to use on the server from a setting (comma-separated relay URLs)
+ * Without one the app's default relays are used
+ */
+export function configureShareRelays(setting: string | undefined): void {
+  const relays = (setting || '').split(',').map(url => url.trim()).filter(Boolean);
+  if (relays.length > 0) {
+    setDefaultRelays(relays);
+  }
+}
+
+/**
+ * Check if a request comes from a link unfurler or crawler
+ */
+export function isCrawler(userAgent: string | null): boolean {
+  return !!userAgent && CRAWLER_PATTERN.test(userAgent);
+}
+
+/**
+ * Get the shared note, article or profile ID from a request path
+ * @param pathname - URL path, e.g. /note1... or /s/launch-day
+ * @returns The nip19 identifier or s/<slug> for a short link, or null if the path isn't a shared link
+ */
+export function getShareId(pathname: string): string | null {
+  const match = /^\/((?:note|nevent|naddr|npub|nprofile)1[02-9ac-hj-np-z]+|s\/[a-z0-9-]{3,40})\/?$/.exec(pathname);
+  return match ? match[1] : null;
+}
+
+/**
+ * Look up where a short link (s/<slug>) points; other IDs are returned as they are
+ * @returns The nip19 identifier, or null if nobody has claimed the slug
+ * @throws Error if none of the relays answered the short link lookup
+ */
+export async function resolveShareId(shareId: string): Promise<string | null> {
+  if (!shareId.startsWith('s/')) return shareId;
+  const shortLink = await resolveShortLink(shareId.slice(2));
+  return shortLink?.target || null;
+}
+
+/**
+ * Display name for titles, falling back to a shortened npub
+ */
+function getAuthorName(profile: ProfileData | null, pubkey: string): string {
+  const name = profile?.display_name?.trim() || profile?.name?.trim();
+  if (name) return name;
+  const npub = nip19.npubEncode(pubkey);
+  return `${npub.slice(0, 12)}...${npub.slice(-4)}`;
+}
+
+/**
+ * Profile preview URL for an author, on the same site as a shared link
+ */
+function getAuthorUrl(url: string, pubkey: string): string {
+  return `${new URL(url).origin}/${nip19.npubEncode(pubkey)}`;
+}
+
+/**
+ * Collapse whitespace and cut text to a description-sized snippet
+ */
+function toDescription(text: string): string {
+  const collapsed = text.replace(/\s+/g, ' ').trim();
+  return collapsed.length > DESCRIPTION_MAX_LENGTH
+    ? `${collapsed.slice(0, DESCRIPTION_MAX_LENGTH - 1).trimEnd()}…`
+    : collapsed;
+}
+
+/**
+ * Summarize a note's content as plain text - mentions become @names, quoted notes and media are left out
+ */
+function summarizeNote(event: Event): string {
+  return parseContent(event.content, event.tags, event.kind).nodes
+    .map(node => {
+      switch (node.type) {
+        case 'text': return node.text;
+        case 'link': return node.url;
+        case 'mention': return `@${getAuthorName(null, node.pubkey)}`;
+        case 'hashtag': return `#${node.tag}`;
+        case 'invoice': return 'Lightning invoice';
+        default: return '';
+      }
+    })
+    .join('');
+}
+
+/**
+ * Build the metadata for a shared note or article
+ * @param event - The shared event
+ * @param profile - The author's profile, if found
+ * @param url - Canonical URL of the shared link
+ * @param cardImage - Generated card (see og.image.tsx) for posts without their own image
+ */
+export function buildEventMeta(event: Event, profile: ProfileData | null, url: string, cardImage: string | null): ShareMeta {
+  const authorName = getAuthorName(profile, event.pubkey);
+
+  if (isArticle(event)) {
+    const article = parseArticle(event);
+    return {
+      title: article.title || `Article by ${authorName}`,
+      description: toDescription(article.summary || event.content),
+      image: article.image || cardImage || profile?.picture || null,
+      url,
+      type: 'article',
+      largeImage: !!(article.image || cardImage),
+      authorName,
+      authorUrl: getAuthorUrl(url, event.pubkey)
+    };
+  }
+
+  const { images } = parseContent(event.content, event.tags, event.kind);
+  return {
+    title: `${authorName} on Nostr`,
+    description: toDescription(summarizeNote(event)) || `A post by ${authorName}`,
+    image: images[0] || cardImage || profile?.picture || null,
+    url,
+    type: 'article',
+    largeImage: !!(images[0] || cardImage),
+    authorName,
+    authorUrl: getAuthorUrl(url, event.pubkey)
+  };
+}
+
+/**
+ * Build the metadata for a shared profile
+ */
+export function buildProfileMeta(pubkey: string, profile: ProfileData | null, url: string, fallbackImage: string | null): ShareMeta {
+  const authorName = getAuthorName(profile, pubkey);
+  return {
+    title: `${authorName} on Nostr`,
+    description: toDescription(profile?.about || '') || `${authorName}'s profile on Nostr`,
+    image: profile?.picture || fallbackImage,
+    url,
+    type: 'profile',
+    largeImage: false,
+    authorName,
+    authorUrl: url
+  };
+}
+
+/**
+ * Look up a shared link on the relays
+ */
+async function resolveShareMeta(shareId: string, origin: string): Promise<ShareMeta | null> {
+  const url = `${origin}/${shareId}`;
+  const id = await resolveShareId(shareId);
+  if (!id) return null;
+
+  const profileId = decodeProfileId(id);
+  if (profileId) {
+    const profile = await fetchAuthorProfile(profileId.pubkey, profileId.relays);
+    return profile ? buildProfileMeta(profileId.pubkey, profile, url, `${origin}/logo.png`) : null;
+  }
+
+  const decoded = decodeEventId(id);
+  if (!decoded) return null;
+
+  const event = await fetchEvent(decoded.id, decoded.relays, decoded.author);
+  if (!event) return null;
+
+  const profile = await fetchAuthorProfile(event.pubkey, decoded.relays);
+  return buildEventMeta(event, profile, url, `${origin}/og/${id}.png`);
+}
+
+/**
+ * Get the metadata for a shared link, from the cache or the relays
+ * @param shareId - note1, nevent1, naddr1, npub1 or nprofile1 identifier, or s/<slug>
+ * @param origin - Site origin for absolute URLs, e.g. https://nostramp.com
+ * @returns The metadata, or null if the link couldn't be resolved in time
+ */
+export async function getShareMeta(shareId: string, origin: string): Promise<ShareMeta | null> {
+  const key = `${origin}/${shareId}`;
+  const cached = cache.get(key);
+  if (cached && cached.expiresAt > Date.now()) return cached.meta;
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<null>(resolve => {
+    timer = setTimeout(() => resolve(null), RESOLVE_TIMEOUT_MS);
+  });
+
+  let meta: ShareMeta | null = null;
+  try {
+    meta = await Promise.race([resolveShareMeta(shareId, origin), timeout]);
+  } catch (error) {
+    console.error('Error resolving share preview:', error);
+  } finally {
+    clearTimeout(timer);
+  }
+
+  // Oldest entries go first once the cache is full
+  if (cache.size >= CACHE_MAX_ENTRIES) {
+    const oldest = cache.keys().next().value;
+    if (oldest !== undefined) cache.delete(oldest);
+  }
+  cache.delete(key);
+  cache.set(key, { meta, expiresAt: Date.now() + (meta ? CACHE_TTL_MS : MISS_CACHE_TTL_MS) });
+
+  return meta;
+}
+
+/**
+ * Escape text for use in HTML content and attribute values
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Render the title, description, Open Graph and Twitter card tags, and the oEmbed discovery link
+ */
+export function renderMetaTags(meta: ShareMeta): string {
+  const tags: [string, string, string][] = [
+    ['name', 'description', meta.description],
+    ['property', 'og:site_name', SITE_NAME],
+    ['property', 'og:type', meta.type],
+    ['property', 'og:url', meta.url],
+    ['property', 'og:title', meta.title],
+    ['property', 'og:description', meta.description],
+    ['name', 'twitter:card', meta.largeImage ? 'summary_large_image' : 'summary'],
+    ['name', 'twitter:title', meta.title],
+    ['name', 'twitter:description', meta.description]
+  ];
+  if (meta.image) {
+    tags.push(['property', 'og:image', meta.image], ['name', 'twitter:image', meta.image]);
+  }
+
+  const links = [`<link rel="canonical" href="${escapeHtml(meta.url)}" />`];
+  // oEmbed discovery, so blogs and CMSs can embed notes from a pasted link
+  if (meta.type === 'article') {
+    const oembedUrl = `${new URL(meta.url).origin}/oembed?url=${encodeURIComponent(meta.url)}&format=json`;
+    links.push(`<link rel="alternate" type="application/json+oembed" href="${escapeHtml(oembedUrl)}" title="${escapeHtml(meta.title)}" />`);
+  }
+
+  return [
+    `<title>${escapeHtml(`${meta.title} | ${SITE_NAME}`)}</title>`,
+    ...links,
+    ...tags.map(([attribute, name, content]) => `<meta ${attribute}="${name}" content="${escapeHtml(content)}" />`)
+  ].join('\n    ');
+}
+
+/**
+ * Swap the app page's static title and description for a shared link's metadata
+ * @param html - The app's index.html
+ * @param meta - Metadata for the shared link
+ * @returns The page with the link's tags in its head
+ */
+export function injectMetaTags(html: string, meta: ShareMeta): string {
+  return html
+    .replace(/\s*<title>[\s\S]*?<\/title>/i, '')
+    .replace(/\s*<meta\s+name="description"[^>]*>/i, '')
+    .replace(/<\/head>/i, () => `  ${renderMetaTags(meta)}\n  </head>`);
+}
@@ -0,0 +1,166 @@
+import { useEffect, useRef } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { AlertTriangle, BadgeCheck, MessageCircle, Repeat2, Heart, Zap } from 'lucide-react';
+import { formatRelativeTime, formatReactionCount, getDisplayName, isArticle, parseArticle } from '../nostr';
+import { usePostPreview } from '../hooks/usePostPreview';
+import NoteContent from '../components/NoteContent';
+import MediaGallery from '../components/MediaGallery';
+
+// Message the embed sends its host page (public/embed.js) whenever its height changes
+const EMBED_RESIZE_MESSAGE = 'nostramp:embed-resize';
+
+/**
+ * Compact, read-only note for embedding on other sites in an iframe (/embed/:id)
+ * ?theme=light switches to the light theme; the default is dark
+ */
+function EmbedPage() {
+  const { id } = useParams<{ id: string }>();
+  const [searchParams] = useSearchParams();
+  const theme = searchParams.get('theme') === 'light' ? 'light' : 'dark';
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const {
+    event,
+    profile,
+    reactions,
+    parsedContent,
+    isLoading,
+    error,
+    isVerified,
+    participantProfiles
+  } = usePostPreview(id);
+
+  // Tell the host page our height so it can size the iframe
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || window.parent === window) return;
+
+    const observer = new ResizeObserver(() => {
+      window.parent.postMessage({ type: EMBED_RESIZE_MESSAGE, id, height: Math.ceil(container.getBoundingClientRect().height) }, '*');
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [id]);
+
+  const noteUrl = `${window.location.origin}/${id}`;
+
+  const renderEvent = () => {
+    if (!event) return null;
+
+    const displayName = getDisplayName(profile, event.pubkey);
+    const article = isArticle(event) ? parseArticle(event) : null;
+    const likes = reactions.likes + reactions.emojiReactions.reduce((total, group) => total + group.count, 0);
+
+    return (
+      <>
+        {/* Author */}
+        <div className="flex items-center gap-3 mb-4">
+          <div className="w-10 h-10 rounded-full overflow-hidden shrink-0 bg-bg-tertiary">
+            {profile?.picture ? (
+              <img src={profile.picture} alt={displayName} className="w-full h-full object-cover" />
+            ) : (
+              <svg viewBox="0 0 100 100" xmlns="http://www.w3.org/2000/svg" className="w-full h-full">
+                <rect width="100" height="100" fill={`hsl(${parseInt(event.pubkey.slice(0, 8), 16) % 360}, 70%, 50%)`} />
+                <text x="50" y="65" textAnchor="middle" fontSize="45" fill="white">
+                  {displayName.charAt(0).toUpperCase()}
+                </text>
+              </svg>
+            )}
+          </div>
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-1.5">
+              <span className="font-semibold text-text-primary text-sm truncate">{displayName}</span>
+              {isVerified && (
+                <span className="inline-flex text-nostr-purple" title={`Verified: ${profile?.nip05}`}>
+                  <BadgeCheck size={14} />
+                </span>
+              )}
+            </div>
+            {profile?.nip05 && <div className="text-text-muted text-xs truncate">{profile.nip05}</div>}
+          </div>
+        </div>
+
+        {/* Article (NIP-23) - title and summary, the full text is a click away */}
+        {article ? (
+          <a href={noteUrl} target="_blank" rel="noopener noreferrer" className="block mb-4 no-underline">
+            {article.image && (
+              <img src={article.image} alt="" className="w-full max-h-[240px] object-cover rounded-xl mb-3" />
+            )}
+            <h1 className="text-xl font-bold text-text-primary leading-tight mb-2 break-words">{article.title || 'Untitled article'}</h1>
+            {article.summary && <p className="text-text-secondary text-sm leading-relaxed line-clamp-3">{article.summary}</p>}
+          </a>
+        ) : (
+          <div className="mb-2">
+            {parsedContent.text && (
+              <NoteContent
+                nodes={parsedContent.nodes}
+                profiles={participantProfiles}
+                linkTarget="_blank"
+                className="text-base leading-relaxed text-text-primary mb-4"
+              />
+            )}
+            <MediaGallery media={parsedContent.media} />
+          </div>
+        )}
+
+        {/* Counts and link */}
+        <div className="flex items-center gap-4 pt-3 border-t border-border text-text-secondary text-sm">
+          <span className="flex items-center gap-1" title="Replies">
+            <MessageCircle size={16} />
+            {formatReactionCount(reactions.replies)}
+          </span>
+          <span className="flex items-center gap-1" title="Reposts">
+            <Repeat2 size={16} />
+            {formatReactionCount(reactions.reposts)}
+          </span>
+          <span className="flex items-center gap-1" title="Reactions">
+            <Heart size={16} />
+            {formatReactionCount(likes)}
+          </span>
+          {reactions.zapSats > 0 && (
+            <span className="flex items-center gap-1" title={`${reactions.zapSats.toLocaleString()} sats zapped`}>
+              <Zap size={16} className="text-nostr-orange" />
+              {formatReactionCount(reactions.zapSats)}
+            </span>
+          )}
+          <a
+            href={noteUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="ml-auto text-text-muted text-xs no-underline whitespace-nowrap transition-colors duration-200 hover:text-nostr-purple"
+            title={new Date(event.created_at * 1000).toLocaleString()}
+          >
+            {formatRelativeTime(event.created_at)} · View on nostramp
+          </a>
+        </div>
+      </>
+    );
+  };
+
+  return (
+    <div ref={containerRef} className={`embed-container theme-${theme} font-sans`}>
+      <div className="bg-bg-primary border border-border rounded-2xl p-5 max-w-[550px] mx-auto">
+        {isLoading && (
+          <div className="flex items-center justify-center gap-3 py-6 text-text-muted text-sm">
+            <div className="w-5 h-5 border-2 border-border border-t-nostr-purple rounded-full animate-spin"></div>
+            Loading note...
+          </div>
+        )}
+        {!isLoading && error && (
+          <div className="flex items-center gap-3 py-4 text-text-muted text-sm">
+            <AlertTriangle size={18} className="text-nostr-orange shrink-0" />
+            <span>
+              {error}{' '}
+              <a href={noteUrl} target="_blank" rel="noopener noreferrer" className="text-nostr-purple no-underline hover:underline">
+                Open on nostramp
+              </a>
+            </span>
+          </div>
+        )}
+        {!isLoading && !error && renderEvent()}
+      </div>
+    </div>
+  );
+}
+
+export default EmbedPage;
@@ -1,6 +1,11 @@
 import { useState } from 'react';
-import { Rocket, Key, Globe, Shield, Zap, Code2, Check, X, Sparkles, ArrowRight, Link2 } from 'lucide-react';
-import { extractEventId } from '../nostr';
+import { Link } from 'react-router-dom';
+import { Rocket, Key, Globe, Shield, Zap, Code2, Check, X, Sparkles, ArrowRight, Link2, Scissors } from 'lucide-react';
+import { extractEventId, extractProfileId } from '../nostr';
+import { getCreatedLinks, recordCreatedLink, setCreatedLinkSlug, type CreatedLink } from '../storage';
+import { getActiveSigner } from '../signer';
+import { publishShortLink } from '../shortlinks';
+import LinkGallery from '../components/LinkGallery';
 
 function HomePage() {
   const [nostrLink, setNostrLink] = useState<string>('');
@@ -8,6 +13,12 @@ function HomePage() {
   const [statusType, setStatusType] = useState<'success' | 'error' | 'copied' | ''>('');
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [isFocused, setIsFocused] = useState<boolean>(false);
+  const [createdLinks, setCreatedLinks] = useState<CreatedLink[]>(getCreatedLinks);
+  const [createdId, setCreatedId] = useState<string | null>(null);
+  const [showShortLink, setShowShortLink] = useState<boolean>(false);
+  const [slugInput, setSlugInput] = useState<string>('');
+  const [isShortening, setIsShortening] = useState<boolean>(false);
+  const [shortLinkError, setShortLinkError] = useState<string>('');
 
   const handleCreateLink = async () => {
     if (!nostrLink.trim()) {
@@ -17,18 +28,25 @@ function HomePage() {
     }
     
     setIsLoading(true);
+    setCreatedId(null);
+    setShowShortLink(false);
+    setSlugInput('');
+    setShortLinkError('');
     
     try {
-      const eventId = extractEventId(nostrLink);
+      // Notes and articles, or a profile to follow
+      const eventId = extractEventId(nostrLink) || extractProfileId(nostrLink);
       
       if (!eventId) {
-        setStatusMessage('Could not find a valid Nostr event ID in the link');
+        setStatusMessage('Could not find a valid Nostr event or profile ID in the link');
         setStatusType('error');
         setIsLoading(false);
         return;
       }
       
       const shareableLink = `${window.location.origin}/${eventId}`;
+      setCreatedLinks(recordCreatedLink(eventId, nostrLink.trim()));
+      setCreatedId(eventId);
       
       try {
         await navigator.clipboard.writeText(shareableLink);
@@ -50,6 +68,97 @@ function HomePage() {
     }
   };
 
+  const handleCreateShortLink = async () => {
+    const signer = getActiveSigner();
+    if (!createdId || !signer || isShortening) return;
+    
+    setIsShortening(true);
+    setShortLinkError('');
+    
+    // An empty slug gets a random code
+    const result = await publishShortLink(signer, createdId, slugInput.trim() || undefined);
+    if (!result.shortLink) {
+      setShortLinkError(result.error || 'Could not create the short link. Please try again.');
+      setIsShortening(false);
+      return;
+    }
+    
+    const shortUrl = `${window.location.origin}/s/${result.shortLink.slug}`;
+    setCreatedLinks(setCreatedLinkSlug(createdId, result.shortLink.slug));
+    try {
+      await navigator.clipboard.writeText(shortUrl);
+      setStatusType('copied');
+    } catch (clipboardError) {
+      console.error('Failed to copy to clipboard:', clipboardError);
+      setStatusType('success');
+    }
+    setStatusMessage(shortUrl);
+    setShowShortLink(false);
+    setSlugInput('');
+    setIsShortening(false);
+  };
+
+  const renderShortLinkPanel = () => {
+    if (!createdId || statusType === 'error') return null;
+    
+    if (!showShortLink) {
+      return (
+        <button
+          className="inline-flex items-center gap-1.5 mt-3 bg-transparent border-none p-0 text-text-muted text-sm cursor-pointer transition-colors duration-200 hover:text-nostr-purple"
+          onClick={() => setShowShortLink(true)}
+        >
+          <Scissors size={14} />
+          Make a short link
+        </button>
+      );
+    }
+    
+    if (!getActiveSigner()) {
+      return (
+        <p className="mt-3 text-text-muted text-sm">
+          Short links are signed with your Nostr profile.{' '}
+          <Link to="/identity" className="text-nostr-purple no-underline hover:underline">Set up or unlock your profile</Link>
+          {' '}to create one.
+        </p>
+      );
+    }
+    
+    return (
+      <div className="mt-3 text-left animate-fade-in">
+        <div className="flex gap-2">
+          <div className="flex-1 flex items-center bg-bg-secondary/80 border border-border rounded-xl px-3 transition-colors duration-200 focus-within:border-nostr-purple">
+            <span className="text-text-muted text-sm whitespace-nowrap">{window.location.host}/s/</span>
+            <input
+              type="text"
+              placeholder="launch-day"
+              value={slugInput}
+              onChange={(e) => {
+                setSlugInput(e.target.value);
+                setShortLinkError('');
+              }}
+              onKeyDown={(e) => e.key === 'Enter' && handleCreateShortLink()}
+              maxLength={40}
+              className="flex-1 min-w-0 bg-transparent border-none py-2.5 text-text-primary text-sm outline-none placeholder:text-text-muted/70"
+              autoComplete="off"
+            />
+          </div>
+          <button
+            onClick={handleCreateShortLink}
+            disabled={isShortening}
+            className="px-4 py-2.5 bg-nostr-purple border-none rounded-xl text-white text-sm font-semibold cursor-pointer transition-opacity duration-200 hover:opacity-90 disabled:opacity-60 disabled:cursor-not-allowed whitespace-nowrap"
+          >
+            {isShortening ? 'Creating...' : 'Create'}
+          </button>
+        </div>
+        {shortLinkError ? (
+          <p className="mt-2 text-red-400 text-xs">{shortLinkError}</p>
+        ) : (
+          <p className="mt-2 text-text-muted text-xs">Leave empty for a random code. The short link is published from your Nostr profile, and only you can change it.</p>
+        )}
+      </div>
+    );
+  };
+
   return (
     <div className="app-container">
       {/* Animated background orbs */}
@@ -179,8 +288,13 @@ function HomePage() {
               )}
             </div>
           )}
+          
+          {renderShortLinkPanel()}
         </div>
         
+        {/* Link Gallery */}
+        <LinkGallery links={createdLinks} onChange={setCreatedLinks} />
+        
         {/* Features Grid */}
         <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-8 w-full max-w-3xl animate-fade-in">
           {/* Feature 1 - No Setup */}
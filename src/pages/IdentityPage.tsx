@@ -1,5 +1,6 @@
-import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useState, useEffect, useRef } from 'react';
+import { useNavigate, Link } from 'react-router-dom';
+import QRCode from 'qrcode';
 import { 
   Key, 
   Shield, 
@@ -13,7 +14,18 @@ import {
   Copy,
   Check,
   AlertTriangle,
-  ExternalLink
+  ExternalLink,
+  Radio,
+  Plus,
+  Trash2,
+  Send,
+  Lock,
+  Unlock,
+  Puzzle,
+  Smartphone,
+  QrCode,
+  Upload,
+  Bookmark
 } from 'lucide-react';
 import {
   createProfile,
@@ -21,11 +33,50 @@ import {
   clearIdentityData,
   getUserActivity,
   getProfileKey,
+  isProfileEncrypted,
+  lockProfileWithPassword,
+  unlockProfile,
+  lockSession,
+  removeProfilePassword,
+  getSignerPreference,
+  clearSignerPreference,
+  importProfile,
   type UserActivity
 } from '../storage.identity';
-import { exportKeypair, type ExportedKeypair } from '../nostr';
+import {
+  getActiveSigner,
+  hasNip07Extension,
+  connectNip07Signer,
+  connectBunkerSigner,
+  startNostrConnect,
+  disconnectRemoteSigner,
+  type SignerType
+} from '../signer';
+import {
+  getRelaySettings,
+  addRelay,
+  removeRelay,
+  updateRelay,
+  normalizeRelayUrl,
+  type RelaySetting
+} from '../storage.relays';
+import { getRelayHealth, type RelayHealth } from '../relays';
+import {
+  exportKeypair,
+  publishRelayList,
+  getNostrPublicKey,
+  importNeedsPassword,
+  resolveImportedKey,
+  createEncryptedKeyBackup,
+  type ExportedKeypair,
+  type EncryptedKeyBackup
+} from '../nostr';
+import { validatePassword } from '../security/crypto';
+
+type ViewMode = 'create' | 'profile' | 'locked';
 
-type ViewMode = 'create' | 'profile';
+// How often the relay connection status is refreshed
+const RELAY_HEALTH_INTERVAL_MS = 5000;
 
 function IdentityPage() {
   const navigate = useNavigate();
@@ -35,18 +86,64 @@ function IdentityPage() {
   const [copiedKey, setCopiedKey] = useState<string | null>(null);
   const [showBurnConfirm, setShowBurnConfirm] = useState(false);
   
+  // Encrypted (NIP-49) export state
+  const [exportPassword, setExportPassword] = useState('');
+  const [exportConfirmPassword, setExportConfirmPassword] = useState('');
+  const [exportError, setExportError] = useState('');
+  const [encryptedBackup, setEncryptedBackup] = useState<EncryptedKeyBackup | null>(null);
+  const [showPlaintextExport, setShowPlaintextExport] = useState(false);
+  
   // Create form state
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   
   // Activity
   const [activity, setActivity] = useState<UserActivity>(getUserActivity());
+  
+  // Signer
+  const [signerType, setSignerType] = useState<SignerType>(getSignerPreference().type);
+  const [externalNpub, setExternalNpub] = useState<string | null>(null);
+  
+  // Remote signer (NIP-46)
+  const [bunkerInput, setBunkerInput] = useState('');
+  const [connectQr, setConnectQr] = useState<{ uri: string; image: string } | null>(null);
+  const cancelConnectRef = useRef<(() => void) | null>(null);
+  
+  // Key import
+  const [showImport, setShowImport] = useState(false);
+  const [importInput, setImportInput] = useState('');
+  const [importFile, setImportFile] = useState<{ name: string; content: string } | null>(null);
+  const [importPassword, setImportPassword] = useState('');
+  const [importProtectPassword, setImportProtectPassword] = useState('');
+  const [importError, setImportError] = useState('');
+  const [confirmOverwrite, setConfirmOverwrite] = useState(false);
+  
+  // Password protection
+  const [isEncrypted, setIsEncrypted] = useState(isProfileEncrypted());
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [passwordError, setPasswordError] = useState('');
+  
+  // Relay settings
+  const [relaySettings, setRelaySettings] = useState<RelaySetting[]>(getRelaySettings());
+  const [newRelayUrl, setNewRelayUrl] = useState('');
+  const [relayError, setRelayError] = useState('');
+  const [relayStatus, setRelayStatus] = useState('');
+  const [isPublishingRelays, setIsPublishingRelays] = useState(false);
+  const [relayHealth, setRelayHealth] = useState<RelayHealth[]>(getRelayHealth());
 
   useEffect(() => {
     // Check current identity state
     const state = getIdentityState();
     
-    if (state.hasIdentity) {
+    const signerPreference = getSignerPreference();
+    
+    if (state.hasIdentity && signerPreference.type !== 'local' && state.publicKey) {
+      setExternalNpub(getNostrPublicKey(state.publicKey));
+      setViewMode('profile');
+    } else if (state.hasIdentity && state.isLocked) {
+      setViewMode('locked');
+    } else if (state.hasIdentity) {
       // Get the profile key
       const profileKey = getProfileKey();
       if (profileKey) {
@@ -58,6 +155,17 @@ function IdentityPage() {
     }
   }, []);
 
+  // Keep the relay connection status current while the page is open
+  useEffect(() => {
+    const timer = setInterval(() => setRelayHealth(getRelayHealth()), RELAY_HEALTH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Stop waiting for a nostrconnect:// pairing when leaving the page
+  useEffect(() => {
+    return () => cancelConnectRef.current?.();
+  }, []);
+
   const handleCreateProfile = () => {
     setError('');
     setIsLoading(true);
@@ -74,12 +182,303 @@ function IdentityPage() {
     setIsLoading(false);
   };
 
+  const handleUseExtension = async () => {
+    setError('');
+    setIsLoading(true);
+    
+    try {
+      const publicKey = await connectNip07Signer();
+      showExternalSigner('nip07', publicKey);
+    } catch (err) {
+      console.error('Error connecting extension:', err);
+      setError('Could not connect to your Nostr browser extension');
+    }
+    
+    setIsLoading(false);
+  };
+
+  const showExternalSigner = (type: SignerType, publicKey: string) => {
+    setExternalNpub(getNostrPublicKey(publicKey));
+    setSignerType(type);
+    setExportedKeys(null);
+    setEncryptedBackup(null);
+    setViewMode('profile');
+  };
+
+  const handleConnectBunker = async () => {
+    setError('');
+    setIsLoading(true);
+    
+    try {
+      const publicKey = await connectBunkerSigner(bunkerInput);
+      setBunkerInput('');
+      showExternalSigner('nip46', publicKey);
+    } catch (err) {
+      console.error('Error connecting remote signer:', err);
+      setError('Could not connect to the remote signer. Check the bunker URI and try again.');
+    }
+    
+    setIsLoading(false);
+  };
+
+  const handleShowConnectQr = async () => {
+    setError('');
+    cancelConnectRef.current?.();
+    
+    const session = startNostrConnect();
+    cancelConnectRef.current = session.cancel;
+    
+    try {
+      const image = await QRCode.toDataURL(session.uri, { margin: 1, width: 240 });
+      setConnectQr({ uri: session.uri, image });
+      
+      const publicKey = await session.connected;
+      setConnectQr(null);
+      showExternalSigner('nip46', publicKey);
+    } catch (err) {
+      console.error('Error pairing remote signer:', err);
+      setConnectQr(null);
+      setError('Remote signer pairing was cancelled or timed out');
+    } finally {
+      cancelConnectRef.current = null;
+    }
+  };
+
+  const handleCancelConnectQr = () => {
+    cancelConnectRef.current?.();
+    cancelConnectRef.current = null;
+    setConnectQr(null);
+  };
+
+  const handleDisconnectSigner = () => {
+    disconnectRemoteSigner();
+    clearSignerPreference();
+    setSignerType('local');
+    setExternalNpub(null);
+    
+    // Fall back to the local profile if there is one
+    const state = getIdentityState();
+    const profileKey = getProfileKey();
+    if (profileKey) {
+      setExportedKeys(exportKeypair(profileKey.privateKey, profileKey.publicKey));
+      setViewMode('profile');
+    } else {
+      setViewMode(state.hasIdentity && state.isLocked ? 'locked' : 'create');
+    }
+  };
+
   const handleBurnProfile = () => {
     clearIdentityData();
     setExportedKeys(null);
+    setEncryptedBackup(null);
     setViewMode('create');
     setShowBurnConfirm(false);
     setActivity(getUserActivity());
+    setRelaySettings(getRelaySettings());
+    setIsEncrypted(false);
+    setSignerType('local');
+    setExternalNpub(null);
+  };
+
+  const resetPasswordForm = () => {
+    setPassword('');
+    setConfirmPassword('');
+    setPasswordError('');
+  };
+
+  const handleSetPassword = async () => {
+    setPasswordError('');
+    if (password !== confirmPassword) {
+      setPasswordError('Passwords do not match');
+      return;
+    }
+    
+    setIsLoading(true);
+    const result = await lockProfileWithPassword(password);
+    setIsLoading(false);
+    
+    if (result.error) {
+      setPasswordError(result.error);
+      return;
+    }
+    resetPasswordForm();
+    setIsEncrypted(true);
+  };
+
+  const handleUnlock = async () => {
+    setPasswordError('');
+    setIsLoading(true);
+    const result = await unlockProfile(password);
+    setIsLoading(false);
+    
+    if (result.error) {
+      setPasswordError(result.error);
+      return;
+    }
+    
+    const profileKey = getProfileKey();
+    if (profileKey) {
+      setExportedKeys(exportKeypair(profileKey.privateKey, profileKey.publicKey));
+      setViewMode('profile');
+    }
+    resetPasswordForm();
+  };
+
+  const handleLockNow = () => {
+    lockSession();
+    setExportedKeys(null);
+    setEncryptedBackup(null);
+    setShowPrivateKey(false);
+    resetPasswordForm();
+    setViewMode('locked');
+  };
+
+  const handleRemovePassword = () => {
+    const result = removeProfilePassword();
+    if (result.error) {
+      setPasswordError(result.error);
+      return;
+    }
+    resetPasswordForm();
+    setIsEncrypted(false);
+  };
+
+  const handleAddRelay = () => {
+    setRelayError('');
+    setRelayStatus('');
+    const result = addRelay(newRelayUrl);
+    if (result.error) {
+      setRelayError(result.error);
+      return;
+    }
+    setRelaySettings(result.settings);
+    setNewRelayUrl('');
+  };
+
+  const handleRemoveRelay = (url: string) => {
+    setRelayStatus('');
+    const result = removeRelay(url);
+    setRelayError(result.error || '');
+    setRelaySettings(result.settings);
+  };
+
+  const handleToggleRelay = (relay: RelaySetting, mode: 'read' | 'write') => {
+    setRelayStatus('');
+    setRelaySettings(updateRelay(relay.url, { [mode]: !relay[mode] }));
+  };
+
+  const renderRelayStatus = (url: string) => {
+    const normalized = normalizeRelayUrl(url);
+    const health = relayHealth.find(record => record.url === normalized);
+    const now = Date.now();
+    let color = 'bg-text-muted/40';
+    let title = 'Not connected yet';
+    if (health?.connected) {
+      color = 'bg-emerald-400';
+      title = 'Connected';
+    } else if (health?.retryAt && health.retryAt > now) {
+      color = 'bg-red-400';
+      title = `${health.failures} failed connection${health.failures === 1 ? '' : 's'}, retrying in ${Math.ceil((health.retryAt - now) / 1000)}s`;
+    } else if (health?.lastConnectedAt) {
+      title = 'Idle';
+    }
+    return <span className={`w-2 h-2 rounded-full shrink-0 ${color}`} title={title} />;
+  };
+
+  const handlePublishRelays = async () => {
+    const signer = getActiveSigner();
+    if (!signer) {
+      setRelayError('Your profile is not available for signing');
+      return;
+    }
+    
+    setIsPublishingRelays(true);
+    setRelayError('');
+    setRelayStatus('');
+    
+    const result = await publishRelayList(signer, relaySettings);
+    if (result) {
+      setRelayStatus('Relay list published');
+    } else {
+      setRelayError('Failed to publish relay list');
+    }
+    
+    setIsPublishingRelays(false);
+  };
+
+  const resetImportForm = () => {
+    setShowImport(false);
+    setImportInput('');
+    setImportFile(null);
+    setImportPassword('');
+    setImportProtectPassword('');
+    setImportError('');
+    setConfirmOverwrite(false);
+  };
+
+  const handleImportFile = async (file: File | undefined) => {
+    if (!file) return;
+    setImportError('');
+    setConfirmOverwrite(false);
+    try {
+      setImportFile({ name: file.name, content: await file.text() });
+      setImportInput('');
+    } catch (err) {
+      console.error('Error reading backup file:', err);
+      setImportError('Could not read the file');
+    }
+  };
+
+  const handleImportKey = async () => {
+    setImportError('');
+    
+    const keyInput = importFile?.content ?? importInput;
+    const result = resolveImportedKey(keyInput, importPassword);
+    if (result.error || !result.privateKey) {
+      setImportError(result.error || 'Invalid key');
+      return;
+    }
+    
+    // Encrypted imports stay encrypted with their own password if it's as strong as
+    // a new profile's must be; otherwise, or when a plaintext key replaces a
+    // password-protected profile, they need a new password
+    let password: string | undefined;
+    if (importNeedsPassword(keyInput) && validatePassword(importPassword).isValid) {
+      password = importPassword;
+    } else if (importNeedsPassword(keyInput) || isEncrypted) {
+      const validation = validatePassword(importProtectPassword);
+      if (!validation.isValid) {
+        setImportError(importNeedsPassword(keyInput) && !importProtectPassword
+          ? 'The backup\'s password is too weak to lock your profile with. Choose a new password.'
+          : validation.error || 'Invalid password');
+        return;
+      }
+      password = importProtectPassword;
+    }
+    
+    // Ask before replacing an existing profile
+    const hasExisting = getIdentityState().hasIdentity;
+    if (hasExisting && !confirmOverwrite) {
+      setConfirmOverwrite(true);
+      return;
+    }
+    
+    const imported = await importProfile(result.privateKey, hasExisting, password);
+    if (imported.error) {
+      setImportError(imported.error);
+      return;
+    }
+    
+    disconnectRemoteSigner();
+    setExportedKeys(exportKeypair(imported.privateKey, imported.publicKey));
+    setSignerType('local');
+    setExternalNpub(null);
+    setIsEncrypted(!!password);
+    setShowPrivateKey(false);
+    setActivity(getUserActivity());
+    setRelaySettings(getRelaySettings());
+    resetImportForm();
+    setViewMode('profile');
   };
 
   const copyToClipboard = async (text: string, keyName: string) => {
@@ -92,14 +491,59 @@ function IdentityPage() {
     }
   };
 
-  const downloadKeys = (format: 'txt' | 'json') => {
+  const resetEncryptedExport = () => {
+    setExportPassword('');
+    setExportConfirmPassword('');
+    setExportError('');
+    setEncryptedBackup(null);
+  };
+
+  const handleEncryptExport = () => {
+    if (!exportedKeys) return;
+    setExportError('');
+    
+    const validation = validatePassword(exportPassword);
+    if (!validation.isValid) {
+      setExportError(validation.error || 'Invalid password');
+      return;
+    }
+    if (exportPassword !== exportConfirmPassword) {
+      setExportError('Passwords do not match');
+      return;
+    }
+    
+    setIsLoading(true);
+    // Let the button show its loading state before scrypt blocks the main thread
+    setTimeout(() => {
+      try {
+        setEncryptedBackup(createEncryptedKeyBackup(exportedKeys.privateKey.hex, exportPassword));
+        setExportPassword('');
+        setExportConfirmPassword('');
+      } catch (err) {
+        console.error('Error encrypting key:', err);
+        setExportError('Failed to encrypt key');
+      } finally {
+        setIsLoading(false);
+      }
+    }, 0);
+  };
+
+  const downloadKeys = (format: 'ncryptsec' | 'txt' | 'json') => {
     if (!exportedKeys) return;
     
     let content: string;
     let filename: string;
     let mimeType: string;
     
-    if (format === 'txt') {
+    if (format === 'ncryptsec') {
+      if (!encryptedBackup) return;
+      content = JSON.stringify({
+        ...encryptedBackup,
+        note: 'Private key encrypted with NIP-49. Import it with the ncryptsec and your password.'
+      }, null, 2);
+      filename = 'nostr-keys-encrypted.json';
+      mimeType = 'application/json';
+    } else if (format === 'txt') {
       content = `Nostr Profile Keys
 ====================
 
@@ -137,6 +581,157 @@ Generated: ${new Date().toISOString()}
     URL.revokeObjectURL(url);
   };
 
+  const renderImportSection = () => {
+    if (!showImport) {
+      return (
+        <button
+          className="w-full px-4 py-2.5 mb-3 bg-transparent border border-border rounded-lg text-text-secondary text-sm cursor-pointer transition-all duration-200 flex items-center justify-center gap-2 hover:border-nostr-purple hover:text-nostr-purple"
+          onClick={() => setShowImport(true)}
+        >
+          <Upload size={16} />
+          {viewMode === 'create' ? 'Import Existing Key' : 'Import a Different Key'}
+        </button>
+      );
+    }
+    
+    const keyInput = importFile?.content ?? importInput;
+    
+    return (
+      <div className="p-4 mb-3 bg-bg-tertiary border border-border rounded-xl">
+        <h3 className="text-sm font-semibold mb-1 text-text-primary flex items-center gap-2">
+          <Upload size={16} />
+          Import Key
+        </h3>
+        <p className="text-xs text-text-muted mb-3">Paste an nsec, hex private key or ncryptsec, or choose a .json backup downloaded from Nostramp.</p>
+        
+        {importFile ? (
+          <div className="flex items-center gap-2 bg-bg-card border border-border rounded-xl px-3 py-2 mb-2">
+            <span className="flex-1 text-xs text-text-primary break-all">{importFile.name}</span>
+            <button
+              className="bg-transparent border-none p-0 text-text-muted text-xs cursor-pointer hover:text-text-primary"
+              onClick={() => setImportFile(null)}
+            >
+              Remove
+            </button>
+          </div>
+        ) : (
+          <input
+            type="password"
+            placeholder="nsec1... / hex / ncryptsec1..."
+            value={importInput}
+            onChange={(e) => {
+              setImportInput(e.target.value);
+              setConfirmOverwrite(false);
+            }}
+            className="w-full bg-bg-card border border-border rounded-xl px-3 py-2 mb-2 text-text-primary text-sm font-mono outline-none transition-colors duration-200 focus:border-nostr-purple placeholder:text-text-muted"
+            autoComplete="off"
+          />
+        )}
+        
+        {!importFile && (
+          <label className="block text-xs text-text-muted mb-2 cursor-pointer hover:text-nostr-purple">
+            Or choose a backup file
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => handleImportFile(e.target.files?.[0])}
+            />
+          </label>
+        )}
+        
+        {importNeedsPassword(keyInput) && (
+          <input
+            type="password"
+            placeholder="Password for the encrypted key"
+            value={importPassword}
+            onChange={(e) => setImportPassword(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleImportKey()}
+            className="w-full bg-bg-card border border-border rounded-xl px-3 py-2 mb-2 text-text-primary text-sm outline-none transition-colors duration-200 focus:border-nostr-purple placeholder:text-text-muted"
+          />
+        )}
+        
+        {keyInput.trim() && (importNeedsPassword(keyInput)
+          ? !!importPassword && !validatePassword(importPassword).isValid
+          : isEncrypted
+        ) && (
+          <input
+            type="password"
+            placeholder={importNeedsPassword(keyInput) ? 'New password to lock your profile with' : 'New password to keep your profile locked'}
+            value={importProtectPassword}
+            onChange={(e) => setImportProtectPassword(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleImportKey()}
+            className="w-full bg-bg-card border border-border rounded-xl px-3 py-2 mb-2 text-text-primary text-sm outline-none transition-colors duration-200 focus:border-nostr-purple placeholder:text-text-muted"
+            autoComplete="new-password"
+          />
+        )}
+        
+        {confirmOverwrite && (
+          <div className="flex items-start gap-2 px-3 py-2 mb-2 bg-red-500/10 border border-red-500/30 rounded-xl">
+            <AlertTriangle size={14} className="text-red-400 shrink-0 mt-0.5" />
+            <span className="text-text-secondary text-xs">This replaces your current profile in this browser. Make sure you've backed up its keys, or you will lose access to it.</span>
+          </div>
+        )}
+        
+        {importError && (
+          <p className="text-red-400 text-xs mb-2">{importError}</p>
+        )}
+        
+        <div className="flex gap-2">
+          <button
+            className={`flex-1 px-4 py-2 border-none rounded-lg text-white text-sm font-medium cursor-pointer transition-opacity duration-200 hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed ${
+              confirmOverwrite ? 'bg-red-500' : 'bg-gradient-to-br from-nostr-purple to-nostr-orange'
+            }`}
+            onClick={handleImportKey}
+            disabled={!keyInput.trim()}
+          >
+            {confirmOverwrite ? 'Yes, Replace Profile' : 'Import'}
+          </button>
+          <button
+            className="flex-1 px-4 py-2 bg-bg-card border border-border rounded-lg text-text-secondary text-sm cursor-pointer transition-all duration-200 hover:border-text-muted hover:text-text-primary"
+            onClick={resetImportForm}
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  const renderBurnSection = () => (
+    showBurnConfirm ? (
+      <div className="p-4 bg-red-500/10 border border-red-500/30 rounded-xl">
+        <div className="flex items-center gap-2 mb-3">
+          <AlertTriangle size={16} className="text-red-400" />
+          <span className="text-red-400 font-medium text-sm">Are you sure?</span>
+        </div>
+        <p className="text-text-secondary text-sm mb-4">This will permanently delete your local profile. Make sure you've backed up your keys!</p>
+        <div className="flex gap-3">
+          <button 
+            className="flex-1 px-4 py-2 bg-red-500 border-none rounded-lg text-white text-sm font-medium cursor-pointer transition-opacity duration-200 hover:opacity-90"
+            onClick={handleBurnProfile}
+          >
+            Yes, Burn Profile
+          </button>
+          <button 
+            className="flex-1 px-4 py-2 bg-bg-tertiary border border-border rounded-lg text-text-secondary text-sm cursor-pointer transition-all duration-200 hover:border-text-muted hover:text-text-primary"
+            onClick={() => setShowBurnConfirm(false)}
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    ) : (
+      <button 
+        className="w-full px-6 py-3 bg-bg-tertiary border border-red-500/30 rounded-xl text-red-400 text-base font-medium cursor-pointer transition-all duration-200 flex items-center justify-center gap-2 hover:bg-red-500/10 hover:border-red-500/50" 
+        onClick={() => setShowBurnConfirm(true)}
+      >
+        <Flame size={16} />
+        Burn Profile
+      </button>
+    )
+  );
+
   const renderCreateView = () => (
     <div className="bg-bg-card border border-border rounded-3xl p-10 backdrop-blur-sm w-full max-w-md">
       <div className="text-center mb-8">
@@ -162,6 +757,79 @@ Generated: ${new Date().toISOString()}
         {isLoading ? 'Creating...' : 'Create Profile'}
       </button>
       
+      {hasNip07Extension() && (
+        <button
+          className="w-full mt-3 px-6 py-3 bg-transparent border border-border rounded-lg text-text-secondary text-base font-medium cursor-pointer transition-all duration-200 flex items-center justify-center gap-2 hover:border-nostr-purple hover:text-nostr-purple disabled:opacity-60 disabled:cursor-not-allowed"
+          onClick={handleUseExtension}
+          disabled={isLoading}
+        >
+          <Puzzle size={16} />
+          Use Browser Extension (NIP-07)
+        </button>
+      )}
+      
+      {/* Remote Signer (NIP-46) */}
+      <div className="mt-6 pt-6 border-t border-border">
+        <h3 className="text-sm font-semibold mb-1 text-text-primary flex items-center gap-2">
+          <Smartphone size={16} />
+          Remote Signer (NIP-46)
+        </h3>
+        <p className="text-xs text-text-muted mb-3">Sign with a bunker or signer app. Your private key never touches this site.</p>
+        <div className="flex gap-2 mb-3">
+          <input
+            type="text"
+            placeholder="bunker://..."
+            value={bunkerInput}
+            onChange={(e) => setBunkerInput(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && bunkerInput.trim() && handleConnectBunker()}
+            className="flex-1 min-w-0 bg-bg-tertiary border border-border rounded-xl px-3 py-2 text-text-primary text-sm outline-none transition-colors duration-200 focus:border-nostr-purple placeholder:text-text-muted"
+            disabled={isLoading}
+          />
+          <button
+            className="px-3 py-2 bg-transparent border border-border rounded-xl text-text-secondary text-sm cursor-pointer transition-all duration-200 hover:border-nostr-purple hover:text-nostr-purple disabled:opacity-50 disabled:cursor-not-allowed"
+            onClick={handleConnectBunker}
+            disabled={isLoading || !bunkerInput.trim()}
+          >
+            {isLoading ? 'Connecting...' : 'Connect'}
+          </button>
+        </div>
+        
+        {connectQr ? (
+          <div className="flex flex-col items-center gap-3 p-4 bg-bg-tertiary rounded-xl">
+            <img src={connectQr.image} alt="nostrconnect QR code" className="w-[200px] h-[200px] rounded-lg bg-white" />
+            <p className="text-xs text-text-muted text-center">Scan with your signer app, then approve the connection.</p>
+            <div className="flex gap-2 w-full">
+              <button
+                className="flex-1 px-3 py-2 bg-transparent border border-border rounded-lg text-text-secondary text-xs cursor-pointer transition-all duration-200 flex items-center justify-center gap-1.5 hover:border-nostr-purple hover:text-nostr-purple"
+                onClick={() => copyToClipboard(connectQr.uri, 'nostrconnect')}
+              >
+                {copiedKey === 'nostrconnect' ? <Check size={14} /> : <Copy size={14} />}
+                Copy URI
+              </button>
+              <button
+                className="flex-1 px-3 py-2 bg-transparent border border-border rounded-lg text-text-secondary text-xs cursor-pointer transition-all duration-200 hover:border-text-muted hover:text-text-primary"
+                onClick={handleCancelConnectQr}
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            className="w-full px-4 py-2.5 bg-transparent border border-border rounded-lg text-text-secondary text-sm cursor-pointer transition-all duration-200 flex items-center justify-center gap-2 hover:border-nostr-purple hover:text-nostr-purple"
+            onClick={handleShowConnectQr}
+          >
+            <QrCode size={16} />
+            Pair with QR Code
+          </button>
+        )}
+      </div>
+      
+      {/* Import Existing Key */}
+      <div className="mt-6 pt-6 border-t border-border">
+        {renderImportSection()}
+      </div>
+      
       <div className="flex items-center justify-center gap-2 mt-6 pt-6 border-t border-border text-text-muted text-sm">
         <Shield size={16} />
         <span>Your keys are stored locally in your browser</span>
@@ -169,6 +837,47 @@ Generated: ${new Date().toISOString()}
     </div>
   );
 
+  const renderLockedView = () => (
+    <div className="bg-bg-card border border-border rounded-3xl p-10 backdrop-blur-sm w-full max-w-md">
+      <div className="text-center mb-8">
+        <div className="w-16 h-16 flex items-center justify-center mx-auto mb-4 bg-gradient-to-br from-nostr-purple to-nostr-orange rounded-2xl text-white">
+          <Lock size={32} />
+        </div>
+        <h2 className="text-2xl font-bold mb-2 text-text-primary">Profile Locked</h2>
+        <p className="text-text-muted text-sm">Enter your password to unlock your profile for this session</p>
+      </div>
+      
+      {passwordError && (
+        <div className="flex items-center gap-2 px-4 py-3 bg-red-500/10 border border-red-500/30 rounded-xl text-red-400 text-sm mb-5">
+          <AlertTriangle size={16} />
+          <span>{passwordError}</span>
+        </div>
+      )}
+      
+      <input
+        type="password"
+        placeholder="Password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        onKeyDown={(e) => e.key === 'Enter' && handleUnlock()}
+        className="w-full bg-bg-tertiary border border-border rounded-xl px-4 py-3 mb-4 text-text-primary text-base outline-none transition-colors duration-200 focus:border-nostr-purple placeholder:text-text-muted"
+        autoFocus
+      />
+      
+      <button
+        className="w-full px-6 py-3 mb-6 bg-gradient-to-br from-nostr-purple to-nostr-orange border-none rounded-lg text-white text-base font-semibold cursor-pointer transition-all duration-300 hover:-translate-y-0.5 hover:shadow-[0_10px_30px_rgba(168,85,247,0.4)] disabled:opacity-60 disabled:cursor-not-allowed"
+        onClick={handleUnlock}
+        disabled={isLoading || !password}
+      >
+        {isLoading ? 'Unlocking...' : 'Unlock'}
+      </button>
+      
+      <p className="text-xs text-text-muted mb-3 text-center">Forgot your password? Import your key from a backup, or burn this profile.</p>
+      {renderImportSection()}
+      {renderBurnSection()}
+    </div>
+  );
+
   const renderProfileView = () => (
     <div className="bg-bg-card border border-border rounded-3xl p-10 backdrop-blur-sm w-full max-w-lg">
       <div className="text-center mb-8">
@@ -176,7 +885,11 @@ Generated: ${new Date().toISOString()}
           <Key size={32} />
         </div>
         <h2 className="text-2xl font-bold mb-2 text-text-primary">Your Profile</h2>
-        <p className="text-emerald-400 text-sm">Profile ready to use</p>
+        <p className="text-emerald-400 text-sm">
+          {signerType === 'nip07' ? 'Signing with your browser extension' :
+            signerType === 'nip46' ? 'Signing with your remote signer' :
+            'Profile ready to use'}
+        </p>
       </div>
       
       {/* Activity Section */}
@@ -193,9 +906,45 @@ Generated: ${new Date().toISOString()}
             <span className="text-2xl font-bold text-text-primary">{activity.likes}</span>
             <span className="text-xs text-text-muted">Likes</span>
           </div>
+          <Link to="/saved" className="flex flex-col items-center gap-1 px-6 py-4 bg-bg-tertiary rounded-xl min-w-[80px] no-underline transition-colors duration-200 hover:bg-bg-card">
+            <Bookmark size={20} className="text-text-muted" />
+            <span className="text-2xl font-bold text-text-primary">{activity.saves}</span>
+            <span className="text-xs text-text-muted">Saved</span>
+          </Link>
         </div>
       </div>
       
+      {/* External Signer Section */}
+      {externalNpub && (
+        <div className="mb-8 pb-8 border-b border-border">
+          <h3 className="text-base font-semibold mb-4 text-text-primary flex items-center gap-2">
+            {signerType === 'nip46' ? <Smartphone size={16} /> : <Puzzle size={16} />}
+            {signerType === 'nip46' ? 'Remote Signer' : 'Browser Extension'}
+          </h3>
+          <label className="block text-sm text-text-muted mb-2">Public Key (npub)</label>
+          <div className="flex items-center gap-2 bg-bg-tertiary border border-border rounded-xl p-3 mb-3">
+            <code className="flex-1 font-mono text-xs break-all text-text-primary">{externalNpub}</code>
+            <button
+              className="flex items-center justify-center w-8 h-8 bg-bg-card border border-border rounded-lg text-text-muted cursor-pointer transition-all duration-200 shrink-0 hover:border-nostr-purple hover:text-nostr-purple"
+              onClick={() => copyToClipboard(externalNpub, 'npub')}
+            >
+              {copiedKey === 'npub' ? <Check size={16} /> : <Copy size={16} />}
+            </button>
+          </div>
+          <p className="text-xs text-text-muted mb-3">
+            {signerType === 'nip46'
+              ? 'Your private key stays with your remote signer. Nostramp sends it signing requests over relays.'
+              : 'Your private key stays in the extension. Nostramp only asks it to sign.'}
+          </p>
+          <button
+            className="w-full px-4 py-2.5 bg-transparent border border-border rounded-lg text-text-secondary text-sm cursor-pointer transition-all duration-200 flex items-center justify-center gap-2 hover:border-nostr-orange hover:text-nostr-orange"
+            onClick={handleDisconnectSigner}
+          >
+            {signerType === 'nip46' ? 'Disconnect Signer' : 'Disconnect Extension'}
+          </button>
+        </div>
+      )}
+      
       {/* Keys Section */}
       {exportedKeys && (
         <div className="mb-8">
@@ -242,19 +991,240 @@ Generated: ${new Date().toISOString()}
             <span className="text-text-secondary text-sm">Never share your private key (nsec) with anyone!</span>
           </div>
           
-          <div className="flex gap-3 max-sm:flex-col">
-            <button className="flex-1 px-4 py-2.5 bg-transparent border border-border rounded-lg text-text-secondary text-sm cursor-pointer transition-all duration-200 flex items-center justify-center gap-2 hover:border-nostr-purple hover:text-nostr-purple" onClick={() => downloadKeys('txt')}>
-              <Download size={16} />
-              Download .txt
-            </button>
-            <button className="flex-1 px-4 py-2.5 bg-transparent border border-border rounded-lg text-text-secondary text-sm cursor-pointer transition-all duration-200 flex items-center justify-center gap-2 hover:border-nostr-purple hover:text-nostr-purple" onClick={() => downloadKeys('json')}>
-              <Download size={16} />
-              Download .json
-            </button>
+          {/* Encrypted backup (NIP-49) - the default export */}
+          <div className="bg-bg-tertiary border border-border rounded-xl p-4 mb-4">
+            <h4 className="text-sm font-semibold mb-1 text-text-primary flex items-center gap-2">
+              <Lock size={14} />
+              Encrypted Backup (recommended)
+            </h4>
+            <p className="text-xs text-text-muted mb-3">Encrypts your private key with a password (NIP-49). The backup is useless without the password, so it's safe to keep in Downloads or cloud sync.</p>
+            
+            {encryptedBackup ? (
+              <>
+                <label className="block text-xs text-text-muted mb-2">Encrypted key (ncryptsec)</label>
+                <div className="flex items-center gap-2 bg-bg-card border border-border rounded-xl p-3 mb-3">
+                  <code className="flex-1 font-mono text-xs break-all text-text-primary">{encryptedBackup.ncryptsec}</code>
+                  <button
+                    className="flex items-center justify-center w-8 h-8 bg-bg-tertiary border border-border rounded-lg text-text-muted cursor-pointer transition-all duration-200 shrink-0 hover:border-nostr-purple hover:text-nostr-purple"
+                    onClick={() => copyToClipboard(encryptedBackup.ncryptsec, 'ncryptsec')}
+                  >
+                    {copiedKey === 'ncryptsec' ? <Check size={16} /> : <Copy size={16} />}
+                  </button>
+                </div>
+                <div className="flex gap-3 max-sm:flex-col">
+                  <button
+                    className="flex-1 px-4 py-2.5 bg-gradient-to-br from-nostr-purple to-nostr-orange border-none rounded-lg text-white text-sm font-semibold cursor-pointer transition-all duration-200 flex items-center justify-center gap-2 hover:opacity-90"
+                    onClick={() => downloadKeys('ncryptsec')}
+                  >
+                    <Download size={16} />
+                    Download Encrypted .json
+                  </button>
+                  <button
+                    className="px-4 py-2.5 bg-transparent border border-border rounded-lg text-text-secondary text-sm cursor-pointer transition-all duration-200 hover:border-nostr-purple hover:text-nostr-purple"
+                    onClick={resetEncryptedExport}
+                  >
+                    Use Another Password
+                  </button>
+                </div>
+              </>
+            ) : (
+              <>
+                <input
+                  type="password"
+                  placeholder="Backup password (min. 8 characters)"
+                  value={exportPassword}
+                  onChange={(e) => setExportPassword(e.target.value)}
+                  className="w-full bg-bg-card border border-border rounded-xl px-3 py-2 mb-2 text-text-primary text-sm outline-none transition-colors duration-200 focus:border-nostr-purple placeholder:text-text-muted"
+                />
+                <input
+                  type="password"
+                  placeholder="Confirm password"
+                  value={exportConfirmPassword}
+                  onChange={(e) => setExportConfirmPassword(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleEncryptExport()}
+                  className="w-full bg-bg-card border border-border rounded-xl px-3 py-2 mb-2 text-text-primary text-sm outline-none transition-colors duration-200 focus:border-nostr-purple placeholder:text-text-muted"
+                />
+                {exportError && <p className="text-red-400 text-xs mb-2">{exportError}</p>}
+                <button
+                  className="w-full px-4 py-2.5 bg-gradient-to-br from-nostr-purple to-nostr-orange border-none rounded-lg text-white text-sm font-semibold cursor-pointer transition-all duration-200 flex items-center justify-center gap-2 hover:opacity-90 disabled:opacity-60 disabled:cursor-not-allowed"
+                  onClick={handleEncryptExport}
+                  disabled={isLoading || !exportPassword}
+                >
+                  <Lock size={16} />
+                  {isLoading ? 'Encrypting...' : 'Create Encrypted Backup'}
+                </button>
+              </>
+            )}
           </div>
+          
+          {/* Plaintext backups - kept for other clients that can't read ncryptsec */}
+          {showPlaintextExport ? (
+            <>
+              <p className="text-xs text-nostr-orange mb-2">Unencrypted backups contain your private key in plain text. Anyone who finds the file can take over your profile.</p>
+              <div className="flex gap-3 max-sm:flex-col">
+                <button className="flex-1 px-4 py-2.5 bg-transparent border border-border rounded-lg text-text-secondary text-sm cursor-pointer transition-all duration-200 flex items-center justify-center gap-2 hover:border-nostr-purple hover:text-nostr-purple" onClick={() => downloadKeys('txt')}>
+                  <Download size={16} />
+                  Download .txt
+                </button>
+                <button className="flex-1 px-4 py-2.5 bg-transparent border border-border rounded-lg text-text-secondary text-sm cursor-pointer transition-all duration-200 flex items-center justify-center gap-2 hover:border-nostr-purple hover:text-nostr-purple" onClick={() => downloadKeys('json')}>
+                  <Download size={16} />
+                  Download .json
+                </button>
+              </div>
+            </>
+          ) : (
+            <button
+              className="text-xs text-text-muted bg-transparent border-none cursor-pointer p-0 hover:text-nostr-orange"
+              onClick={() => setShowPlaintextExport(true)}
+            >
+              Download an unencrypted backup instead
+            </button>
+          )}
+        </div>
+      )}
+      
+      {/* Password Protection Section - only the local key can be encrypted */}
+      {signerType === 'local' && (
+        <div className="mb-8 pb-8 border-b border-border">
+          <h3 className="text-base font-semibold mb-1 text-text-primary flex items-center gap-2">
+            <Lock size={16} />
+            Password Protection
+          </h3>
+          {isEncrypted ? (
+            <>
+              <p className="text-xs text-text-muted mb-4">Your private key is encrypted with your password. It stays unlocked until you lock it or close this tab.</p>
+              <div className="flex gap-3 max-sm:flex-col">
+                <button className="flex-1 px-4 py-2.5 bg-transparent border border-border rounded-lg text-text-secondary text-sm cursor-pointer transition-all duration-200 flex items-center justify-center gap-2 hover:border-nostr-purple hover:text-nostr-purple" onClick={handleLockNow}>
+                  <Lock size={16} />
+                  Lock Now
+                </button>
+                <button className="flex-1 px-4 py-2.5 bg-transparent border border-border rounded-lg text-text-secondary text-sm cursor-pointer transition-all duration-200 flex items-center justify-center gap-2 hover:border-nostr-orange hover:text-nostr-orange" onClick={handleRemovePassword}>
+                  <Unlock size={16} />
+                  Remove Password
+                </button>
+              </div>
+            </>
+          ) : (
+            <>
+              <p className="text-xs text-text-muted mb-4">Your private key is stored unencrypted in this browser. Set a password to encrypt it at rest.</p>
+              <input
+                type="password"
+                placeholder="New password (min. 8 characters)"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="w-full bg-bg-tertiary border border-border rounded-xl px-3 py-2 mb-2 text-text-primary text-sm outline-none transition-colors duration-200 focus:border-nostr-purple placeholder:text-text-muted"
+              />
+              <input
+                type="password"
+                placeholder="Confirm password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSetPassword()}
+                className="w-full bg-bg-tertiary border border-border rounded-xl px-3 py-2 mb-3 text-text-primary text-sm outline-none transition-colors duration-200 focus:border-nostr-purple placeholder:text-text-muted"
+              />
+              <button
+                className="w-full px-4 py-2.5 bg-transparent border border-border rounded-lg text-text-secondary text-sm cursor-pointer transition-all duration-200 flex items-center justify-center gap-2 hover:border-nostr-purple hover:text-nostr-purple disabled:opacity-60 disabled:cursor-not-allowed"
+                onClick={handleSetPassword}
+                disabled={isLoading || !password}
+              >
+                <Lock size={16} />
+                {isLoading ? 'Encrypting...' : 'Lock with Password'}
+              </button>
+            </>
+          )}
+          {passwordError && (
+            <div className="flex items-center gap-2 px-3 py-2 mt-3 bg-red-500/10 border border-red-500/30 rounded-xl text-red-400 text-xs">
+              <AlertTriangle size={14} />
+              <span>{passwordError}</span>
+            </div>
+          )}
         </div>
       )}
       
+      {/* Relays Section */}
+      <div className="mb-8 pb-8 border-b border-border">
+        <h3 className="text-base font-semibold mb-1 text-text-primary flex items-center gap-2">
+          <Radio size={16} />
+          Relays
+        </h3>
+        <p className="text-xs text-text-muted mb-4">Choose which relays posts are read from and where your replies and likes are published.</p>
+        
+        <div className="space-y-2 mb-3">
+          {relaySettings.map((relay) => (
+            <div key={relay.url} className="flex items-center gap-2 bg-bg-tertiary border border-border rounded-xl px-3 py-2">
+              {renderRelayStatus(relay.url)}
+              <code className="flex-1 font-mono text-xs break-all text-text-primary">{relay.url}</code>
+              <button
+                className={`px-2 py-1 rounded-md text-xs border cursor-pointer transition-all duration-200 ${
+                  relay.read ? 'border-nostr-purple text-nostr-purple bg-nostr-purple/10' : 'border-border text-text-muted bg-transparent'
+                }`}
+                onClick={() => handleToggleRelay(relay, 'read')}
+                title="Read from this relay"
+              >
+                Read
+              </button>
+              <button
+                className={`px-2 py-1 rounded-md text-xs border cursor-pointer transition-all duration-200 ${
+                  relay.write ? 'border-nostr-orange text-nostr-orange bg-nostr-orange/10' : 'border-border text-text-muted bg-transparent'
+                }`}
+                onClick={() => handleToggleRelay(relay, 'write')}
+                title="Publish to this relay"
+              >
+                Write
+              </button>
+              <button
+                className="flex items-center justify-center w-7 h-7 bg-bg-card border border-border rounded-lg text-text-muted cursor-pointer transition-all duration-200 shrink-0 hover:border-red-500/50 hover:text-red-400"
+                onClick={() => handleRemoveRelay(relay.url)}
+                title="Remove relay"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+        
+        <div className="flex gap-2 mb-3">
+          <input
+            type="text"
+            placeholder="wss://relay.example.com"
+            value={newRelayUrl}
+            onChange={(e) => setNewRelayUrl(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddRelay()}
+            className="flex-1 bg-bg-tertiary border border-border rounded-xl px-3 py-2 text-text-primary text-sm outline-none transition-colors duration-200 focus:border-nostr-purple placeholder:text-text-muted"
+          />
+          <button
+            className="flex items-center gap-1.5 px-3 py-2 bg-transparent border border-border rounded-xl text-text-secondary text-sm cursor-pointer transition-all duration-200 hover:border-nostr-purple hover:text-nostr-purple disabled:opacity-50 disabled:cursor-not-allowed"
+            onClick={handleAddRelay}
+            disabled={!newRelayUrl.trim()}
+          >
+            <Plus size={14} />
+            Add
+          </button>
+        </div>
+        
+        {relayError && (
+          <div className="flex items-center gap-2 px-3 py-2 bg-red-500/10 border border-red-500/30 rounded-xl text-red-400 text-xs mb-3">
+            <AlertTriangle size={14} />
+            <span>{relayError}</span>
+          </div>
+        )}
+        {relayStatus && (
+          <div className="flex items-center gap-2 px-3 py-2 bg-emerald-500/10 border border-emerald-500/30 rounded-xl text-emerald-400 text-xs mb-3">
+            <Check size={14} />
+            <span>{relayStatus}</span>
+          </div>
+        )}
+        
+        <button
+          className="w-full px-4 py-2.5 bg-transparent border border-border rounded-lg text-text-secondary text-sm cursor-pointer transition-all duration-200 flex items-center justify-center gap-2 hover:border-nostr-purple hover:text-nostr-purple disabled:opacity-60 disabled:cursor-not-allowed"
+          onClick={handlePublishRelays}
+          disabled={isPublishingRelays}
+        >
+          <Send size={16} />
+          {isPublishingRelays ? 'Publishing...' : 'Publish Relay List (NIP-65)'}
+        </button>
+      </div>
+      
       {/* Client Links */}
       <div className="mb-6 p-5 bg-bg-tertiary rounded-xl">
         <h3 className="text-sm font-semibold mb-2 text-text-primary">Use in Other Clients</h3>
@@ -279,38 +1249,9 @@ Generated: ${new Date().toISOString()}
         </div>
       </div>
       
-      {/* Burn Profile Section */}
-      {showBurnConfirm ? (
-        <div className="p-4 bg-red-500/10 border border-red-500/30 rounded-xl">
-          <div className="flex items-center gap-2 mb-3">
-            <AlertTriangle size={16} className="text-red-400" />
-            <span className="text-red-400 font-medium text-sm">Are you sure?</span>
-          </div>
-          <p className="text-text-secondary text-sm mb-4">This will permanently delete your local profile. Make sure you've backed up your keys!</p>
-          <div className="flex gap-3">
-            <button 
-              className="flex-1 px-4 py-2 bg-red-500 border-none rounded-lg text-white text-sm font-medium cursor-pointer transition-opacity duration-200 hover:opacity-90"
-              onClick={handleBurnProfile}
-            >
-              Yes, Burn Profile
-            </button>
-            <button 
-              className="flex-1 px-4 py-2 bg-bg-tertiary border border-border rounded-lg text-text-secondary text-sm cursor-pointer transition-all duration-200 hover:border-text-muted hover:text-text-primary"
-              onClick={() => setShowBurnConfirm(false)}
-            >
-              Cancel
-            </button>
-          </div>
-        </div>
-      ) : (
-        <button 
-          className="w-full px-6 py-3 bg-bg-tertiary border border-red-500/30 rounded-xl text-red-400 text-base font-medium cursor-pointer transition-all duration-200 flex items-center justify-center gap-2 hover:bg-red-500/10 hover:border-red-500/50" 
-          onClick={() => setShowBurnConfirm(true)}
-        >
-          <Flame size={16} />
-          Burn Profile
-        </button>
-      )}
+      {/* Import / Burn Profile Section */}
+      {renderImportSection()}
+      {renderBurnSection()}
     </div>
   );
 
@@ -340,6 +1281,7 @@ Generated: ${new Date().toISOString()}
       <main className="flex-1 flex flex-col items-center justify-start px-8 py-8 relative z-1 max-w-3xl mx-auto w-full pt-12">
         {viewMode === 'create' && renderCreateView()}
         {viewMode === 'profile' && renderProfileView()}
+        {viewMode === 'locked' && renderLockedView()}
       </main>
       
       <footer className="flex items-center justify-center gap-3 px-8 py-8 text-text-muted text-sm relative z-1">
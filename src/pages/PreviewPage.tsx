@@ -1,5 +1,6 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useParams, Link } from 'react-router-dom';
+import { nip19 } from 'nostr-tools';
 import { 
   AlertTriangle, 
   Heart, 
@@ -7,16 +8,52 @@ import {
   MessageCircle, 
   Zap, 
   BadgeCheck,
-  User
+  User,
+  Lock,
+  Puzzle,
+  ThumbsDown,
+  SmilePlus,
+  Bookmark,
+  Quote,
+  X,
+  Code2,
+  Copy,
+  Check
 } from 'lucide-react';
 import { 
   getIdentityState,
   getProfileKey,
   createProfile,
+  unlockProfile,
+  getSignerPreference,
   type IdentityState
 } from '../storage.identity';
-import { formatRelativeTime, generateEphemeralKeypair } from '../nostr';
-import { usePostPreview, getDisplayName, formatReactionCount } from '../hooks/usePostPreview';
+import {
+  createLocalSigner,
+  getActiveSigner,
+  hasNip07Extension,
+  connectNip07Signer,
+  type NostrSigner
+} from '../signer';
+import {
+  formatRelativeTime,
+  formatReactionCount,
+  getDisplayName,
+  generateEphemeralKeypair,
+  buildReplyTree,
+  isArticle,
+  parseArticle,
+  type Event,
+  type CustomEmoji
+} from '../nostr';
+import { usePostPreview, TOP_ZAPPERS_SHOWN } from '../hooks/usePostPreview';
+import ReplyThread from '../components/ReplyThread';
+import ArticleBody from '../components/ArticleBody';
+import NoteContent from '../components/NoteContent';
+import MediaGallery from '../components/MediaGallery';
+import ZapPanel from '../components/ZapPanel';
+import EmojiPicker from '../components/EmojiPicker';
+import { canZap } from '../zaps';
 
 /**
  * Get or create profile keys - uses the same storage as profile
@@ -47,6 +84,23 @@ function PreviewPage() {
   });
   const [commentText, setCommentText] = useState<string>('');
   const [isPosting, setIsPosting] = useState<boolean>(false);
+  const [showUnlock, setShowUnlock] = useState<boolean>(false);
+  const [unlockPassword, setUnlockPassword] = useState<string>('');
+  const [unlockError, setUnlockError] = useState<string>('');
+  const [isUnlocking, setIsUnlocking] = useState<boolean>(false);
+  const [signerError, setSignerError] = useState<string>('');
+  const [showZap, setShowZap] = useState<boolean>(false);
+  const [showEmojiPicker, setShowEmojiPicker] = useState<boolean>(false);
+  const [showSaveOptions, setShowSaveOptions] = useState<boolean>(false);
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+  const [showRepostOptions, setShowRepostOptions] = useState<boolean>(false);
+  const [isReposting, setIsReposting] = useState<boolean>(false);
+  const [isQuoting, setIsQuoting] = useState<boolean>(false);
+  const [quoteText, setQuoteText] = useState<string>('');
+  const [postedQuote, setPostedQuote] = useState<Event | null>(null);
+  const [showEmbedOptions, setShowEmbedOptions] = useState<boolean>(false);
+  const [embedTheme, setEmbedTheme] = useState<'dark' | 'light'>('dark');
+  const [embedCopied, setEmbedCopied] = useState<boolean>(false);
   
   // Use the custom hook for post preview
   const { 
@@ -59,30 +113,112 @@ function PreviewPage() {
     isVerified,
     userActivity,
     isLikedByUser,
+    isSavedByUser,
+    isSavedPrivately,
+    isRepostedByUser,
     userReplies,
+    replies,
+    participantProfiles,
+    hasMoreReplies,
+    isLoadingMoreReplies,
+    loadMoreReplies,
+    userReactions,
+    customEmojis,
     postReply,
-    toggleLike
+    toggleLike,
+    deleteReply,
+    react,
+    toggleSave,
+    toggleRepost,
+    quote,
+    refreshUserActivity
   } = usePostPreview(id);
 
+  // The user's own replies are fetched separately so they show even on long threads
+  const replyTree = useMemo(
+    () => (event ? buildReplyTree(event.id, [...replies, ...userReplies]) : []),
+    [event, replies, userReplies]
+  );
+
+  // The user's own custom emoji, plus custom emoji others reacted with so they can join in
+  const pickerEmojis = useMemo(() => {
+    const emojis = new Map<string, CustomEmoji>();
+    customEmojis.forEach(emoji => emojis.set(emoji.shortcode, emoji));
+    reactions.emojiReactions.forEach(group => {
+      const shortcode = group.content.slice(1, -1);
+      if (group.emojiUrl && !emojis.has(shortcode)) {
+        emojis.set(shortcode, { shortcode, url: group.emojiUrl });
+      }
+    });
+    return Array.from(emojis.values());
+  }, [customEmojis, reactions.emojiReactions]);
+
   useEffect(() => {
     // Check identity state on mount
     const state = getIdentityState();
     setIdentityState(state);
   }, []);
 
-  // Ensure identity is available before actions - creates profile keys if needed
-  const ensureIdentity = useCallback((): { privateKey: string; publicKey: string } => {
-    return getOrCreateProfileKeys();
+  // Ensure a signer is available before actions - creates profile keys if needed
+  // Returns null (and asks for the password) when the profile is locked
+  const ensureSigner = useCallback((): NostrSigner | null => {
+    setSignerError('');
+    
+    if (getSignerPreference().type !== 'local') {
+      const signer = getActiveSigner();
+      if (!signer) {
+        setSignerError('Your signer is not available. Reconnect it on your profile page.');
+      }
+      return signer;
+    }
+    
+    if (getIdentityState().isLocked) {
+      setShowUnlock(true);
+      return null;
+    }
+    return createLocalSigner(getOrCreateProfileKeys().privateKey);
   }, []);
 
+  const handleUseExtension = async () => {
+    setSignerError('');
+    try {
+      await connectNip07Signer();
+      setIdentityState(getIdentityState());
+      refreshUserActivity();
+    } catch (err) {
+      console.error('Error connecting extension:', err);
+      setSignerError('Could not connect to your Nostr browser extension');
+    }
+  };
+
+  const handleUnlock = async () => {
+    if (!unlockPassword || isUnlocking) return;
+    
+    setIsUnlocking(true);
+    setUnlockError('');
+    
+    const result = await unlockProfile(unlockPassword);
+    if (result.error) {
+      setUnlockError(result.error);
+    } else {
+      setShowUnlock(false);
+      setUnlockPassword('');
+      setIdentityState(getIdentityState());
+      refreshUserActivity();
+    }
+    
+    setIsUnlocking(false);
+  };
+
   const handlePostReply = async () => {
     if (!commentText.trim() || isPosting) return;
     
-    const keys = ensureIdentity();
+    const signer = ensureSigner();
+    if (!signer) return;
     
     setIsPosting(true);
     try {
-      const result = await postReply(keys.privateKey, commentText.trim());
+      const result = await postReply(signer, commentText.trim());
       if (result) {
         setCommentText('');
         // Update identity state after posting (profile may have been created)
@@ -95,14 +231,112 @@ function PreviewPage() {
     setIsPosting(false);
   };
 
+  // Reply to a reply in the thread - returns true once posted so the inline form can close
+  const handleReplyTo = async (parent: Event, content: string): Promise<boolean> => {
+    const signer = ensureSigner();
+    if (!signer) return false;
+    
+    const result = await postReply(signer, content, parent);
+    setIdentityState(getIdentityState());
+    return !!result;
+  };
+
+  const handleReact = async (content: string, emoji?: CustomEmoji) => {
+    const signer = ensureSigner();
+    if (!signer) return;
+    
+    setShowEmojiPicker(false);
+    await react(signer, content, emoji);
+    // Update identity state after reacting (profile may have been created)
+    setIdentityState(getIdentityState());
+  };
+
+  const handleDeleteReply = async (reply: Event): Promise<boolean> => {
+    const signer = ensureSigner();
+    if (!signer) return false;
+    return deleteReply(signer, reply);
+  };
+
   const handleToggleLike = async () => {
-    const keys = ensureIdentity();
-    await toggleLike(keys.privateKey);
+    const signer = ensureSigner();
+    if (!signer) return;
+    await toggleLike(signer);
     // Update identity state after liking (profile may have been created)
     const state = getIdentityState();
     setIdentityState(state);
   };
 
+  const handleToggleSave = async (isPrivate: boolean = false) => {
+    if (isSaving) return;
+    
+    const signer = ensureSigner();
+    if (!signer) return;
+    if (isPrivate && !signer.nip44) {
+      setSignerError('Your signer cannot encrypt private bookmarks');
+      return;
+    }
+    
+    setShowSaveOptions(false);
+    setIsSaving(true);
+    const saved = await toggleSave(signer, isPrivate);
+    setIsSaving(false);
+    if (!saved) {
+      setSignerError('Could not update your bookmarks. Please try again.');
+    }
+    // Update identity state after saving (profile may have been created)
+    setIdentityState(getIdentityState());
+  };
+
+  const handleToggleRepost = async () => {
+    if (isReposting) return;
+    
+    const signer = ensureSigner();
+    if (!signer) return;
+    
+    setIsReposting(true);
+    const result = await toggleRepost(signer);
+    setIsReposting(false);
+    if (result) {
+      setShowRepostOptions(false);
+    } else {
+      setSignerError(isRepostedByUser ? 'Could not undo your repost. Please try again.' : 'Could not repost. Please try again.');
+    }
+    // Update identity state after reposting (profile may have been created)
+    setIdentityState(getIdentityState());
+  };
+
+  const handlePostQuote = async () => {
+    if (!quoteText.trim() || isReposting) return;
+    
+    const signer = ensureSigner();
+    if (!signer) return;
+    
+    setIsReposting(true);
+    const result = await quote(signer, quoteText);
+    setIsReposting(false);
+    if (result) {
+      setPostedQuote(result);
+      setQuoteText('');
+      setIsQuoting(false);
+    } else {
+      setSignerError('Could not post your quote. Please try again.');
+    }
+    setIdentityState(getIdentityState());
+  };
+
+  // Blockquote that public/embed.js turns into an auto-resizing iframe (same as the oEmbed HTML)
+  const embedCode = `<blockquote class="nostramp-embed"${embedTheme === 'light' ? ' data-theme="light"' : ''}><a href="${window.location.origin}/${id}">View this note on Nostramp</a></blockquote>\n<script async src="${window.location.origin}/embed.js"></script>`;
+
+  const handleCopyEmbed = async () => {
+    try {
+      await navigator.clipboard.writeText(embedCode);
+      setEmbedCopied(true);
+      setTimeout(() => setEmbedCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
   const renderLoading = () => (
     <div className="bg-bg-card border border-border rounded-3xl p-8 backdrop-blur-sm w-full max-w-[700px] text-center py-16 px-8">
       <div className="w-[50px] h-[50px] border-[3px] border-border border-t-nostr-purple rounded-full animate-spin mx-auto mb-6"></div>
@@ -128,6 +362,7 @@ function PreviewPage() {
 
     const displayName = getDisplayName(profile, event.pubkey);
     const timeAgo = formatRelativeTime(event.created_at);
+    const article = isArticle(event) ? parseArticle(event) : null;
 
     return (
       <div className="bg-bg-card border border-border rounded-3xl p-8 backdrop-blur-sm w-full max-w-[700px]">
@@ -161,50 +396,40 @@ function PreviewPage() {
           </div>
         </div>
 
-        {/* Content */}
-        <div className="mb-6">
-          {parsedContent.text && (
-            <div className={`text-lg leading-relaxed text-text-primary mb-6 whitespace-pre-wrap break-words ${parsedContent.text.length > 500 ? 'text-base leading-relaxed' : ''}`}>
-              {parsedContent.text.split('\n').map((line, i) => (
-                <p key={i} className="mb-3 last:mb-0">{line || <br />}</p>
+        {/* Article (NIP-23) */}
+        {article && (
+          <div className="mb-6">
+            {article.image && (
+              <img src={article.image} alt="" className="w-full max-h-[360px] object-cover rounded-2xl mb-6" />
+            )}
+            <h1 className="text-3xl font-bold text-text-primary leading-tight mb-3 break-words">{article.title || 'Untitled article'}</h1>
+            {article.summary && (
+              <p className="text-text-secondary text-lg leading-relaxed mb-4">{article.summary}</p>
+            )}
+            <div className="flex flex-wrap gap-x-3 gap-y-1 text-text-muted text-sm mb-6 pb-6 border-b border-border">
+              <span>Published {new Date(article.publishedAt * 1000).toLocaleDateString()}</span>
+              {article.hashtags.slice(0, 5).map(hashtag => (
+                <span key={hashtag} className="text-nostr-purple">#{hashtag}</span>
               ))}
             </div>
-          )}
+            <ArticleBody content={event.content} />
+          </div>
+        )}
 
-          {/* Images */}
-          {parsedContent.images.length > 0 && (
-            <div className={`grid gap-2 mb-6 rounded-2xl overflow-hidden ${
-              parsedContent.images.length === 1 ? 'grid-cols-1' :
-              parsedContent.images.length === 2 ? 'grid-cols-2' :
-              parsedContent.images.length === 3 ? 'grid-cols-2 grid-rows-2' :
-              'grid-cols-2 grid-rows-2'
-            }`}>
-              {parsedContent.images.slice(0, 4).map((url, index) => (
-                <div 
-                  key={index} 
-                  className={`relative overflow-hidden bg-bg-tertiary ${
-                    parsedContent.images!.length === 3 && index === 0 ? 'col-span-2' : ''
-                  }`}
-                >
-                  <img src={url} alt="" loading="lazy" className="w-full h-full object-cover block" />
-                </div>
-              ))}
-            </div>
-          )}
+        {/* Content */}
+        {!article && (
+          <div className="mb-6">
+            {parsedContent.text && (
+              <NoteContent
+                nodes={parsedContent.nodes}
+                profiles={participantProfiles}
+                className={`text-lg leading-relaxed text-text-primary mb-6 ${parsedContent.text.length > 500 ? 'text-base leading-relaxed' : ''}`}
+              />
+            )}
 
-          {/* Videos */}
-          {parsedContent.videos.length > 0 && (
-            <div className="flex flex-col gap-4 mb-6">
-              {parsedContent.videos.map((url, index) => (
-                <div key={index} className="rounded-2xl aspect-video">
-                  <video controls preload="metadata" className="rounded-2xl w-full h-full">
-                    <source src={url} />
-                  </video>
-                </div>
-              ))}
-            </div>
-          )}
-        </div>
+            <MediaGallery media={parsedContent.media} />
+          </div>
+        )}
 
         {/* Reactions Bar */}
         <div className="flex gap-5 py-4 mb-4 border-b border-border">
@@ -212,16 +437,38 @@ function PreviewPage() {
             <MessageCircle className="text-text-secondary" size={18} />
             <span className="font-medium">{formatReactionCount(reactions.replies)}</span>
           </div>
-          {reactions.reposts > 0 && (
-            <div className="flex items-center gap-1.5 text-text-secondary text-sm">
-              <Repeat2 className="text-text-secondary" size={18} />
-              <span className="font-medium">{formatReactionCount(reactions.reposts)}</span>
-            </div>
-          )}
-          {reactions.zaps > 0 && (
-            <div className="flex items-center gap-1.5 text-text-secondary text-sm">
+          <button
+            className={`flex items-center gap-1.5 text-sm bg-none border-none cursor-pointer px-2 py-1 rounded-lg transition-all duration-200 hover:bg-bg-tertiary ${
+              isRepostedByUser || showRepostOptions ? 'text-green-500' : 'text-text-secondary hover:text-green-500'
+            }`}
+            onClick={() => {
+              setShowRepostOptions(!showRepostOptions);
+              setIsQuoting(false);
+              setPostedQuote(null);
+            }}
+            title={isRepostedByUser ? 'Reposted' : 'Repost or quote'}
+          >
+            <Repeat2 size={18} />
+            <span className="font-medium">{formatReactionCount(reactions.reposts)}</span>
+          </button>
+          {canZap(profile) ? (
+            <button
+              className={`flex items-center gap-1.5 text-sm bg-none border-none cursor-pointer px-2 py-1 rounded-lg transition-all duration-200 hover:bg-bg-tertiary ${
+                showZap ? 'text-nostr-orange' : 'text-text-secondary hover:text-nostr-orange'
+              }`}
+              onClick={() => setShowZap(!showZap)}
+              title={reactions.zaps > 0 ? `${reactions.zapSats.toLocaleString()} sats from ${reactions.zaps} zaps` : 'Zap'}
+            >
+              <Zap size={18} />
+              <span className="font-medium">{formatReactionCount(reactions.zapSats)}</span>
+            </button>
+          ) : reactions.zaps > 0 && (
+            <div
+              className="flex items-center gap-1.5 text-text-secondary text-sm"
+              title={`${reactions.zapSats.toLocaleString()} sats from ${reactions.zaps} zaps`}
+            >
               <Zap className="text-text-secondary" size={18} />
-              <span className="font-medium">{formatReactionCount(reactions.zaps)}</span>
+              <span className="font-medium">{formatReactionCount(reactions.zapSats)}</span>
             </div>
           )}
           <button 
@@ -234,8 +481,298 @@ function PreviewPage() {
             <Heart className={`text-text-secondary ${isLikedByUser ? 'text-pink-500 fill-pink-500' : ''}`} size={18} />
             <span className="font-medium">{formatReactionCount(reactions.likes + (isLikedByUser ? 1 : 0))}</span>
           </button>
+          {reactions.dislikes > 0 && (
+            <div className="flex items-center gap-1.5 text-text-secondary text-sm" title="Dislikes">
+              <ThumbsDown className="text-text-secondary" size={18} />
+              <span className="font-medium">{formatReactionCount(reactions.dislikes)}</span>
+            </div>
+          )}
+          <button
+            className={`flex items-center gap-1.5 text-sm bg-none border-none cursor-pointer px-2 py-1 rounded-lg transition-all duration-200 hover:bg-bg-tertiary ${
+              showEmojiPicker ? 'text-nostr-purple' : 'text-text-secondary hover:text-nostr-purple'
+            }`}
+            onClick={() => setShowEmojiPicker(!showEmojiPicker)}
+            title="React with an emoji"
+          >
+            <SmilePlus size={18} />
+          </button>
+          <button
+            className={`flex items-center gap-1.5 ml-auto text-sm bg-none border-none cursor-pointer px-2 py-1 rounded-lg transition-all duration-200 hover:bg-bg-tertiary ${
+              showEmbedOptions ? 'text-nostr-purple' : 'text-text-secondary hover:text-nostr-purple'
+            }`}
+            onClick={() => setShowEmbedOptions(!showEmbedOptions)}
+            title="Embed on your site"
+          >
+            <Code2 size={18} />
+          </button>
+          <button
+            className={`flex items-center gap-1.5 text-sm bg-none border-none cursor-pointer px-2 py-1 rounded-lg transition-all duration-200 hover:bg-bg-tertiary disabled:opacity-50 disabled:cursor-not-allowed ${
+              isSavedByUser || showSaveOptions ? 'text-nostr-purple' : 'text-text-secondary hover:text-nostr-purple'
+            }`}
+            onClick={() => (isSavedByUser ? handleToggleSave() : setShowSaveOptions(!showSaveOptions))}
+            disabled={isSaving}
+            title={isSavedByUser ? `Remove from ${isSavedPrivately ? 'private ' : ''}bookmarks` : 'Save'}
+          >
+            {isSavedPrivately && <Lock size={12} />}
+            <Bookmark className={isSavedByUser ? 'fill-nostr-purple' : ''} size={18} />
+          </button>
         </div>
 
+        {/* Repost Options */}
+        {showRepostOptions && (
+          <div className="my-4 p-4 bg-bg-tertiary rounded-2xl border border-border">
+            <div className="flex items-center justify-between mb-3">
+              <span className="text-text-secondary text-sm">
+                {isQuoting ? `Quote ${displayName}'s note` : `Share ${displayName}'s note with your followers`}
+              </span>
+              <button
+                className="flex items-center justify-center w-7 h-7 bg-transparent border-none rounded-lg text-text-muted cursor-pointer transition-colors duration-200 hover:text-text-primary"
+                onClick={() => setShowRepostOptions(false)}
+                title="Close"
+              >
+                <X size={16} />
+              </button>
+            </div>
+            {postedQuote ? (
+              <p className="text-text-secondary text-sm">
+                Quote posted. <Link to={`/${nip19.noteEncode(postedQuote.id)}`} className="text-nostr-purple no-underline hover:underline">View it</Link>
+              </p>
+            ) : isQuoting ? (
+              <>
+                <textarea
+                  placeholder="Add your thoughts..."
+                  value={quoteText}
+                  onChange={(e) => setQuoteText(e.target.value)}
+                  rows={3}
+                  className="w-full bg-bg-card border border-border rounded-xl px-3 py-2 mb-3 text-text-primary text-sm outline-none resize-y transition-colors duration-200 focus:border-nostr-purple placeholder:text-text-muted"
+                  disabled={isReposting}
+                  autoFocus
+                />
+                <div className="p-3 mb-3 border border-border rounded-xl text-xs">
+                  <span className="font-semibold text-text-primary">{displayName}</span>
+                  <p className="text-text-muted mt-1 line-clamp-2 break-words">{article ? article.title : parsedContent.text}</p>
+                </div>
+                <div className="flex gap-2 justify-end">
+                  <button
+                    className="px-4 py-2 bg-transparent border border-border rounded-xl text-text-secondary text-sm cursor-pointer transition-all duration-200 hover:border-nostr-purple hover:text-nostr-purple"
+                    onClick={() => setIsQuoting(false)}
+                    disabled={isReposting}
+                  >
+                    Back
+                  </button>
+                  <button
+                    className="px-4 py-2 bg-gradient-to-br from-nostr-purple to-nostr-orange border-none rounded-xl text-white text-sm font-semibold cursor-pointer transition-opacity duration-200 hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed"
+                    disabled={!quoteText.trim() || isReposting}
+                    onClick={handlePostQuote}
+                  >
+                    {isReposting ? 'Posting...' : 'Post Quote'}
+                  </button>
+                </div>
+              </>
+            ) : (
+              <div className="flex gap-2 max-sm:flex-col">
+                <button
+                  className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-gradient-to-br from-nostr-purple to-nostr-orange border-none rounded-xl text-white text-sm font-semibold cursor-pointer transition-opacity duration-200 hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed"
+                  onClick={handleToggleRepost}
+                  disabled={isReposting}
+                >
+                  <Repeat2 size={14} />
+                  {isReposting ? 'Working...' : isRepostedByUser ? 'Undo repost' : 'Repost'}
+                </button>
+                <button
+                  className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-transparent border border-border rounded-xl text-text-secondary text-sm cursor-pointer transition-all duration-200 hover:border-nostr-purple hover:text-nostr-purple disabled:opacity-50 disabled:cursor-not-allowed"
+                  onClick={() => setIsQuoting(true)}
+                  disabled={isReposting}
+                >
+                  <Quote size={14} />
+                  Quote
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Embed Options */}
+        {showEmbedOptions && (
+          <div className="my-4 p-4 bg-bg-tertiary rounded-2xl border border-border">
+            <div className="flex items-center justify-between mb-3">
+              <span className="text-text-secondary text-sm">Embed this note on your site</span>
+              <button
+                className="flex items-center justify-center w-7 h-7 bg-transparent border-none rounded-lg text-text-muted cursor-pointer transition-colors duration-200 hover:text-text-primary"
+                onClick={() => setShowEmbedOptions(false)}
+                title="Close"
+              >
+                <X size={16} />
+              </button>
+            </div>
+            <div className="flex gap-2 mb-3">
+              {(['dark', 'light'] as const).map(theme => (
+                <button
+                  key={theme}
+                  className={`px-3 py-1.5 rounded-lg text-xs font-medium cursor-pointer transition-all duration-200 border ${
+                    embedTheme === theme
+                      ? 'border-nostr-purple text-nostr-purple bg-nostr-purple/10'
+                      : 'border-border text-text-secondary bg-transparent hover:border-nostr-purple hover:text-nostr-purple'
+                  }`}
+                  onClick={() => setEmbedTheme(theme)}
+                >
+                  {theme === 'dark' ? 'Dark' : 'Light'}
+                </button>
+              ))}
+            </div>
+            <textarea
+              className="w-full p-3 bg-bg-primary border border-border rounded-xl text-text-secondary text-xs font-mono resize-none outline-none"
+              rows={4}
+              value={embedCode}
+              readOnly
+              onFocus={e => e.target.select()}
+            />
+            <div className="flex items-center justify-between gap-3 mt-3">
+              <p className="text-text-muted text-xs">
+                Paste this where the note should appear. Sites with oEmbed support only need the link.
+              </p>
+              <button
+                className="flex items-center gap-1.5 px-4 py-2 bg-gradient-to-br from-nostr-purple to-nostr-orange border-none rounded-xl text-white text-sm font-semibold cursor-pointer shrink-0 transition-opacity duration-200 hover:opacity-90"
+                onClick={handleCopyEmbed}
+              >
+                {embedCopied ? <Check size={14} /> : <Copy size={14} />}
+                {embedCopied ? 'Copied' : 'Copy code'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Save Options */}
+        {showSaveOptions && !isSavedByUser && (
+          <div className="my-4 p-4 bg-bg-tertiary rounded-2xl border border-border">
+            <div className="flex items-center justify-between mb-3">
+              <span className="text-text-secondary text-sm">Save to your Nostr bookmarks</span>
+              <button
+                className="flex items-center justify-center w-7 h-7 bg-transparent border-none rounded-lg text-text-muted cursor-pointer transition-colors duration-200 hover:text-text-primary"
+                onClick={() => setShowSaveOptions(false)}
+                title="Close"
+              >
+                <X size={16} />
+              </button>
+            </div>
+            <div className="flex gap-2 max-sm:flex-col">
+              <button
+                className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-gradient-to-br from-nostr-purple to-nostr-orange border-none rounded-xl text-white text-sm font-semibold cursor-pointer transition-opacity duration-200 hover:opacity-90"
+                onClick={() => handleToggleSave(false)}
+              >
+                <Bookmark size={14} />
+                Save publicly
+              </button>
+              <button
+                className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-transparent border border-border rounded-xl text-text-secondary text-sm cursor-pointer transition-all duration-200 hover:border-nostr-purple hover:text-nostr-purple"
+                onClick={() => handleToggleSave(true)}
+              >
+                <Lock size={14} />
+                Save privately
+              </button>
+            </div>
+            <p className="text-text-muted text-xs mt-3">
+              Private bookmarks are encrypted so only you can see them. View everything you've saved on your <Link to="/saved" className="text-nostr-purple no-underline hover:underline">saved notes</Link> page.
+            </p>
+          </div>
+        )}
+
+        {/* Emoji Reactions */}
+        {reactions.emojiReactions.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-4">
+            {reactions.emojiReactions.map(group => {
+              const isOwn = userReactions.includes(group.content);
+              return (
+                <button
+                  key={`${group.content}:${group.emojiUrl || ''}`}
+                  className={`flex items-center gap-1.5 px-2.5 py-1 border rounded-full text-sm cursor-pointer transition-all duration-200 disabled:cursor-default ${
+                    isOwn ? 'border-nostr-purple bg-nostr-purple/10 text-nostr-purple' : 'border-border bg-transparent text-text-secondary hover:border-nostr-purple'
+                  }`}
+                  onClick={() => handleReact(group.content, group.emojiUrl ? { shortcode: group.content.slice(1, -1), url: group.emojiUrl } : undefined)}
+                  disabled={isOwn}
+                  title={isOwn ? 'You reacted with this' : `React with ${group.content}`}
+                >
+                  {group.emojiUrl ? (
+                    <img src={group.emojiUrl} alt={group.content} loading="lazy" className="w-5 h-5 object-contain" />
+                  ) : (
+                    <span className="max-w-[80px] truncate">{group.content}</span>
+                  )}
+                  <span className="font-medium">{formatReactionCount(group.count)}</span>
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Emoji Picker */}
+        {showEmojiPicker && (
+          <EmojiPicker
+            customEmojis={pickerEmojis}
+            onSelect={handleReact}
+            onClose={() => setShowEmojiPicker(false)}
+          />
+        )}
+
+        {/* Top Zappers */}
+        {reactions.topZappers.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 mb-4 text-xs">
+            <span className="text-text-muted">Top zappers</span>
+            {reactions.topZappers.slice(0, TOP_ZAPPERS_SHOWN).map(zapper => (
+              <span
+                key={zapper.pubkey}
+                className="flex items-center gap-1 px-2 py-1 bg-bg-tertiary rounded-full text-text-secondary"
+              >
+                <Zap size={12} className="text-nostr-orange" />
+                <span className="max-w-[120px] truncate">{getDisplayName(participantProfiles[zapper.pubkey] || null, zapper.pubkey)}</span>
+                <span className="font-medium text-text-primary">{formatReactionCount(zapper.sats)}</span>
+              </span>
+            ))}
+          </div>
+        )}
+
+        {/* Zap Panel */}
+        {showZap && (
+          <ZapPanel
+            event={event}
+            profile={profile}
+            displayName={displayName}
+            getSigner={ensureSigner}
+            onClose={() => setShowZap(false)}
+          />
+        )}
+
+        {/* Unlock Prompt - shown when a locked profile tries to sign */}
+        {showUnlock && (
+          <div className="my-4 p-4 bg-bg-tertiary rounded-2xl border border-nostr-purple/30">
+            <div className="flex items-center gap-2 mb-3 text-text-secondary text-sm">
+              <Lock size={16} />
+              <span>Your profile is locked. Enter your password to reply, react, repost, zap or save.</span>
+            </div>
+            <div className="flex gap-3 items-center max-sm:flex-col">
+              <input
+                type="password"
+                placeholder="Password"
+                value={unlockPassword}
+                onChange={(e) => setUnlockPassword(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleUnlock()}
+                className="flex-1 bg-bg-card border border-border rounded-xl px-4 py-3 text-text-primary text-base outline-none transition-colors duration-200 focus:border-nostr-purple placeholder:text-text-muted max-sm:w-full"
+                disabled={isUnlocking}
+                autoFocus
+              />
+              <button
+                className="px-5 py-3 bg-gradient-to-br from-nostr-purple to-nostr-orange border-none rounded-xl text-white text-sm font-semibold cursor-pointer transition-opacity duration-200 hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed max-sm:w-full"
+                disabled={!unlockPassword || isUnlocking}
+                onClick={handleUnlock}
+              >
+                {isUnlocking ? 'Unlocking...' : 'Unlock'}
+              </button>
+            </div>
+            {unlockError && (
+              <p className="text-red-400 text-xs mt-2">{unlockError}</p>
+            )}
+          </div>
+        )}
+
         {/* Comment Input - Always Visible */}
         <div className="my-4 p-4 bg-bg-tertiary rounded-2xl">
           <div className="flex gap-3 items-center max-sm:flex-col">
@@ -256,20 +793,40 @@ function PreviewPage() {
               {isPosting ? 'Posting...' : 'Post'}
             </button>
           </div>
+          {!identityState.hasIdentity && hasNip07Extension() && (
+            <button
+              className="flex items-center gap-1.5 mt-3 bg-transparent border-none p-0 text-text-muted text-xs cursor-pointer transition-colors duration-200 hover:text-nostr-purple"
+              onClick={handleUseExtension}
+            >
+              <Puzzle size={14} />
+              Have a Nostr extension? Use it instead of a new key
+            </button>
+          )}
+          {signerError && (
+            <p className="text-red-400 text-xs mt-2">{signerError}</p>
+          )}
         </div>
 
-        {/* User's Own Replies */}
-        {userReplies.length > 0 && (
+        {/* Conversation Thread */}
+        {replyTree.length > 0 && (
           <div className="mt-6 border-t border-border pt-6">
-            <h3 className="text-text-secondary text-sm font-medium mb-4">Your Replies</h3>
-            <div className="space-y-3">
-              {userReplies.map((reply) => (
-                <div key={reply.id} className="p-4 bg-bg-tertiary rounded-xl border border-border">
-                  <p className="text-text-primary text-sm whitespace-pre-wrap break-words">{reply.content}</p>
-                  <p className="text-text-muted text-xs mt-2">{formatRelativeTime(reply.created_at)}</p>
-                </div>
-              ))}
-            </div>
+            <h3 className="text-text-secondary text-sm font-medium mb-4">Replies</h3>
+            <ReplyThread
+              nodes={replyTree}
+              profiles={participantProfiles}
+              userPubkey={identityState.publicKey}
+              onReply={handleReplyTo}
+              onDelete={handleDeleteReply}
+            />
+            {hasMoreReplies && (
+              <button
+                className="w-full mt-4 px-4 py-2.5 bg-transparent border border-border rounded-lg text-text-secondary text-sm cursor-pointer transition-all duration-200 hover:border-nostr-purple hover:text-nostr-purple disabled:opacity-50 disabled:cursor-not-allowed"
+                onClick={loadMoreReplies}
+                disabled={isLoadingMoreReplies}
+              >
+                {isLoadingMoreReplies ? 'Loading...' : 'Load older replies'}
+              </button>
+            )}
           </div>
         )}
       </div>
@@ -305,6 +862,9 @@ function PreviewPage() {
               <span className="flex items-center gap-1 text-text-muted" title="Likes">
                 <Heart size={14} /> {userActivity.likes}
               </span>
+              <Link to="/saved" className="flex items-center gap-1 text-text-muted no-underline transition-colors duration-200 hover:text-nostr-purple" title="Saved notes">
+                <Bookmark size={14} /> {userActivity.saves}
+              </Link>
             </div>
           )}
           
@@ -0,0 +1,257 @@
+import { useState } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { nip19 } from 'nostr-tools';
+import { AlertTriangle, BadgeCheck, Zap, User, UserPlus, UserCheck, Copy, Check } from 'lucide-react';
+import {
+  getIdentityState,
+  getProfileKey,
+  createProfile,
+  getSignerPreference
+} from '../storage.identity';
+import { createLocalSigner, getActiveSigner, type NostrSigner } from '../signer';
+import { formatRelativeTime, formatReactionCount, getDisplayName, parseContent, getNostrPublicKey, type Event } from '../nostr';
+import { useProfilePreview } from '../hooks/useProfilePreview';
+
+function ProfilePage() {
+  const { id } = useParams<{ id: string }>();
+  const [identityState, setIdentityState] = useState(getIdentityState());
+  const [isFollowing, setIsFollowing] = useState<boolean>(false);
+  const [followError, setFollowError] = useState<string>('');
+  const [copied, setCopied] = useState<boolean>(false);
+
+  const {
+    pubkey,
+    profile,
+    notes,
+    followCounts,
+    isLoading,
+    error,
+    isVerified,
+    isFollowedByUser,
+    toggleFollow
+  } = useProfilePreview(id);
+
+  // Signer for following - creates profile keys for newcomers, like replying on a note does
+  const getSigner = (): NostrSigner | null => {
+    if (getSignerPreference().type !== 'local') {
+      const signer = getActiveSigner();
+      if (!signer) {
+        setFollowError('Your signer is not available. Reconnect it on your profile page.');
+      }
+      return signer;
+    }
+
+    if (getIdentityState().isLocked) {
+      setFollowError('Your profile is locked. Unlock it on your profile page to follow.');
+      return null;
+    }
+    const keys = getProfileKey() || createProfile();
+    return createLocalSigner(keys.privateKey);
+  };
+
+  const handleToggleFollow = async () => {
+    if (isFollowing) return;
+
+    setFollowError('');
+    const signer = getSigner();
+    if (!signer) return;
+
+    setIsFollowing(true);
+    const result = await toggleFollow(signer);
+    setIsFollowing(false);
+    if (!result) {
+      setFollowError('Could not update your follows. Please try again.');
+    }
+    // Update identity state after following (profile may have been created)
+    setIdentityState(getIdentityState());
+  };
+
+  const handleCopyNpub = async (npub: string) => {
+    try {
+      await navigator.clipboard.writeText(npub);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  const renderLoading = () => (
+    <div className="bg-bg-card border border-border rounded-3xl p-8 backdrop-blur-sm w-full max-w-[700px] text-center py-16 px-8">
+      <div className="w-[50px] h-[50px] border-[3px] border-border border-t-nostr-purple rounded-full animate-spin mx-auto mb-6"></div>
+      <p className="text-text-muted">Loading profile...</p>
+    </div>
+  );
+
+  const renderError = () => (
+    <div className="bg-bg-card border border-border rounded-3xl p-8 backdrop-blur-sm w-full max-w-[700px] text-center py-16 px-8">
+      <div className="text-nostr-orange mb-4 flex justify-center">
+        <AlertTriangle size={48} />
+      </div>
+      <h2 className="text-text-primary mb-2">Profile Not Found</h2>
+      <p className="text-text-muted mb-6">{error}</p>
+      <a href="/" className="inline-block px-6 py-3 bg-gradient-to-br from-nostr-purple to-nostr-orange border-none rounded-lg text-white text-base font-semibold cursor-pointer transition-all duration-300 hover:-translate-y-0.5 hover:shadow-[0_10px_30px_rgba(168,85,247,0.4)]">
+        Create a Link
+      </a>
+    </div>
+  );
+
+  const renderNote = (note: Event) => {
+    const { text, images } = parseContent(note.content);
+
+    return (
+      <Link
+        key={note.id}
+        to={`/${nip19.noteEncode(note.id)}`}
+        className="flex gap-3 p-4 bg-bg-tertiary rounded-xl border border-border no-underline transition-colors duration-200 hover:border-nostr-purple/40"
+      >
+        <div className="flex-1 min-w-0">
+          <span className="text-text-muted text-xs">{formatRelativeTime(note.created_at)}</span>
+          <p className="text-text-primary text-sm mt-1 whitespace-pre-wrap break-words line-clamp-4">{text}</p>
+        </div>
+        {images[0] && (
+          <img src={images[0]} alt="" loading="lazy" className="w-20 h-20 rounded-lg object-cover shrink-0" />
+        )}
+      </Link>
+    );
+  };
+
+  const renderProfile = () => {
+    if (!pubkey) return null;
+
+    const displayName = getDisplayName(profile, pubkey);
+    const npub = getNostrPublicKey(pubkey);
+    const isOwnProfile = identityState.publicKey === pubkey;
+
+    return (
+      <div className="bg-bg-card border border-border rounded-3xl p-8 backdrop-blur-sm w-full max-w-[700px]">
+        {/* Profile Header */}
+        <div className="flex items-start gap-4 mb-6 max-sm:flex-col">
+          <div className="w-20 h-20 rounded-full overflow-hidden shrink-0 bg-bg-tertiary">
+            {profile?.picture ? (
+              <img src={profile.picture} alt={displayName} className="w-full h-full object-cover" />
+            ) : (
+              <svg viewBox="0 0 100 100" xmlns="http://www.w3.org/2000/svg" className="w-full h-full">
+                <rect width="100" height="100" fill={`hsl(${parseInt(pubkey.slice(0, 8), 16) % 360}, 70%, 50%)`} />
+                <text x="50" y="65" textAnchor="middle" fontSize="45" fill="white">
+                  {displayName.charAt(0).toUpperCase()}
+                </text>
+              </svg>
+            )}
+          </div>
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-2 mb-1">
+              <h1 className="font-bold text-text-primary text-2xl truncate">{displayName}</h1>
+              {isVerified && (
+                <span className="inline-flex items-center justify-center text-nostr-purple cursor-help" title={`Verified: ${profile?.nip05}`}>
+                  <BadgeCheck size={18} />
+                </span>
+              )}
+            </div>
+            {profile?.nip05 && (
+              <div className="text-text-muted text-sm mb-1">{profile.nip05}</div>
+            )}
+            {profile?.lud16 && (
+              <div className="flex items-center gap-1 text-text-muted text-sm mb-1">
+                <Zap size={14} className="text-nostr-orange" />
+                <span className="truncate">{profile.lud16}</span>
+              </div>
+            )}
+            <button
+              className="flex items-center gap-1.5 bg-transparent border-none p-0 text-text-muted text-xs font-mono cursor-pointer transition-colors duration-200 hover:text-nostr-purple"
+              onClick={() => handleCopyNpub(npub)}
+              title="Copy npub"
+            >
+              {`${npub.slice(0, 16)}...${npub.slice(-8)}`}
+              {copied ? <Check size={12} /> : <Copy size={12} />}
+            </button>
+          </div>
+          {!isOwnProfile && (
+            <button
+              className={`flex items-center gap-2 px-5 py-2.5 rounded-xl text-sm font-semibold cursor-pointer transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed max-sm:w-full max-sm:justify-center ${
+                isFollowedByUser
+                  ? 'bg-transparent border border-border text-text-secondary hover:border-red-400 hover:text-red-400'
+                  : 'bg-gradient-to-br from-nostr-purple to-nostr-orange border-none text-white hover:opacity-90'
+              }`}
+              onClick={handleToggleFollow}
+              disabled={isFollowing}
+              title={isFollowedByUser ? 'Unfollow' : 'Follow'}
+            >
+              {isFollowedByUser ? <UserCheck size={16} /> : <UserPlus size={16} />}
+              {isFollowing ? 'Saving...' : isFollowedByUser ? 'Following' : 'Follow'}
+            </button>
+          )}
+        </div>
+
+        {followError && (
+          <p className="text-red-400 text-xs mb-4">{followError}</p>
+        )}
+
+        {profile?.about && (
+          <p className="text-text-primary text-base leading-relaxed whitespace-pre-wrap break-words mb-6">{profile.about}</p>
+        )}
+
+        {/* Follow Counts */}
+        <div className="flex gap-6 py-4 mb-6 border-y border-border text-sm">
+          <span className="text-text-secondary">
+            <span className="font-semibold text-text-primary">{formatReactionCount(followCounts.following) || '0'}</span> Following
+          </span>
+          <span className="text-text-secondary" title="Followers seen on your relays">
+            <span className="font-semibold text-text-primary">
+              {formatReactionCount(followCounts.followers) || '0'}{followCounts.followersCapped ? '+' : ''}
+            </span> Followers
+          </span>
+        </div>
+
+        {/* Recent Notes */}
+        <h3 className="text-text-secondary text-sm font-medium mb-4">Recent Notes</h3>
+        {notes.length > 0 ? (
+          <div className="space-y-3">
+            {notes.map(renderNote)}
+          </div>
+        ) : (
+          <p className="text-text-muted text-sm">No notes found on the relays.</p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="app-container">
+      <header className="flex justify-between items-center px-8 py-6 relative z-10">
+        <a href="/" className="flex items-center gap-2 text-2xl font-bold text-text-primary no-underline">
+          <svg className="w-9 h-9 block" viewBox="0 0 100 100" xmlns="http://www.w3.org/2000/svg">
+            <defs>
+              <linearGradient id="logoGradient" x1="0%" y1="0%" x2="100%" y2="100%">
+                <stop offset="0%" style={{stopColor: '#A855F7'}} />
+                <stop offset="100%" style={{stopColor: '#F97316'}} />
+              </linearGradient>
+            </defs>
+            <rect x="5" y="5" width="90" height="90" rx="20" fill="url(#logoGradient)" />
+            <circle cx="50" cy="50" r="22" fill="none" stroke="white" strokeWidth="6" />
+            <circle cx="50" cy="50" r="10" fill="white" />
+          </svg>
+          <span>nostramp</span>
+        </a>
+
+        {/* Profile Link */}
+        <Link to="/identity" className="flex items-center gap-2 px-4 py-2.5 bg-transparent border border-border rounded-xl text-text-secondary text-sm font-medium no-underline cursor-pointer transition-all duration-200 hover:border-nostr-purple hover:text-nostr-purple">
+          <User size={16} />
+          <span>{identityState.hasIdentity ? 'Claim your profile' : 'Set Up Profile'}</span>
+        </Link>
+      </header>
+
+      <main className="flex-1 flex flex-col items-center justify-start px-8 py-8 relative z-1 max-w-3xl mx-auto w-full pt-16">
+        {isLoading && renderLoading()}
+        {!isLoading && error && renderError()}
+        {!isLoading && !error && renderProfile()}
+      </main>
+
+      <footer className="flex items-center justify-center gap-3 px-8 py-8 text-text-muted text-sm relative z-1">
+        <span>Powered by Nostr</span>
+      </footer>
+    </div>
+  );
+}
+
+export default ProfilePage;
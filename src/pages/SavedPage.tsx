@@ -0,0 +1,252 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate, Link } from 'react-router-dom';
+import { nip19 } from 'nostr-tools';
+import { ArrowLeft, Bookmark, Lock, Trash2, AlertTriangle } from 'lucide-react';
+import {
+  fetchBookmarkList,
+  getBookmarks,
+  removeBookmark,
+  fetchEvents,
+  fetchProfiles,
+  parseContent,
+  formatRelativeTime,
+  getDisplayName,
+  type Bookmark as SavedNote,
+  type Event,
+  type ProfileData
+} from '../nostr';
+import { getActiveSigner } from '../signer';
+import { getIdentityState, getUserActivity, recordSave, removeSave } from '../storage.identity';
+
+/**
+ * Saved notes - the user's NIP-51 bookmark list with a preview of each note
+ */
+function SavedPage() {
+  const navigate = useNavigate();
+  const [identityState] = useState(getIdentityState());
+  const [bookmarks, setBookmarks] = useState<SavedNote[]>([]);
+  const [events, setEvents] = useState<Record<string, Event>>({});
+  const [profiles, setProfiles] = useState<Record<string, ProfileData>>({});
+  const [hasUnreadablePrivate, setHasUnreadablePrivate] = useState<boolean>(false);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string>('');
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  const loadBookmarks = useCallback(async () => {
+    if (!identityState.publicKey || identityState.isLocked) {
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    setError('');
+    try {
+      const list = await fetchBookmarkList(identityState.publicKey, getActiveSigner());
+      const saved = getBookmarks(list);
+
+      // Keep the locally tracked saves in step with the network list
+      saved.forEach(bookmark => recordSave(bookmark.id));
+      if (list.isPrivateReadable) {
+        getUserActivity().savedEvents
+          .filter(id => !saved.some(bookmark => bookmark.id === id))
+          .forEach(removeSave);
+      }
+
+      const found = await fetchEvents(saved.map(bookmark => bookmark.id), saved.flatMap(bookmark => bookmark.relays));
+      const byId: Record<string, Event> = {};
+      found.forEach(event => {
+        byId[event.id] = event;
+      });
+
+      setBookmarks(saved);
+      setEvents(byId);
+      setHasUnreadablePrivate(!list.isPrivateReadable);
+      setProfiles(await fetchProfiles(found.map(event => event.pubkey)));
+    } catch (err) {
+      console.error('Error loading saved notes:', err);
+      setError('Could not load your saved notes. Please try again.');
+    }
+    setIsLoading(false);
+  }, [identityState.publicKey, identityState.isLocked]);
+
+  useEffect(() => {
+    loadBookmarks();
+  }, [loadBookmarks]);
+
+  const handleRemove = async (eventId: string) => {
+    const signer = getActiveSigner();
+    if (!signer || removingId) return;
+
+    setRemovingId(eventId);
+    setError('');
+    const list = await removeBookmark(signer, eventId);
+    if (list) {
+      removeSave(eventId);
+      setBookmarks(prev => prev.filter(bookmark => bookmark.id !== eventId));
+    } else {
+      setError('Could not remove the bookmark. Please try again.');
+    }
+    setRemovingId(null);
+  };
+
+  const renderMessage = (title: string, text: string, action?: { to: string; label: string }) => (
+    <div className="bg-bg-card border border-border rounded-3xl p-8 backdrop-blur-sm w-full max-w-[700px] text-center py-16 px-8">
+      <div className="text-nostr-purple mb-4 flex justify-center">
+        <Bookmark size={48} />
+      </div>
+      <h2 className="text-text-primary mb-2">{title}</h2>
+      <p className="text-text-muted mb-6">{text}</p>
+      {action && (
+        <Link to={action.to} className="inline-block px-6 py-3 bg-gradient-to-br from-nostr-purple to-nostr-orange border-none rounded-lg text-white text-base font-semibold no-underline cursor-pointer transition-all duration-300 hover:-translate-y-0.5 hover:shadow-[0_10px_30px_rgba(168,85,247,0.4)]">
+          {action.label}
+        </Link>
+      )}
+    </div>
+  );
+
+  const renderNote = (bookmark: SavedNote) => {
+    const event = events[bookmark.id];
+    const isRemoving = removingId === bookmark.id;
+    const removeButton = (
+      <button
+        className="flex items-center gap-1 bg-transparent border-none p-0 text-text-muted text-xs cursor-pointer transition-colors duration-200 hover:text-red-400 disabled:opacity-50 disabled:cursor-not-allowed"
+        onClick={() => handleRemove(bookmark.id)}
+        disabled={!!removingId}
+      >
+        <Trash2 size={14} />
+        {isRemoving ? 'Removing...' : 'Remove'}
+      </button>
+    );
+
+    if (!event) {
+      return (
+        <div key={bookmark.id} className="flex items-center gap-3 p-4 bg-bg-tertiary rounded-xl border border-border">
+          <AlertTriangle size={16} className="text-nostr-orange shrink-0" />
+          <span className="flex-1 text-text-muted text-sm">This note couldn't be found on your relays.</span>
+          {removeButton}
+        </div>
+      );
+    }
+
+    const profile = profiles[event.pubkey] || null;
+    const displayName = getDisplayName(profile, event.pubkey);
+    const { text, images } = parseContent(event.content);
+    const noteLink = `/${nip19.neventEncode({ id: event.id, relays: bookmark.relays, author: event.pubkey })}`;
+
+    return (
+      <div key={bookmark.id} className="p-4 bg-bg-tertiary rounded-xl border border-border transition-colors duration-200 hover:border-nostr-purple/40">
+        <div className="flex items-center gap-3 mb-2">
+          <div className="w-8 h-8 rounded-full overflow-hidden shrink-0 bg-bg-card">
+            {profile?.picture ? (
+              <img src={profile.picture} alt={displayName} loading="lazy" className="w-full h-full object-cover" />
+            ) : (
+              <svg viewBox="0 0 100 100" xmlns="http://www.w3.org/2000/svg" className="w-full h-full">
+                <rect width="100" height="100" fill={`hsl(${parseInt(event.pubkey.slice(0, 8), 16) % 360}, 70%, 50%)`} />
+                <text x="50" y="65" textAnchor="middle" fontSize="45" fill="white">
+                  {displayName.charAt(0).toUpperCase()}
+                </text>
+              </svg>
+            )}
+          </div>
+          <div className="flex-1 min-w-0 flex items-center gap-2">
+            <span className="font-semibold text-text-primary text-sm truncate">{displayName}</span>
+            <span className="text-text-muted text-xs shrink-0">{formatRelativeTime(event.created_at)}</span>
+          </div>
+          {bookmark.isPrivate && (
+            <span className="flex items-center gap-1 px-1.5 py-0.5 bg-nostr-purple/10 rounded text-nostr-purple text-[10px] font-medium" title="Only you can see this bookmark">
+              <Lock size={10} />
+              Private
+            </span>
+          )}
+        </div>
+        <Link to={noteLink} className="flex gap-3 no-underline">
+          <p className="flex-1 min-w-0 text-text-primary text-sm whitespace-pre-wrap break-words line-clamp-4">
+            {text || (images.length > 0 ? '' : 'View note')}
+          </p>
+          {images[0] && (
+            <img src={images[0]} alt="" loading="lazy" className="w-20 h-20 rounded-lg object-cover shrink-0" />
+          )}
+        </Link>
+        <div className="flex items-center justify-between mt-3">
+          <Link to={noteLink} className="text-nostr-purple text-xs no-underline hover:underline">Open note</Link>
+          {removeButton}
+        </div>
+      </div>
+    );
+  };
+
+  const renderContent = () => {
+    if (!identityState.hasIdentity) {
+      return renderMessage('No Saved Notes Yet', 'Set up a profile to save notes to your Nostr bookmarks.', { to: '/identity', label: 'Set Up Profile' });
+    }
+    if (identityState.isLocked) {
+      return renderMessage('Profile Locked', 'Unlock your profile to see your saved notes.', { to: '/identity', label: 'Unlock Profile' });
+    }
+    if (isLoading) {
+      return (
+        <div className="bg-bg-card border border-border rounded-3xl p-8 backdrop-blur-sm w-full max-w-[700px] text-center py-16 px-8">
+          <div className="w-[50px] h-[50px] border-[3px] border-border border-t-nostr-purple rounded-full animate-spin mx-auto mb-6"></div>
+          <p className="text-text-muted">Loading saved notes...</p>
+        </div>
+      );
+    }
+    if (bookmarks.length === 0 && !error) {
+      return renderMessage('No Saved Notes Yet', 'Notes you save from a preview show up here.');
+    }
+
+    return (
+      <div className="bg-bg-card border border-border rounded-3xl p-8 backdrop-blur-sm w-full max-w-[700px]">
+        <h2 className="flex items-center gap-2 text-xl font-semibold text-text-primary mb-6">
+          <Bookmark size={20} className="text-nostr-purple" />
+          Saved Notes
+          <span className="text-text-muted text-sm font-normal">{bookmarks.length}</span>
+        </h2>
+        {hasUnreadablePrivate && (
+          <p className="flex items-center gap-2 mb-4 text-text-muted text-xs">
+            <Lock size={14} />
+            Some private bookmarks couldn't be decrypted with your current signer.
+          </p>
+        )}
+        {error && <p className="text-red-400 text-xs mb-4">{error}</p>}
+        <div className="space-y-3">
+          {bookmarks.map(renderNote)}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="app-container">
+      <header className="flex justify-between items-center px-8 py-6 relative z-10">
+        <button onClick={() => navigate(-1)} className="flex items-center gap-2 px-3 py-2 bg-transparent border-none text-text-secondary text-sm cursor-pointer transition-colors duration-200 hover:text-text-primary">
+          <ArrowLeft size={20} />
+          <span>Back</span>
+        </button>
+        <a href="/" className="flex items-center gap-2 text-2xl font-bold text-text-primary no-underline">
+          <svg className="w-9 h-9 block" viewBox="0 0 100 100" xmlns="http://www.w3.org/2000/svg">
+            <defs>
+              <linearGradient id="logoGradient" x1="0%" y1="0%" x2="100%" y2="100%">
+                <stop offset="0%" style={{stopColor: '#A855F7'}} />
+                <stop offset="100%" style={{stopColor: '#F97316'}} />
+              </linearGradient>
+            </defs>
+            <rect x="5" y="5" width="90" height="90" rx="20" fill="url(#logoGradient)" />
+            <circle cx="50" cy="50" r="22" fill="none" stroke="white" strokeWidth="6" />
+            <circle cx="50" cy="50" r="10" fill="white" />
+          </svg>
+          <span>nostramp</span>
+        </a>
+      </header>
+
+      <main className="flex-1 flex flex-col items-center justify-start px-8 py-8 relative z-1 max-w-3xl mx-auto w-full pt-12">
+        {renderContent()}
+      </main>
+
+      <footer className="flex items-center justify-center gap-3 px-8 py-8 text-text-muted text-sm relative z-1">
+        <span>Powered by Nostr</span>
+      </footer>
+    </div>
+  );
+}
+
+export default SavedPage;
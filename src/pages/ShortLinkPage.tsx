@@ -0,0 +1,77 @@
+import { useState, useEffect } from 'react';
+import { useParams, Navigate, Link } from 'react-router-dom';
+import { Link2 } from 'lucide-react';
+import { resolveShortLink } from '../shortlinks';
+
+/**
+ * Short link (/s/<slug>, or a bare /<slug>) - looks up the slug on the relays
+ * and forwards to the note or profile it points at
+ */
+function ShortLinkPage() {
+  const { slug, id } = useParams<{ slug?: string; id?: string }>();
+  const value = slug || id || '';
+  const [target, setTarget] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [isUnreachable, setIsUnreachable] = useState<boolean>(false);
+
+  useEffect(() => {
+    let isCancelled = false;
+    setIsLoading(true);
+    setTarget(null);
+    setIsUnreachable(false);
+
+    resolveShortLink(value)
+      .then(shortLink => {
+        if (!isCancelled) setTarget(shortLink?.target || null);
+      })
+      .catch(error => {
+        console.error('Error resolving short link:', error);
+        if (!isCancelled) setIsUnreachable(true);
+      })
+      .finally(() => {
+        if (!isCancelled) setIsLoading(false);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [value]);
+
+  if (target) {
+    return <Navigate to={`/${target}`} replace />;
+  }
+
+  return (
+    <div className="app-container">
+      <main className="flex-1 flex flex-col items-center justify-center px-8 py-8 relative z-1 max-w-3xl mx-auto w-full">
+        <div className="bg-bg-card border border-border rounded-3xl p-8 backdrop-blur-sm w-full max-w-[500px] text-center py-16 px-8">
+          {isLoading ? (
+            <>
+              <div className="w-[50px] h-[50px] border-[3px] border-border border-t-nostr-purple rounded-full animate-spin mx-auto mb-6"></div>
+              <p className="text-text-muted">Opening link...</p>
+            </>
+          ) : (
+            <>
+              <div className="text-nostr-purple mb-4 flex justify-center">
+                <Link2 size={48} />
+              </div>
+              <h2 className="text-text-primary mb-2">{isUnreachable ? 'Relays Unreachable' : 'Link Not Found'}</h2>
+              <p className="text-text-muted mb-6">
+                {isUnreachable ? (
+                  <>Couldn't reach the relays to look up <span className="font-mono text-text-secondary">/s/{value}</span>. Please try again later.</>
+                ) : (
+                  <>No post uses the short link <span className="font-mono text-text-secondary">/s/{value}</span> yet.</>
+                )}
+              </p>
+              <Link to="/" className="inline-block px-6 py-3 bg-gradient-to-br from-nostr-purple to-nostr-orange border-none rounded-lg text-white text-base font-semibold no-underline cursor-pointer transition-all duration-300 hover:-translate-y-0.5 hover:shadow-[0_10px_30px_rgba(168,85,247,0.4)]">
+                Go to nostramp
+              </Link>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
+
+export default ShortLinkPage;
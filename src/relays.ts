@@ -0,0 +1,350 @@
+/**
+ * Shared relay connection manager
+ * Keeps one long-lived SimplePool for the whole app so every Nostr helper
+ * reuses the same websockets instead of opening and closing its own
+ */
+
+import { SimplePool, type Event as NostrEvent, type Filter } from 'nostr-tools';
+import type { AbstractRelay, Subscription } from 'nostr-tools/abstract-relay';
+import { normalizeURL } from 'nostr-tools/utils';
+
+/**
+ * Default relays used when no other relays are known
+ */
+export const DEFAULT_RELAYS = [
+  'wss://relay.damus.io',
+  'wss://relay.snort.social',
+  'wss://nos.lol'
+];
+
+/**
+ * Replace the default relays
+ * Used on the server, which has no user relay list, e.g. to read from a local test relay
+ */
+export function setDefaultRelays(relays: string[]): void {
+  DEFAULT_RELAYS.splice(0, DEFAULT_RELAYS.length, ...relays);
+}
+
+/**
+ * Health information tracked for each relay
+ */
+export interface RelayHealth {
+  url: string;
+  connected: boolean;
+  failures: number;         // Consecutive connection failures
+  lastConnectedAt: number | null;
+  lastFailureAt: number | null;
+  retryAt: number | null;   // Relay is skipped until this time (ms) after failures
+}
+
+// Backoff doubles per consecutive failure, capped at the max
+const BACKOFF_BASE_MS = 2000;
+const BACKOFF_MAX_MS = 5 * 60 * 1000;
+
+// Sockets with no open subscriptions for this long are closed
+const IDLE_TIMEOUT_MS = 30000;
+const IDLE_CHECK_INTERVAL_MS = 10000;
+
+// How long each relay gets to answer a query that must not take silence for "nothing found"
+const ANSWER_TIMEOUT_MS = 5000;
+
+// Relay hints kept for events the user may reply to, quote or repost (oldest are dropped first)
+const MAX_RELAY_HINTS = 2000;
+
+let pool: SimplePool | null = null;
+let idleTimer: ReturnType<typeof setInterval> | null = null;
+const relayHealth = new Map<string, RelayHealth>();
+const relayHints = new Map<string, string[]>();
+
+/**
+ * Get (or create) the health record for a relay
+ */
+function getHealthRecord(url: string): RelayHealth {
+  let record = relayHealth.get(url);
+  if (!record) {
+    record = {
+      url,
+      connected: false,
+      failures: 0,
+      lastConnectedAt: null,
+      lastFailureAt: null,
+      retryAt: null
+    };
+    relayHealth.set(url, record);
+  }
+  return record;
+}
+
+function handleConnectionSuccess(url: string): void {
+  const record = getHealthRecord(normalizeURL(url));
+  record.connected = true;
+  record.failures = 0;
+  record.lastConnectedAt = Date.now();
+  record.retryAt = null;
+}
+
+function handleConnectionFailure(url: string): void {
+  const record = getHealthRecord(normalizeURL(url));
+  const now = Date.now();
+  record.connected = false;
+  record.failures++;
+  record.lastFailureAt = now;
+  record.retryAt = now + Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** (record.failures - 1));
+}
+
+/**
+ * Get the shared pool, creating it on first use
+ */
+export function getPool(): SimplePool {
+  if (!pool) {
+    // enableReconnect lets the pool resubscribe (with its own backoff) when an open socket drops
+    pool = new SimplePool({ enablePing: true, enableReconnect: true });
+    pool.onRelayConnectionSuccess = handleConnectionSuccess;
+    pool.onRelayConnectionFailure = handleConnectionFailure;
+  }
+
+  if (!idleTimer) {
+    idleTimer = setInterval(pruneIdleRelays, IDLE_CHECK_INTERVAL_MS);
+  }
+
+  return pool;
+}
+
+/**
+ * Close sockets that have been idle for longer than IDLE_TIMEOUT_MS
+ */
+function pruneIdleRelays(): void {
+  if (!pool) return;
+
+  pool.pruneIdleRelays(IDLE_TIMEOUT_MS).forEach(url => {
+    getHealthRecord(url).connected = false;
+  });
+
+  // Stop checking once nothing is open
+  if (pool.listConnectionStatus().size === 0 && idleTimer) {
+    clearInterval(idleTimer);
+    idleTimer = null;
+  }
+}
+
+/**
+ * Normalize and dedupe relay URLs, dropping relays that are backing off
+ * If every relay is backing off, all of them are returned so the request can still be attempted
+ * @param relays - Relay URLs to use
+ * @returns Relay URLs to connect to
+ */
+export function selectRelays(relays: string[]): string[] {
+  const urls: string[] = [];
+  relays.forEach(relay => {
+    try {
+      const url = normalizeURL(relay);
+      if (!urls.includes(url)) {
+        urls.push(url);
+      }
+    } catch {
+      // Skip malformed relay URLs
+    }
+  });
+
+  const now = Date.now();
+  const available = urls.filter(url => {
+    const retryAt = relayHealth.get(url)?.retryAt;
+    return !retryAt || retryAt <= now;
+  });
+
+  return available.length > 0 ? available : urls;
+}
+
+/**
+ * Query events from relays and wait until all of them reach EOSE
+ * @param relays - Relay URLs to query
+ * @param filter - Nostr filter
+ * @returns Matching events
+ */
+export async function queryEvents(relays: string[], filter: Filter): Promise<NostrEvent[]> {
+  return getPool().querySync(selectRelays(relays), filter);
+}
+
+/**
+ * Query each relay on its own, for paging where every relay applies its own limit
+ * A relay that can't be reached counts as returning nothing
+ * @param relays - Relay URLs to query
+ * @param filter - Nostr filter
+ * @param recordHints - Remember which relay each event came from (see getSeenOnRelays)
+ * @returns Matching events from each relay that was queried
+ */
+export async function queryEventsByRelay(relays: string[], filter: Filter, recordHints: boolean = false): Promise<NostrEvent[][]> {
+  return Promise.all(selectRelays(relays).map(async relay => {
+    const events = await getPool().querySync([relay], filter).catch(() => [] as NostrEvent[]);
+    if (recordHints) {
+      events.forEach(event => recordRelayHint(event.id, relay));
+    }
+    return events;
+  }));
+}
+
+/**
+ * Get the newest event matching a filter
+ * @param relays - Relay URLs to query
+ * @param filter - Nostr filter
+ * @param recordHints - Remember which relays the event came from (see getSeenOnRelays)
+ * @returns The newest matching event or null if not found
+ */
+export async function getEvent(relays: string[], filter: Filter, recordHints: boolean = false): Promise<NostrEvent | null> {
+  if (!recordHints) {
+    return getPool().get(selectRelays(relays), filter);
+  }
+
+  const events = await new Promise<NostrEvent[]>(resolve => {
+    const received: NostrEvent[] = [];
+    const subscription = getPool().subscribeMany(selectRelays(relays), { ...filter, limit: 1 }, {
+      onevent: event => received.push(event),
+      receivedEvent: (relay, id) => recordRelayHint(id, relay.url),
+      // Also called once every relay has closed or timed out
+      oneose: () => {
+        subscription.close();
+        resolve(received);
+      }
+    });
+  });
+
+  return events.sort((a, b) => b.created_at - a.created_at)[0] || null;
+}
+
+/**
+ * Query a single relay, telling "no matching events" apart from no answer
+ * Uses its own timer because the relay subscription reports a timeout as EOSE
+ * @returns The events, or null if the relay couldn't be reached or didn't send EOSE in time
+ */
+async function queryRelayAnswer(url: string, filter: Filter): Promise<NostrEvent[] | null> {
+  let relay: AbstractRelay;
+  try {
+    relay = await getPool().ensureRelay(url, { connectionTimeout: ANSWER_TIMEOUT_MS });
+  } catch {
+    handleConnectionFailure(url);
+    return null;
+  }
+  handleConnectionSuccess(url);
+
+  return new Promise(resolve => {
+    const events: NostrEvent[] = [];
+    let isDone = false;
+    let subscription: Subscription | null = null;
+
+    const finish = (answered: boolean) => {
+      if (isDone) return;
+      isDone = true;
+      clearTimeout(timer);
+      subscription?.close();
+      resolve(answered ? events : null);
+    };
+    const timer = setTimeout(() => finish(false), ANSWER_TIMEOUT_MS);
+
+    subscription = relay.subscribe([filter], {
+      onevent: event => events.push(event),
+      oneose: () => finish(true),
+      onclose: () => finish(false),
+      // Leave the timeout to our timer
+      eoseTimeout: ANSWER_TIMEOUT_MS * 2
+    });
+  });
+}
+
+/**
+ * Query events from relays, failing when no relay answers
+ * queryEvents resolves an empty list both when nothing matches and when every relay
+ * failed; use this when "nothing found" leads to overwriting or claiming something
+ * @param relays - Relay URLs to query
+ * @param filter - Nostr filter
+ * @returns Matching events from the relays that answered
+ * @throws Error if none of the relays sent EOSE
+ */
+export async function queryAnsweredEvents(relays: string[], filter: Filter): Promise<NostrEvent[]> {
+  const answers = await Promise.all(selectRelays(relays).map(url => queryRelayAnswer(url, filter)));
+  const answered = answers.filter((events): events is NostrEvent[] => events !== null);
+  if (answered.length === 0) {
+    throw new Error('None of the relays answered');
+  }
+
+  return answered.flat();
+}
+
+/**
+ * Get the newest event matching a filter, failing when no relay answers
+ * Use this to read a replaceable event (e.g. a list) that is about to be republished
+ * @param relays - Relay URLs to query
+ * @param filter - Nostr filter
+ * @returns The newest matching event, or null if the relays that answered have none
+ * @throws Error if none of the relays sent EOSE
+ */
+export async function getLatestEvent(relays: string[], filter: Filter): Promise<NostrEvent | null> {
+  const events = await queryAnsweredEvents(relays, { ...filter, limit: 1 });
+  return events.sort((a, b) => b.created_at - a.created_at)[0] || null;
+}
+
+/**
+ * Keep a subscription open and receive matching events as they arrive
+ * Stays open after EOSE until closed; the pool drops events already seen on another relay
+ * @param relays - Relay URLs to subscribe on
+ * @param filter - Nostr filter
+ * @param onEvent - Called for each matching event
+ * @returns Function that closes the subscription
+ */
+export function subscribeEvents(relays: string[], filter: Filter, onEvent: (event: NostrEvent) => void): () => void {
+  const subscription = getPool().subscribeMany(selectRelays(relays), filter, { onevent: onEvent });
+  return () => subscription.close();
+}
+
+/**
+ * Publish a signed event to relays
+ * Throws if no relay accepted the event
+ * @param relays - Relay URLs to publish to
+ * @param event - Signed event
+ */
+export async function publishToRelays(relays: string[], event: NostrEvent): Promise<void> {
+  const results = await Promise.allSettled(getPool().publish(selectRelays(relays), event));
+
+  // The pool resolves (rather than rejects) with a message when it can't connect
+  const accepted = results.some(result =>
+    result.status === 'fulfilled' && !result.value.startsWith('connection failure')
+  );
+
+  if (!accepted) {
+    throw new Error('Event was not accepted by any relay');
+  }
+}
+
+/**
+ * Remember a relay an event was received from
+ */
+function recordRelayHint(eventId: string, url: string): void {
+  const urls = relayHints.get(eventId) || [];
+  relayHints.delete(eventId);
+  relayHints.set(eventId, urls.includes(url) ? urls : [...urls, url]);
+
+  if (relayHints.size > MAX_RELAY_HINTS) {
+    relayHints.delete(relayHints.keys().next().value as string);
+  }
+}
+
+/**
+ * Get the relays an event was received from in this session
+ * Only events fetched with recordHints are remembered
+ * @param eventId - Event ID (hex)
+ * @returns Relay URLs (empty if the event wasn't recorded)
+ */
+export function getSeenOnRelays(eventId: string): string[] {
+  return relayHints.get(eventId) || [];
+}
+
+/**
+ * Get health information for every relay the manager has used
+ * @returns Health record for each relay
+ */
+export function getRelayHealth(): RelayHealth[] {
+  const status = pool ? pool.listConnectionStatus() : new Map<string, boolean>();
+  return Array.from(relayHealth.values()).map(record => ({
+    ...record,
+    connected: status.get(record.url) ?? false
+  }));
+}
@@ -0,0 +1,209 @@
+/**
+ * Short links - /s/<slug> for a shared note or profile, e.g. /s/launch-day
+ * The mapping is published by its creator as NIP-78 app data (kind 30078,
+ * d tag "nostramp/s/<slug>"), so it lives on relays rather than on our server
+ *
+ * Anyone can publish a claim for any slug; the oldest claim wins and only its
+ * author can point the slug somewhere else. A claim dates from the earliest
+ * event seen for its author - relays only keep the newest version, so an
+ * edit would give up the slug once someone else has claimed it too, and is
+ * refused then. Timestamps are set by the signer, so this keeps honest users
+ * from colliding rather than stopping a determined squatter
+ */
+
+import { queryAnsweredEvents } from './relays';
+import { getReadRelays, getWriteRelays } from './storage.relays';
+import { decodeEventId, decodeProfileId, publishEvent, type Event } from './nostr';
+import type { NostrSigner } from './signer';
+
+export const SHORT_LINK_KIND = 30078;
+
+const SHORT_LINK_D_PREFIX = 'nostramp/s/';
+
+// 3-40 lowercase letters, digits and dashes, starting and ending with a letter or digit
+const SLUG_PATTERN = /^[a-z0-9][a-z0-9-]{1,38}[a-z0-9]$/;
+
+// Random codes leave out look-alike characters (0/o, 1/l/i)
+const RANDOM_SLUG_ALPHABET = '23456789abcdefghjkmnpqrstuvwxyz';
+const RANDOM_SLUG_LENGTH = 6;
+
+// Random codes tried before giving up
+const RANDOM_SLUG_ATTEMPTS = 5;
+
+/**
+ * A slug and the link it points at
+ */
+export interface ShortLink {
+  slug: string;
+  target: string;     // note1, nevent1, naddr1, npub1 or nprofile1 ID
+  owner: string;      // Public key (hex) of the slug's creator
+  claimedAt: number;  // Unix seconds of the earliest claim event seen
+}
+
+/**
+ * Tidy up a slug typed by the user: lowercase, dashes for spaces
+ */
+export function normalizeSlug(input: string): string {
+  return input.trim().toLowerCase().replace(/[\s_]+/g, '-').replace(/^\/?s\//, '');
+}
+
+/**
+ * Check whether text has the shape of a slug
+ */
+export function isShortLinkSlug(value: string): boolean {
+  return SLUG_PATTERN.test(value) && !value.includes('--');
+}
+
+/**
+ * Check a slug chosen by the user
+ * @returns An error message, or null if the slug can be used
+ */
+export function validateSlug(slug: string): string | null {
+  if (slug.length < 3) return 'Short links need at least 3 characters';
+  if (slug.length > 40) return 'Short links can be at most 40 characters';
+  if (!isShortLinkSlug(slug)) return 'Use letters, numbers and single dashes only';
+  return null;
+}
+
+/**
+ * Make a random short code, e.g. "k3m9xq"
+ */
+export function generateSlug(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(RANDOM_SLUG_LENGTH));
+  return Array.from(bytes, byte => RANDOM_SLUG_ALPHABET[byte % RANDOM_SLUG_ALPHABET.length]).join('');
+}
+
+/**
+ * Relays short links are looked up on and published to - the read and write
+ * relays together, so claims are checked where they are published
+ */
+function getShortLinkRelays(relays?: string[]): string[] {
+  if (relays && relays.length > 0) return relays;
+  return [...new Set([...getReadRelays(), ...getWriteRelays()])];
+}
+
+/**
+ * Read a short link claim, or null if the event isn't a valid one
+ */
+function parseShortLinkEvent(event: Event): ShortLink | null {
+  const dTag = event.tags.find(tag => tag[0] === 'd')?.[1] || '';
+  if (event.kind !== SHORT_LINK_KIND || !dTag.startsWith(SHORT_LINK_D_PREFIX)) return null;
+
+  const slug = dTag.slice(SHORT_LINK_D_PREFIX.length);
+  const target = event.content.trim();
+  if (!isShortLinkSlug(slug) || !(decodeEventId(target) || decodeProfileId(target))) return null;
+
+  return { slug, target, owner: event.pubkey, claimedAt: event.created_at };
+}
+
+/**
+ * Fetch every claim on a slug, oldest claim (the owner's) first
+ * Each creator's newest event decides where their claim points, and their
+ * earliest one when the claim was made (older versions can linger on some relays)
+ * @param slug - The slug, already normalized
+ * @param relays - Optional custom relays
+ * @throws Error if none of the relays answered, so an outage doesn't make the slug look free
+ */
+export async function fetchShortLinkClaims(slug: string, relays?: string[]): Promise<ShortLink[]> {
+  const events = await queryAnsweredEvents(getShortLinkRelays(relays), {
+    kinds: [SHORT_LINK_KIND],
+    '#d': [`${SHORT_LINK_D_PREFIX}${slug}`]
+  });
+
+  const latest = new Map<string, { event: Event; claim: ShortLink }>();
+  for (const event of events) {
+    const claim = parseShortLinkEvent(event);
+    if (!claim) continue;
+    const current = latest.get(event.pubkey);
+    if (!current) {
+      latest.set(event.pubkey, { event, claim });
+    } else {
+      const newest = event.created_at > current.event.created_at ? { event, claim } : current;
+      latest.set(event.pubkey, {
+        event: newest.event,
+        claim: { ...newest.claim, claimedAt: Math.min(claim.claimedAt, current.claim.claimedAt) }
+      });
+    }
+  }
+
+  return [...latest.values()]
+    .map(entry => entry.claim)
+    .sort((a, b) => a.claimedAt - b.claimedAt || a.owner.localeCompare(b.owner));
+}
+
+/**
+ * Find where a slug points
+ * @param slug - Slug from a /s/<slug> link
+ * @param relays - Optional custom relays
+ * @returns The owner's claim, or null if nobody has claimed the slug
+ * @throws Error if none of the relays answered
+ */
+export async function resolveShortLink(slug: string, relays?: string[]): Promise<ShortLink | null> {
+  const normalized = normalizeSlug(slug);
+  if (!isShortLinkSlug(normalized)) return null;
+
+  const claims = await fetchShortLinkClaims(normalized, relays);
+  return claims[0] || null;
+}
+
+/**
+ * Claim a slug for a link, or point a slug the user already owns at a new link
+ * @param signer - The user's signer; the slug belongs to its public key
+ * @param target - note1, nevent1, naddr1, npub1 or nprofile1 ID to link to
+ * @param slug - Slug to claim, or leave out for a random code
+ * @param relays - Optional custom relays to check and publish on
+ * @returns The published short link, or an error (e.g. the slug is taken)
+ */
+export async function publishShortLink(
+  signer: NostrSigner,
+  target: string,
+  slug?: string,
+  relays?: string[]
+): Promise<{ shortLink?: ShortLink; error?: string }> {
+  if (!(decodeEventId(target) || decodeProfileId(target))) {
+    return { error: 'Not a Nostr note or profile link' };
+  }
+
+  const relayList = getShortLinkRelays(relays);
+
+  try {
+    const pubkey = await signer.getPublicKey();
+
+    let chosen: string | null = null;
+    let owner: ShortLink | null = null;
+    if (slug !== undefined) {
+      chosen = normalizeSlug(slug);
+      const error = validateSlug(chosen);
+      if (error) return { error };
+
+      const claims = await fetchShortLinkClaims(chosen, relayList);
+      if (claims.length > 0 && claims[0].owner !== pubkey) {
+        return { error: `/s/${chosen} is already taken` };
+      }
+      // Republishing moves our claim to now, behind everyone else's
+      if (claims.length > 1) {
+        return { error: `/s/${chosen} can't be changed because others have claimed it too. Pick a new short link.` };
+      }
+      owner = claims[0] || null;
+    } else {
+      for (let attempt = 0; attempt < RANDOM_SLUG_ATTEMPTS && !chosen; attempt++) {
+        const candidate = generateSlug();
+        if ((await fetchShortLinkClaims(candidate, relayList)).length === 0) {
+          chosen = candidate;
+        }
+      }
+      if (!chosen) return { error: 'Could not find a free short code. Please try again.' };
+    }
+
+    const event = await publishEvent(signer, target, SHORT_LINK_KIND, [
+      ['d', `${SHORT_LINK_D_PREFIX}${chosen}`],
+      ['alt', `Nostramp short link /s/${chosen}`]
+    ], relayList);
+    if (!event) return { error: 'Could not publish the short link. Please try again.' };
+
+    return { shortLink: { slug: chosen, target, owner: pubkey, claimedAt: owner?.claimedAt ?? event.created_at } };
+  } catch (error) {
+    console.error('Error creating short link:', error);
+    return { error: 'Could not create the short link. Please try again.' };
+  }
+}
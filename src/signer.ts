@@ -0,0 +1,278 @@
+/**
+ * Signer abstraction - signs events with the local profile key, a
+ * NIP-07 browser extension (Alby, nos2x, ...) or a NIP-46 remote signer (bunker)
+ */
+
+import { finalizeEvent, generateSecretKey, getPublicKey, type EventTemplate, type Event as NostrEvent } from 'nostr-tools';
+import type { WindowNostr } from 'nostr-tools/nip07';
+import { BunkerSigner, parseBunkerInput, createNostrConnectURI } from 'nostr-tools/nip46';
+import { bytesToHex } from 'nostr-tools/utils';
+import { encrypt as encryptNip44, decrypt as decryptNip44, getConversationKey } from 'nostr-tools/nip44';
+import { hexToBytes } from './nostr';
+import { getPool } from './relays';
+import {
+  getProfileKey,
+  getSignerPreference,
+  setSignerPreference,
+  type StoredBunker
+} from './storage.identity';
+
+declare global {
+  interface Window {
+    nostr?: WindowNostr;
+  }
+}
+
+/**
+ * Kinds of signer the app can use
+ */
+export type SignerType = 'local' | 'nip07' | 'nip46';
+
+/**
+ * Relays used for nostrconnect:// pairing when the user scans a QR code
+ * VITE_NOSTR_CONNECT_RELAYS (comma-separated) replaces them, e.g. ws://localhost:7778
+ * for scripts/mock-bunker.ts
+ */
+export const NOSTR_CONNECT_RELAYS = import.meta.env.VITE_NOSTR_CONNECT_RELAYS
+  ? import.meta.env.VITE_NOSTR_CONNECT_RELAYS.split(',').map((url: string) => url.trim()).filter(Boolean)
+  : [
+      'wss://relay.nsec.app',
+      'wss://relay.damus.io'
+    ];
+
+// How long to wait for a remote signer to answer a nostrconnect:// pairing
+const NOSTR_CONNECT_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Remote signer connection for this page load, reused across signing requests
+let activeBunker: { signer: BunkerSigner; clientSecretKey: string } | null = null;
+
+/**
+ * NIP-44 encryption with the user's key (e.g. private list entries)
+ */
+export interface Nip44Cipher {
+  encrypt(pubkey: string, plaintext: string): Promise<string>;
+  decrypt(pubkey: string, ciphertext: string): Promise<string>;
+}
+
+/**
+ * Anything that can sign Nostr events on the user's behalf
+ */
+export interface NostrSigner {
+  type: SignerType;
+  getPublicKey(): Promise<string>;
+  signEvent(event: EventTemplate): Promise<NostrEvent>;
+  nip44?: Nip44Cipher;  // Missing when the signer can't encrypt (e.g. an extension without NIP-44)
+}
+
+/**
+ * Create a signer backed by a locally stored private key
+ * @param privateKeyHex - Hex-encoded private key
+ */
+export function createLocalSigner(privateKeyHex: string): NostrSigner {
+  const secretKey = hexToBytes(privateKeyHex);
+  const publicKey = getPublicKey(secretKey);
+  
+  return {
+    type: 'local',
+    getPublicKey: async () => publicKey,
+    signEvent: async (event) => finalizeEvent(event, secretKey),
+    nip44: {
+      encrypt: async (pubkey, plaintext) => encryptNip44(plaintext, getConversationKey(secretKey, pubkey)),
+      decrypt: async (pubkey, ciphertext) => decryptNip44(ciphertext, getConversationKey(secretKey, pubkey))
+    }
+  };
+}
+
+/**
+ * Check if a NIP-07 browser extension is available
+ */
+export function hasNip07Extension(): boolean {
+  return typeof window !== 'undefined' && !!window.nostr;
+}
+
+/**
+ * Create a signer backed by the NIP-07 browser extension
+ * The extension prompts the user for each request according to its own settings
+ * @throws Error if no extension is installed
+ */
+export function createNip07Signer(): NostrSigner {
+  if (!hasNip07Extension()) {
+    throw new Error('No Nostr browser extension found');
+  }
+  
+  return {
+    type: 'nip07',
+    getPublicKey: () => window.nostr!.getPublicKey(),
+    signEvent: (event) => window.nostr!.signEvent(event),
+    // Older extensions don't implement NIP-44
+    nip44: window.nostr!.nip44 ? {
+      encrypt: (pubkey, plaintext) => window.nostr!.nip44!.encrypt(pubkey, plaintext),
+      decrypt: (pubkey, ciphertext) => window.nostr!.nip44!.decrypt(pubkey, ciphertext)
+    } : undefined
+  };
+}
+
+/**
+ * Switch the user's identity to the NIP-07 browser extension
+ * Asks the extension for its public key and remembers the choice
+ * @returns The extension's public key (hex)
+ * @throws Error if no extension is installed or the user rejects the request
+ */
+export async function connectNip07Signer(): Promise<string> {
+  const publicKey = await createNip07Signer().getPublicKey();
+  setSignerPreference({ type: 'nip07', publicKey });
+  return publicKey;
+}
+
+/**
+ * Open a pending auth URL from the remote signer (some bunkers ask the user to approve there)
+ */
+function handleBunkerAuth(url: string): void {
+  window.open(url, '_blank', 'noopener,noreferrer');
+}
+
+/**
+ * Wrap a connected BunkerSigner as a NostrSigner
+ */
+function wrapBunkerSigner(bunker: BunkerSigner): NostrSigner {
+  return {
+    type: 'nip46',
+    getPublicKey: () => bunker.getPublicKey(),
+    signEvent: (event) => bunker.signEvent(event),
+    nip44: {
+      encrypt: (pubkey, plaintext) => bunker.nip44Encrypt(pubkey, plaintext),
+      decrypt: (pubkey, ciphertext) => bunker.nip44Decrypt(pubkey, ciphertext)
+    }
+  };
+}
+
+/**
+ * Get the BunkerSigner for a stored remote signer, reconnecting if needed
+ */
+function getBunkerSigner(stored: StoredBunker): BunkerSigner {
+  if (activeBunker && activeBunker.clientSecretKey === stored.clientSecretKey) {
+    return activeBunker.signer;
+  }
+  
+  const signer = BunkerSigner.fromBunker(
+    hexToBytes(stored.clientSecretKey),
+    { pubkey: stored.pubkey, relays: stored.relays, secret: stored.secret },
+    { pool: getPool(), onauth: handleBunkerAuth }
+  );
+  activeBunker = { signer, clientSecretKey: stored.clientSecretKey };
+  return signer;
+}
+
+/**
+ * Remember a connected remote signer as the user's identity
+ */
+async function saveBunkerSigner(signer: BunkerSigner, clientSecretKey: string): Promise<string> {
+  const publicKey = await signer.getPublicKey();
+  
+  activeBunker = { signer, clientSecretKey };
+  setSignerPreference({
+    type: 'nip46',
+    publicKey,
+    bunker: {
+      clientSecretKey,
+      pubkey: signer.bp.pubkey,
+      relays: signer.bp.relays,
+      secret: signer.bp.secret
+    }
+  });
+  
+  return publicKey;
+}
+
+/**
+ * Connect to a NIP-46 remote signer from a bunker:// URI (or name@domain NIP-05 bunker)
+ * @param input - bunker://<pubkey>?relay=...&secret=... or a NIP-05 identifier
+ * @returns The user's public key (hex) as reported by the remote signer
+ * @throws Error if the input is invalid or the signer doesn't respond
+ */
+export async function connectBunkerSigner(input: string): Promise<string> {
+  const pointer = await parseBunkerInput(input.trim());
+  if (!pointer || pointer.relays.length === 0) {
+    throw new Error('Invalid bunker URI');
+  }
+  
+  const clientSecretKey = generateSecretKey();
+  const signer = BunkerSigner.fromBunker(clientSecretKey, pointer, {
+    pool: getPool(),
+    onauth: handleBunkerAuth
+  });
+  
+  try {
+    await signer.connect();
+    return await saveBunkerSigner(signer, bytesToHex(clientSecretKey));
+  } catch (error) {
+    await signer.close();
+    throw error;
+  }
+}
+
+/**
+ * Start a nostrconnect:// pairing for a remote signer app to scan
+ * @param relays - Relays the remote signer should answer on
+ * @returns The URI to show as a QR code, a promise for the user's public key
+ * once the signer connects, and a function to cancel waiting
+ */
+export function startNostrConnect(relays: string[] = NOSTR_CONNECT_RELAYS): {
+  uri: string;
+  connected: Promise<string>;
+  cancel: () => void;
+} {
+  const clientSecretKey = generateSecretKey();
+  const abort = new AbortController();
+  const timeout = setTimeout(() => abort.abort(), NOSTR_CONNECT_TIMEOUT_MS);
+  
+  const uri = createNostrConnectURI({
+    clientPubkey: getPublicKey(clientSecretKey),
+    relays,
+    secret: bytesToHex(generateSecretKey()).slice(0, 16),
+    perms: ['sign_event', 'nip44_encrypt', 'nip44_decrypt'],
+    name: 'Nostramp',
+    url: window.location.origin
+  });
+  
+  const connected = BunkerSigner.fromURI(clientSecretKey, uri, { pool: getPool(), onauth: handleBunkerAuth }, abort.signal)
+    .then(signer => saveBunkerSigner(signer, bytesToHex(clientSecretKey)))
+    .finally(() => clearTimeout(timeout));
+  
+  return {
+    uri,
+    connected,
+    cancel: () => abort.abort()
+  };
+}
+
+/**
+ * Close the remote signer connection for this page (the stored preference is kept)
+ */
+export async function disconnectRemoteSigner(): Promise<void> {
+  if (activeBunker) {
+    const { signer } = activeBunker;
+    activeBunker = null;
+    await signer.close();
+  }
+}
+
+/**
+ * Get a signer for the user's current identity
+ * @returns The signer, or null if there is no usable identity
+ * (no profile yet, profile locked, or the extension is missing)
+ */
+export function getActiveSigner(): NostrSigner | null {
+  const preference = getSignerPreference();
+  
+  if (preference.type === 'nip07') {
+    return hasNip07Extension() ? createNip07Signer() : null;
+  }
+  
+  if (preference.type === 'nip46') {
+    return preference.bunker ? wrapBunkerSigner(getBunkerSigner(preference.bunker)) : null;
+  }
+  
+  const profileKey = getProfileKey();
+  return profileKey ? createLocalSigner(profileKey.privateKey) : null;
+}
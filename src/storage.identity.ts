@@ -3,11 +3,16 @@
  */
 
 import { generateEphemeralKeypair, getPublicKeyFromPrivate } from './nostr';
+import { clearRelaySettings } from './storage.relays';
+import { encryptIdentity, decryptIdentity, validatePassword, type EncryptedIdentity } from './security/crypto';
+import type { SignerType } from './signer';
 
 const STORAGE_KEYS = {
   PROFILE_KEY: 'nostramp_profile_key',  // This is the user's profile/ephemeral key
+  ENCRYPTED_PROFILE: 'nostramp_profile_encrypted',  // Password-protected profile key
   USER_ACTIVITY: 'nostramp_user_activity',
-  SESSION_KEY: 'nostramp_session_key'
+  SESSION_KEY: 'nostramp_session_key',
+  SIGNER: 'nostramp_signer'  // Which signer to use (local key or browser extension)
 } as const;
 
 /**
@@ -22,6 +27,35 @@ export interface UserActivity {
   replyEvents: string[];    // Event IDs the user has replied to
 }
 
+/**
+ * Password-protected profile as stored at rest
+ * Only the public key is kept in the clear
+ */
+export interface StoredEncryptedProfile {
+  publicKey: string;
+  encrypted: EncryptedIdentity;
+}
+
+/**
+ * Connection details for a NIP-46 remote signer
+ */
+export interface StoredBunker {
+  clientSecretKey: string;  // Hex key used only to talk to the remote signer, never the user's key
+  pubkey: string;           // Remote signer's public key
+  relays: string[];
+  secret: string | null;
+}
+
+/**
+ * Which signer the user has chosen
+ * For external signers the public key is remembered so it can be shown without prompting
+ */
+export interface SignerPreference {
+  type: SignerType;
+  publicKey?: string;
+  bunker?: StoredBunker;  // Only for NIP-46 remote signers
+}
+
 /**
  * Identity state
  */
@@ -138,6 +172,20 @@ export function recordReply(eventId: string): UserActivity {
   return activity;
 }
 
+/**
+ * Remove a reply record for an event (after the user deleted their replies to it)
+ */
+export function removeReply(eventId: string): UserActivity {
+  const activity = getUserActivity();
+  const index = activity.replyEvents.indexOf(eventId);
+  if (index > -1) {
+    activity.replyEvents.splice(index, 1);
+    activity.replies = Math.max(0, activity.replies - 1);
+    saveUserActivity(activity);
+  }
+  return activity;
+}
+
 /**
  * Check if user has liked an event
  */
@@ -155,19 +203,43 @@ export function hasSavedEvent(eventId: string): boolean {
 }
 
 /**
- * Check if a profile key exists in storage
+ * Check if a profile key exists in storage (plaintext or password-protected)
  */
 export function hasProfileKey(): boolean {
   try {
-    return localStorage.getItem(STORAGE_KEYS.PROFILE_KEY) !== null;
+    return localStorage.getItem(STORAGE_KEYS.PROFILE_KEY) !== null ||
+      localStorage.getItem(STORAGE_KEYS.ENCRYPTED_PROFILE) !== null;
   } catch (error) {
     console.error('Error checking profile:', error);
     return false;
   }
 }
 
+/**
+ * Get the password-protected profile from storage
+ */
+export function getEncryptedProfile(): StoredEncryptedProfile | null {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEYS.ENCRYPTED_PROFILE);
+    if (stored) {
+      return JSON.parse(stored) as StoredEncryptedProfile;
+    }
+  } catch (error) {
+    console.error('Error reading encrypted profile:', error);
+  }
+  return null;
+}
+
+/**
+ * Check if the profile is password-protected
+ */
+export function isProfileEncrypted(): boolean {
+  return getEncryptedProfile() !== null;
+}
+
 /**
  * Get the profile key from storage
+ * For a password-protected profile this is only available once unlocked
  */
 export function getProfileKey(): { privateKey: string; publicKey: string } | null {
   try {
@@ -182,9 +254,106 @@ export function getProfileKey(): { privateKey: string; publicKey: string } | nul
   } catch (error) {
     console.error('Error reading profile key:', error);
   }
+  
+  // Password-protected profiles only live in the session once unlocked
+  const encryptedProfile = getEncryptedProfile();
+  if (encryptedProfile) {
+    const session = getSessionKey();
+    if (session && session.publicKey === encryptedProfile.publicKey) {
+      return session;
+    }
+  }
+  
   return null;
 }
 
+/**
+ * Protect the profile key with a password
+ * Replaces the plaintext key in localStorage with an encrypted blob;
+ * the key stays unlocked in the session until it is locked or the tab closes
+ * @param password - Password to encrypt the key with
+ */
+export async function lockProfileWithPassword(password: string): Promise<{ error?: string }> {
+  const validation = validatePassword(password);
+  if (!validation.isValid) {
+    return { error: validation.error };
+  }
+  
+  const profileKey = getProfileKey();
+  if (!profileKey) {
+    return { error: 'No unlocked profile to protect' };
+  }
+  
+  try {
+    const encrypted = await encryptIdentity(profileKey.privateKey, password);
+    const stored: StoredEncryptedProfile = { publicKey: profileKey.publicKey, encrypted };
+    localStorage.setItem(STORAGE_KEYS.ENCRYPTED_PROFILE, JSON.stringify(stored));
+    localStorage.removeItem(STORAGE_KEYS.PROFILE_KEY);
+    sessionStorage.setItem(STORAGE_KEYS.SESSION_KEY, profileKey.privateKey);
+    return {};
+  } catch (error) {
+    console.error('Error encrypting profile:', error);
+    return { error: 'Failed to encrypt profile' };
+  }
+}
+
+/**
+ * Unlock a password-protected profile for this session
+ * The decrypted key is kept in sessionStorage only
+ * @param password - Password the profile was locked with
+ */
+export async function unlockProfile(password: string): Promise<{ publicKey?: string; error?: string }> {
+  const encryptedProfile = getEncryptedProfile();
+  if (!encryptedProfile) {
+    return { error: 'Profile is not password protected' };
+  }
+  
+  const privateKey = await decryptIdentity(encryptedProfile.encrypted, password);
+  if (!privateKey) {
+    return { error: 'Incorrect password' };
+  }
+  
+  try {
+    if (getPublicKeyFromPrivate(privateKey) !== encryptedProfile.publicKey) {
+      return { error: 'Decrypted key does not match profile' };
+    }
+    sessionStorage.setItem(STORAGE_KEYS.SESSION_KEY, privateKey);
+    return { publicKey: encryptedProfile.publicKey };
+  } catch (error) {
+    console.error('Error unlocking profile:', error);
+    return { error: 'Failed to unlock profile' };
+  }
+}
+
+/**
+ * Lock a password-protected profile by dropping the key from the session
+ */
+export function lockSession(): void {
+  if (isProfileEncrypted()) {
+    clearSessionKey();
+  }
+}
+
+/**
+ * Remove password protection, storing the key in plaintext again
+ * The profile must be unlocked first
+ */
+export function removeProfilePassword(): { error?: string } {
+  const profileKey = getProfileKey();
+  if (!profileKey || !isProfileEncrypted()) {
+    return { error: 'Unlock your profile first' };
+  }
+  
+  try {
+    localStorage.setItem(STORAGE_KEYS.PROFILE_KEY, JSON.stringify(profileKey));
+    localStorage.removeItem(STORAGE_KEYS.ENCRYPTED_PROFILE);
+    return {};
+  } catch (error) {
+    console.error('Error removing profile password:', error);
+    return { error: 'Failed to remove password' };
+  }
+}
+
 /**
  * Create and store a new profile with ephemeral keys
  * @returns The public key of the new profile
@@ -212,6 +381,64 @@ export function createProfile(): {
   }
 }
 
+/**
+ * Import an existing private key as the profile
+ * Replaces any current profile (including a password-protected one) when overwrite is set;
+ * activity tracked for the old profile is cleared since it belongs to a different key.
+ * With a password the key is stored encrypted, and a password-protected profile is
+ * never replaced by a plaintext one
+ * @param privateKeyHex - Hex-encoded private key
+ * @param overwrite - Replace an existing profile
+ * @param password - Optional password to encrypt the imported key with
+ * @returns The public key of the imported profile
+ */
+export async function importProfile(privateKeyHex: string, overwrite: boolean = false, password?: string): Promise<{
+  publicKey: string;
+  privateKey: string;
+  error?: string
+}> {
+  if (hasProfileKey() && !overwrite) {
+    return { publicKey: '', privateKey: '', error: 'Profile already exists' };
+  }
+  if (!password && isProfileEncrypted()) {
+    return { publicKey: '', privateKey: '', error: 'Choose a password to keep your profile locked' };
+  }
+  
+  let publicKey: string;
+  try {
+    publicKey = getPublicKeyFromPrivate(privateKeyHex);
+  } catch {
+    return { publicKey: '', privateKey: '', error: 'Invalid private key' };
+  }
+  
+  try {
+    // Encrypt first so a failure leaves the current profile in place
+    const encrypted = password ? await encryptIdentity(privateKeyHex, password) : null;
+    
+    // Activity and relays belong to the previous identity
+    const existing = getIdentityState().publicKey;
+    if (existing && existing !== publicKey) {
+      localStorage.removeItem(STORAGE_KEYS.USER_ACTIVITY);
+      clearRelaySettings();
+    }
+    
+    localStorage.removeItem(STORAGE_KEYS.SIGNER);
+    if (encrypted) {
+      const stored: StoredEncryptedProfile = { publicKey, encrypted };
+      localStorage.setItem(STORAGE_KEYS.ENCRYPTED_PROFILE, JSON.stringify(stored));
+      localStorage.removeItem(STORAGE_KEYS.PROFILE_KEY);
+    } else {
+      localStorage.removeItem(STORAGE_KEYS.ENCRYPTED_PROFILE);
+      localStorage.setItem(STORAGE_KEYS.PROFILE_KEY, JSON.stringify({ privateKey: privateKeyHex, publicKey }));
+    }
+    sessionStorage.setItem(STORAGE_KEYS.SESSION_KEY, privateKeyHex);
+    return { publicKey, privateKey: privateKeyHex };
+  } catch (error) {
+    console.error('Error importing profile:', error);
+    return { publicKey: '', privateKey: '', error: 'Failed to store profile' };
+  }
+}
+
 /**
  * Get the session key if available
  */
@@ -239,10 +466,57 @@ export function clearSessionKey(): void {
   }
 }
 
+/**
+ * Get the user's signer preference (defaults to the local profile key)
+ */
+export function getSignerPreference(): SignerPreference {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEYS.SIGNER);
+    if (stored) {
+      return JSON.parse(stored) as SignerPreference;
+    }
+  } catch (error) {
+    console.error('Error reading signer preference:', error);
+  }
+  return { type: 'local' };
+}
+
+/**
+ * Save the user's signer preference
+ */
+export function setSignerPreference(preference: SignerPreference): void {
+  try {
+    localStorage.setItem(STORAGE_KEYS.SIGNER, JSON.stringify(preference));
+  } catch (error) {
+    console.error('Error saving signer preference:', error);
+  }
+}
+
+/**
+ * Switch back to the local profile key
+ */
+export function clearSignerPreference(): void {
+  try {
+    localStorage.removeItem(STORAGE_KEYS.SIGNER);
+  } catch (error) {
+    console.error('Error clearing signer preference:', error);
+  }
+}
+
 /**
  * Get current identity state
  */
 export function getIdentityState(): IdentityState {
+  // External signers hold the key themselves, so they are never locked here
+  const signerPreference = getSignerPreference();
+  if (signerPreference.type !== 'local' && signerPreference.publicKey) {
+    return {
+      publicKey: signerPreference.publicKey,
+      isLocked: false,
+      hasIdentity: true
+    };
+  }
+  
   const profileKey = getProfileKey();
   
   if (profileKey) {
@@ -255,6 +529,16 @@ export function getIdentityState(): IdentityState {
     };
   }
   
+  // Password-protected profile that hasn't been unlocked this session
+  const encryptedProfile = getEncryptedProfile();
+  if (encryptedProfile) {
+    return {
+      publicKey: encryptedProfile.publicKey,
+      isLocked: true,
+      hasIdentity: true
+    };
+  }
+  
   return {
     publicKey: null,
     isLocked: false,
@@ -272,7 +556,7 @@ export async function restoreAndGetSession(): Promise<{ privateKey: string; publ
     return existingSession;
   }
   
-  // Try to get from profile key
+  // Try to get from profile key (null while a password-protected profile is locked)
   const profileKey = getProfileKey();
   if (profileKey) {
     sessionStorage.setItem(STORAGE_KEYS.SESSION_KEY, profileKey.privateKey);
@@ -288,11 +572,14 @@ export async function restoreAndGetSession(): Promise<{ privateKey: string; publ
 export function clearIdentityData(): void {
   try {
     localStorage.removeItem(STORAGE_KEYS.PROFILE_KEY);
+    localStorage.removeItem(STORAGE_KEYS.ENCRYPTED_PROFILE);
     localStorage.removeItem(STORAGE_KEYS.USER_ACTIVITY);
+    localStorage.removeItem(STORAGE_KEYS.SIGNER);
     sessionStorage.removeItem(STORAGE_KEYS.SESSION_KEY);
   } catch (error) {
     console.error('Error clearing profile data:', error);
   }
+  clearRelaySettings();
 }
 
 // Keep these for backwards compatibility with existing code
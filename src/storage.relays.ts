@@ -0,0 +1,154 @@
+/**
+ * Relay settings storage - the user's relay list, saved alongside their profile
+ */
+
+import { normalizeURL } from 'nostr-tools/utils';
+import { DEFAULT_RELAYS } from './relays';
+
+const STORAGE_KEYS = {
+  PROFILE_RELAYS: 'nostramp_profile_relays'
+} as const;
+
+/**
+ * A relay in the user's list and how it is used
+ */
+export interface RelaySetting {
+  url: string;
+  read: boolean;   // Query this relay when fetching events
+  write: boolean;  // Publish the user's events to this relay
+}
+
+/**
+ * Get the default relay list (all default relays for read and write)
+ */
+export function getDefaultRelaySettings(): RelaySetting[] {
+  return DEFAULT_RELAYS.map(url => ({ url, read: true, write: true }));
+}
+
+/**
+ * Get the user's relay list from storage
+ * Falls back to the default relays if none are stored
+ */
+export function getRelaySettings(): RelaySetting[] {
+  // No storage on the server (share previews), only the defaults
+  if (typeof localStorage === 'undefined') return getDefaultRelaySettings();
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEYS.PROFILE_RELAYS);
+    if (stored) {
+      const settings = JSON.parse(stored) as RelaySetting[];
+      if (Array.isArray(settings) && settings.length > 0) {
+        return settings;
+      }
+    }
+  } catch (error) {
+    console.error('Error reading relay settings:', error);
+  }
+  return getDefaultRelaySettings();
+}
+
+/**
+ * Save the user's relay list to storage
+ */
+export function saveRelaySettings(settings: RelaySetting[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEYS.PROFILE_RELAYS, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Error saving relay settings:', error);
+  }
+}
+
+/**
+ * Normalize a relay URL entered by the user
+ * @param url - Relay URL, with or without the wss:// prefix
+ * @returns Normalized URL or null if it isn't a valid websocket URL
+ */
+export function normalizeRelayUrl(url: string): string | null {
+  const trimmed = url.trim();
+  if (!trimmed) return null;
+
+  const withScheme = /^wss?:\/\//i.test(trimmed) ? trimmed : `wss://${trimmed}`;
+
+  try {
+    const normalized = normalizeURL(withScheme);
+    return /^wss?:\/\//.test(normalized) ? normalized : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Add a relay to the user's list (read and write)
+ * @returns The updated list, or an error if the URL is invalid or already present
+ */
+export function addRelay(url: string): { settings: RelaySetting[]; error?: string } {
+  const settings = getRelaySettings();
+  const normalized = normalizeRelayUrl(url);
+
+  if (!normalized) {
+    return { settings, error: 'Invalid relay URL' };
+  }
+  if (settings.some(relay => normalizeRelayUrl(relay.url) === normalized)) {
+    return { settings, error: 'Relay already added' };
+  }
+
+  const updated = [...settings, { url: normalized, read: true, write: true }];
+  saveRelaySettings(updated);
+  return { settings: updated };
+}
+
+/**
+ * Remove a relay from the user's list
+ * The last relay can't be removed - an empty list would fall back to the defaults
+ * @returns The updated list, or an error if it's the only relay left
+ */
+export function removeRelay(url: string): { settings: RelaySetting[]; error?: string } {
+  const settings = getRelaySettings();
+  const updated = settings.filter(relay => relay.url !== url);
+  if (updated.length === 0) {
+    return { settings, error: 'Add another relay before removing the last one' };
+  }
+
+  saveRelaySettings(updated);
+  return { settings: updated };
+}
+
+/**
+ * Change whether a relay is used for reading and/or writing
+ */
+export function updateRelay(url: string, changes: Partial<Pick<RelaySetting, 'read' | 'write'>>): RelaySetting[] {
+  const updated = getRelaySettings().map(relay =>
+    relay.url === url ? { ...relay, ...changes } : relay
+  );
+  saveRelaySettings(updated);
+  return updated;
+}
+
+/**
+ * Get the relays to read from
+ * Falls back to the default relays if none are marked read
+ */
+export function getReadRelays(): string[] {
+  const relays = getRelaySettings().filter(relay => relay.read).map(relay => relay.url);
+  return relays.length > 0 ? relays : DEFAULT_RELAYS;
+}
+
+/**
+ * Get the relays to publish to
+ * Falls back to the default relays if none are marked write
+ */
+export function getWriteRelays(): string[] {
+  const relays = getRelaySettings().filter(relay => relay.write).map(relay => relay.url);
+  return relays.length > 0 ? relays : DEFAULT_RELAYS;
+}
+
+/**
+ * Clear the stored relay list (reverts to defaults)
+ */
+export function clearRelaySettings(): void {
+  try {
+    localStorage.removeItem(STORAGE_KEYS.PROFILE_RELAYS);
+  } catch (error) {
+    console.error('Error clearing relay settings:', error);
+  }
+}
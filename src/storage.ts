@@ -1,14 +1,47 @@
 /**
- * Storage utilities for managing ephemeral keys and visit tracking
+ * Storage utilities for managing ephemeral keys, visit tracking and created links
  */
 
 const STORAGE_KEYS = {
   EPHEMERAL_KEY: 'nostramp_ephemeral_key',
   VISIT_COUNT: 'nostramp_visit_count',
   LAST_VISIT: 'nostramp_last_visit',
-  HAS_CLAIMED: 'nostramp_has_claimed'
+  HAS_CLAIMED: 'nostramp_has_claimed',
+  CREATED_LINKS: 'nostramp_created_links'
 } as const;
 
+// Oldest links are dropped beyond this many
+const MAX_CREATED_LINKS = 500;
+
+// Version written into exported link files
+const LINK_EXPORT_VERSION = 1;
+
+const LINK_ID_PATTERN = /^(note|nevent|naddr|npub|nprofile)1[02-9ac-hj-np-z]+$/i;
+
+/**
+ * Author and text of a created link, cached so the gallery shows them without waiting on relays
+ */
+export interface CreatedLinkMetadata {
+  authorPubkey: string;
+  authorName?: string;
+  authorPicture?: string;
+  snippet?: string;   // Start of the note, the article title, or the profile's about text
+  eventId?: string;   // Hex ID of the note, needed to count reactions on naddr links
+  fetchedAt: number;  // Milliseconds
+}
+
+/**
+ * A shareable link created on the home page
+ * The link itself is the app origin followed by the ID
+ */
+export interface CreatedLink {
+  id: string;         // note1, nevent1, naddr1, npub1 or nprofile1 ID
+  source: string;     // The link as it was pasted
+  createdAt: number;  // Milliseconds
+  slug?: string;      // Short link (/s/<slug>) created for it, if any
+  metadata?: CreatedLinkMetadata;
+}
+
 /**
  * Get ephemeral key from storage
  * @returns The private key or null if not found
@@ -114,3 +147,136 @@ export function getLastVisit(): number | null {
     return null;
   }
 }
+
+/**
+ * Check that a value read from storage or an import file is a created link
+ */
+function isCreatedLink(value: unknown): value is CreatedLink {
+  if (!value || typeof value !== 'object') return false;
+  const link = value as Partial<CreatedLink>;
+  if (typeof link.id !== 'string' || !LINK_ID_PATTERN.test(link.id)) return false;
+  if (typeof link.source !== 'string' || typeof link.createdAt !== 'number') return false;
+  if (link.slug !== undefined && typeof link.slug !== 'string') return false;
+  return link.metadata === undefined || (typeof link.metadata === 'object' && link.metadata !== null && typeof link.metadata.authorPubkey === 'string');
+}
+
+/**
+ * Get the links created on this browser, newest first
+ */
+export function getCreatedLinks(): CreatedLink[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEYS.CREATED_LINKS);
+    if (stored) {
+      const links = JSON.parse(stored);
+      if (Array.isArray(links)) {
+        return links.filter(isCreatedLink);
+      }
+    }
+  } catch (error) {
+    console.error('Error reading created links:', error);
+  }
+  return [];
+}
+
+/**
+ * Save created links, newest first and capped at MAX_CREATED_LINKS
+ */
+function saveCreatedLinks(links: CreatedLink[]): CreatedLink[] {
+  const sorted = [...links].sort((a, b) => b.createdAt - a.createdAt).slice(0, MAX_CREATED_LINKS);
+  try {
+    localStorage.setItem(STORAGE_KEYS.CREATED_LINKS, JSON.stringify(sorted));
+  } catch (error) {
+    console.error('Error saving created links:', error);
+  }
+  return sorted;
+}
+
+/**
+ * Record a newly created link
+ * Creating the same link again moves it to the top and keeps its cached metadata
+ * @param id - The note or profile ID in the link
+ * @param source - The link as it was pasted
+ * @returns The updated links
+ */
+export function recordCreatedLink(id: string, source: string): CreatedLink[] {
+  const links = getCreatedLinks();
+  const existing = links.find(link => link.id === id);
+  return saveCreatedLinks([
+    { id, source, createdAt: Date.now(), slug: existing?.slug, metadata: existing?.metadata },
+    ...links.filter(link => link.id !== id)
+  ]);
+}
+
+/**
+ * Remove a created link
+ * @returns The updated links
+ */
+export function removeCreatedLink(id: string): CreatedLink[] {
+  return saveCreatedLinks(getCreatedLinks().filter(link => link.id !== id));
+}
+
+/**
+ * Remember the short link created for a link
+ * @returns The updated links
+ */
+export function setCreatedLinkSlug(id: string, slug: string): CreatedLink[] {
+  return saveCreatedLinks(getCreatedLinks().map(link =>
+    link.id === id ? { ...link, slug } : link
+  ));
+}
+
+/**
+ * Cache author and snippet metadata for created links
+ * @param metadata - Metadata keyed by link ID
+ * @returns The updated links
+ */
+export function updateCreatedLinkMetadata(metadata: Record<string, CreatedLinkMetadata>): CreatedLink[] {
+  return saveCreatedLinks(getCreatedLinks().map(link =>
+    metadata[link.id] ? { ...link, metadata: metadata[link.id] } : link
+  ));
+}
+
+/**
+ * Export created links as JSON for backup or moving to another browser
+ */
+export function exportCreatedLinks(): string {
+  return JSON.stringify({
+    version: LINK_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    links: getCreatedLinks()
+  }, null, 2);
+}
+
+/**
+ * Import created links from an export file
+ * Links already in the gallery are kept as they are
+ * @param json - Contents of a file from exportCreatedLinks (or a bare array of links)
+ * @returns The updated links and how many were added, or an error
+ */
+export function importCreatedLinks(json: string): { links: CreatedLink[]; added: number; error?: string } {
+  const current = getCreatedLinks();
+
+  let imported: unknown;
+  try {
+    const parsed = JSON.parse(json);
+    imported = Array.isArray(parsed) ? parsed : parsed?.links;
+  } catch {
+    return { links: current, added: 0, error: 'File is not valid JSON' };
+  }
+  if (!Array.isArray(imported)) {
+    return { links: current, added: 0, error: 'File does not contain any links' };
+  }
+
+  const valid = imported.filter(isCreatedLink);
+  if (imported.length > 0 && valid.length === 0) {
+    return { links: current, added: 0, error: 'No valid links found in file' };
+  }
+
+  const known = new Set(current.map(link => link.id));
+  const added = valid.filter(link => {
+    if (known.has(link.id)) return false;
+    known.add(link.id);
+    return true;
+  });
+  return { links: saveCreatedLinks([...current, ...added]), added: added.length };
+}
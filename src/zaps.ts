@@ -0,0 +1,336 @@
+/**
+ * Zaps (NIP-57) - Lightning payments to a note's author, announced on Nostr
+ * Resolves the author's LNURL-pay endpoint, signs a kind-9734 zap request,
+ * fetches the bolt11 invoice and watches relays for the kind-9735 receipt
+ */
+
+import { makeZapRequest, validateZapRequest, getSatoshisAmountFromBolt11 } from 'nostr-tools/nip57';
+import { bytesToHex } from 'nostr-tools/utils';
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bech32 } from '@scure/base';
+import { subscribeEvents } from './relays';
+import { getReadRelays } from './storage.relays';
+import type { Event, ProfileData } from './nostr';
+import type { NostrSigner } from './signer';
+
+/**
+ * LNURL-pay endpoint details (LUD-06), with the NIP-57 fields
+ */
+export interface LnurlPayInfo {
+  lnurl: string;            // Endpoint URL the details were fetched from
+  callback: string;         // URL that returns invoices
+  minSendable: number;      // Millisats
+  maxSendable: number;      // Millisats
+  nostrPubkey: string;      // Key the provider signs zap receipts with
+}
+
+/**
+ * An invoice for a zap, with the signed zap request it pays for
+ */
+export interface ZapInvoice {
+  invoice: string;          // bolt11
+  zapRequest: Event;
+  amountSats: number;
+}
+
+/**
+ * A validated zap receipt (kind 9735) and what it paid
+ */
+export interface ParsedZapReceipt {
+  id: string;               // Receipt event ID
+  senderPubkey: string;     // Who zapped (the zap request's author)
+  amountSats: number;
+  comment: string;
+  zapRequest: Event;
+}
+
+/**
+ * Amounts offered in the zap dialog (sats)
+ */
+export const ZAP_AMOUNTS = [21, 100, 500, 1000, 5000];
+
+// Local hosts are reached over http so a LNURL stub can run next to the dev server
+const LOCAL_HOST_PATTERN = /^(localhost|127\.0\.0\.1|\[::1\])(:\d+)?$/;
+
+// bolt11 layout in 5-bit words (BOLT #11): a 7-word timestamp, tagged fields, a 104-word signature
+const BOLT11_TIMESTAMP_WORDS = 7;
+const BOLT11_SIGNATURE_WORDS = 104;
+
+// Tagged field type of the description hash ('h')
+const BOLT11_DESCRIPTION_HASH_TAG = 23;
+
+// LNURL-pay details by endpoint URL, shared by the zap panel and receipt validation
+const payInfoCache = new Map<string, Promise<LnurlPayInfo>>();
+
+/**
+ * Get the LNURL-pay URL from a profile's lightning address (lud16) or LNURL (lud06)
+ * @param profile - Author profile metadata
+ * @returns Endpoint URL or null if the profile has no lightning address
+ */
+export function getLnurlPayUrl(profile: Pick<ProfileData, 'lud16' | 'lud06'> | null): string | null {
+  try {
+    if (profile?.lud16) {
+      const [name, domain] = profile.lud16.trim().toLowerCase().split('@');
+      if (!name || !domain) return null;
+      const scheme = LOCAL_HOST_PATTERN.test(domain) ? 'http' : 'https';
+      return `${scheme}://${domain}/.well-known/lnurlp/${encodeURIComponent(name)}`;
+    }
+
+    if (profile?.lud06) {
+      const { words } = bech32.decode(profile.lud06.trim().toLowerCase() as `${string}1${string}`, 2000);
+      return new TextDecoder().decode(bech32.fromWords(words));
+    }
+  } catch (error) {
+    console.error('Error reading lightning address:', error);
+  }
+
+  return null;
+}
+
+/**
+ * Check if a profile has a lightning address to zap
+ */
+export function canZap(profile: ProfileData | null): boolean {
+  return getLnurlPayUrl(profile) !== null;
+}
+
+/**
+ * Fetch the LNURL-pay details for a profile and check the endpoint supports zaps
+ * @param profile - Author profile metadata
+ * @returns Endpoint details
+ * @throws Error if there is no lightning address or the endpoint doesn't support Nostr zaps
+ */
+export async function fetchLnurlPayInfo(profile: ProfileData | null): Promise<LnurlPayInfo> {
+  const lnurl = getLnurlPayUrl(profile);
+  if (!lnurl) {
+    throw new Error('This author has no lightning address');
+  }
+
+  let cached = payInfoCache.get(lnurl);
+  if (!cached) {
+    cached = loadLnurlPayInfo(lnurl);
+    payInfoCache.set(lnurl, cached);
+    // Don't keep failures around - the endpoint may just have been unreachable
+    cached.catch(() => payInfoCache.delete(lnurl));
+  }
+  return cached;
+}
+
+/**
+ * Fetch LNURL-pay details from an endpoint
+ */
+async function loadLnurlPayInfo(lnurl: string): Promise<LnurlPayInfo> {
+  const response = await fetch(lnurl);
+  if (!response.ok) {
+    throw new Error('Could not reach the lightning address');
+  }
+
+  const body = await response.json();
+  if (body.status === 'ERROR') {
+    throw new Error(body.reason || 'Lightning address returned an error');
+  }
+  if (body.tag !== 'payRequest' || !body.callback) {
+    throw new Error('Lightning address does not accept payments');
+  }
+  if (!body.allowsNostr || !/^[0-9a-f]{64}$/.test(body.nostrPubkey || '')) {
+    throw new Error('Lightning address does not support zaps');
+  }
+
+  return {
+    lnurl,
+    callback: body.callback,
+    minSendable: Number(body.minSendable) || 1000,
+    maxSendable: Number(body.maxSendable) || Number.MAX_SAFE_INTEGER,
+    nostrPubkey: body.nostrPubkey
+  };
+}
+
+/**
+ * Get the key a profile's LNURL provider signs zap receipts with
+ * @param profile - Author profile metadata
+ * @returns The provider's nostrPubkey, or null if the profile can't receive zaps
+ */
+export async function getZapProviderPubkey(profile: ProfileData | null): Promise<string | null> {
+  if (!canZap(profile)) return null;
+
+  try {
+    return (await fetchLnurlPayInfo(profile)).nostrPubkey;
+  } catch (error) {
+    console.error('Error fetching zap provider:', error);
+    return null;
+  }
+}
+
+/**
+ * Read the description hash ('h' field) of a bolt11 invoice
+ * @param bolt11 - Lightning invoice
+ * @returns The hash (hex), or null if the invoice is invalid or has none
+ */
+function getBolt11DescriptionHash(bolt11: string): string | null {
+  try {
+    const invoice = bolt11.trim().toLowerCase().replace(/^lightning:/, '') as `${string}1${string}`;
+    const { words } = bech32.decode(invoice, Number.MAX_SAFE_INTEGER);
+    const fields = words.slice(BOLT11_TIMESTAMP_WORDS, words.length - BOLT11_SIGNATURE_WORDS);
+
+    // Each field is a type word, a two-word length and that many data words
+    for (let i = 0; i + 3 <= fields.length;) {
+      const length = fields[i + 1] * 32 + fields[i + 2];
+      if (fields[i] === BOLT11_DESCRIPTION_HASH_TAG) {
+        const hash = bech32.fromWordsUnsafe(fields.slice(i + 3, i + 3 + length));
+        return hash ? bytesToHex(hash) : null;
+      }
+      i += 3 + length;
+    }
+  } catch {
+    // Not a bolt11 invoice
+  }
+
+  return null;
+}
+
+/**
+ * Parse and validate a zap receipt (NIP-57 appendix F)
+ * - Signed by the recipient's LNURL provider, so receipts are dropped when its nostrPubkey isn't known
+ * - Embeds a valid, signed kind-9734 zap request in its description tag
+ * - The invoice commits to that zap request (its description hash is the SHA-256 of the tag)
+ * - Pays the same recipient, and the invoice amount matches the requested amount
+ * @param receipt - Kind 9735 event
+ * @param providerPubkey - The recipient's LNURL provider nostrPubkey
+ * @returns The parsed zap or null if the receipt isn't valid
+ */
+export function parseZapReceipt(receipt: Event, providerPubkey?: string | null): ParsedZapReceipt | null {
+  if (receipt.kind !== 9735) return null;
+  if (!providerPubkey || receipt.pubkey !== providerPubkey) return null;
+
+  const description = receipt.tags.find(tag => tag[0] === 'description')?.[1];
+  const bolt11 = receipt.tags.find(tag => tag[0] === 'bolt11')?.[1];
+  if (!description || !bolt11 || validateZapRequest(description) !== null) return null;
+
+  const descriptionHash = bytesToHex(sha256(new TextEncoder().encode(description)));
+  if (getBolt11DescriptionHash(bolt11) !== descriptionHash) return null;
+
+  const zapRequest = JSON.parse(description) as Event;
+  if (zapRequest.kind !== 9734) return null;
+
+  const recipient = receipt.tags.find(tag => tag[0] === 'p')?.[1];
+  if (recipient !== zapRequest.tags.find(tag => tag[0] === 'p')?.[1]) return null;
+
+  const amountMsats = Math.round(getSatoshisAmountFromBolt11(bolt11) * 1000);
+  if (!amountMsats) return null;
+
+  const requestedMsats = zapRequest.tags.find(tag => tag[0] === 'amount')?.[1];
+  if (requestedMsats && parseInt(requestedMsats, 10) !== amountMsats) return null;
+
+  return {
+    id: receipt.id,
+    senderPubkey: zapRequest.pubkey,
+    amountSats: Math.floor(amountMsats / 1000),
+    comment: zapRequest.content,
+    zapRequest
+  };
+}
+
+/**
+ * Sign a zap request for a note and fetch the invoice for it
+ * @param signer - Signer for the user's identity
+ * @param payInfo - The author's LNURL-pay details
+ * @param event - Note being zapped
+ * @param amountSats - Amount in sats
+ * @param comment - Optional message sent with the zap
+ * @param relays - Relays the receipt should be published to (defaults to the user's read relays)
+ * @returns The invoice and signed zap request
+ * @throws Error if the amount is out of range, or the endpoint doesn't return an invoice
+ * for the requested amount that commits to the zap request
+ */
+export async function requestZapInvoice(
+  signer: NostrSigner,
+  payInfo: LnurlPayInfo,
+  event: Event,
+  amountSats: number,
+  comment: string = '',
+  relays?: string[]
+): Promise<ZapInvoice> {
+  const amountMsats = Math.round(amountSats * 1000);
+  if (amountMsats < payInfo.minSendable || amountMsats > payInfo.maxSendable) {
+    throw new Error(
+      `Amount must be between ${Math.ceil(payInfo.minSendable / 1000)} and ${Math.floor(payInfo.maxSendable / 1000)} sats`
+    );
+  }
+
+  const template = makeZapRequest({
+    event,
+    amount: amountMsats,
+    comment,
+    relays: relays && relays.length > 0 ? relays : getReadRelays()
+  });
+  template.tags.push(['lnurl', payInfo.lnurl]);
+  const zapRequest = await signer.signEvent(template);
+
+  const url = new URL(payInfo.callback);
+  const description = JSON.stringify(zapRequest);
+  url.searchParams.set('amount', amountMsats.toString());
+  url.searchParams.set('nostr', description);
+  url.searchParams.set('lnurl', payInfo.lnurl);
+
+  const response = await fetch(url.toString());
+  const body = await response.json();
+  if (body.status === 'ERROR' || typeof body.pr !== 'string') {
+    throw new Error(body.reason || 'Could not get an invoice');
+  }
+
+  // Don't show an invoice for a different amount or payment than the one requested
+  if (Math.round(getSatoshisAmountFromBolt11(body.pr.toLowerCase()) * 1000) !== amountMsats) {
+    throw new Error('The invoice is not for the requested amount');
+  }
+  if (getBolt11DescriptionHash(body.pr) !== bytesToHex(sha256(new TextEncoder().encode(description)))) {
+    throw new Error('The invoice is not for this zap');
+  }
+
+  return { invoice: body.pr, zapRequest, amountSats };
+}
+
+/**
+ * Check if a zap receipt (kind 9735) is a valid receipt for a given zap request
+ * @param receipt - Kind 9735 event
+ * @param zapRequest - The signed zap request
+ * @param providerPubkey - The LNURL provider's nostrPubkey
+ */
+export function isReceiptForZapRequest(receipt: Event, zapRequest: Event, providerPubkey: string): boolean {
+  return parseZapReceipt(receipt, providerPubkey)?.zapRequest.id === zapRequest.id;
+}
+
+/**
+ * Watch relays for the receipt of a zap
+ * @param zap - The invoice and zap request being paid
+ * @param providerPubkey - The LNURL provider's nostrPubkey
+ * @param onReceipt - Called once when the receipt arrives
+ * @returns Function that stops watching
+ */
+export function watchZapReceipt(
+  zap: ZapInvoice,
+  providerPubkey: string,
+  onReceipt: (receipt: Event) => void
+): () => void {
+  const eventId = zap.zapRequest.tags.find(tag => tag[0] === 'e')?.[1];
+  const relaysTag = zap.zapRequest.tags.find(tag => tag[0] === 'relays');
+  const relays = relaysTag ? relaysTag.slice(1) : getReadRelays();
+
+  let isDone = false;
+  const close = subscribeEvents(relays, {
+    kinds: [9735],
+    '#p': [zap.zapRequest.tags.find(tag => tag[0] === 'p')?.[1] || ''],
+    ...(eventId ? { '#e': [eventId] } : {}),
+    // Allow for clock skew between us and the provider
+    since: zap.zapRequest.created_at - 60
+  }, (receipt) => {
+    if (isDone || !isReceiptForZapRequest(receipt, zap.zapRequest, providerPubkey)) return;
+    isDone = true;
+    close();
+    onReceipt(receipt);
+  });
+
+  return () => {
+    isDone = true;
+    close();
+  };
+}